@@ -2,6 +2,56 @@ import Foundation
 import Cocoa
 import AppKit
 
+// Each MCP server registers its callback directory in <key>.json here:
+// {"callbackDir": "/absolute/path"}. The key starts the callbackId of every
+// request the server makes, as in <key>.get-item-..., so servers with
+// different directories can share this helper.
+let registryDir = "\(FileManager.default.homeDirectoryForCurrentUser.path)/Library/Application Support/ulysses-mcp/helpers"
+let defaultCallbackDir = "\(FileManager.default.homeDirectoryForCurrentUser.path)/Library/Application Support/ulysses-mcp/tmp"
+
+// The callback directory in a registration file, if it is valid
+func registeredDirectory(atPath path: String) -> String? {
+    guard let data = FileManager.default.contents(atPath: path),
+          let registration = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
+          let callbackDir = registration["callbackDir"] as? String,
+          callbackDir.hasPrefix("/") else {
+        return nil
+    }
+    return callbackDir
+}
+
+// The directory of the server that made a request, read from the registry
+// each time so a restarted server can move it; nil for a callbackId that
+// names no registration
+func callbackDirectory(for callbackId: String) -> String? {
+    guard let dot = callbackId.firstIndex(of: "."), !callbackId.contains("/") else {
+        return nil
+    }
+    let key = String(callbackId[..<dot])
+    guard key.count == 16, key.allSatisfy({ "0123456789abcdef".contains($0) }) else {
+        return nil
+    }
+    return registeredDirectory(atPath: "\(registryDir)/\(key).json")
+}
+
+// Every registered callback directory, and the default one
+func callbackDirectories() -> [String] {
+    let names = (try? FileManager.default.contentsOfDirectory(atPath: registryDir)) ?? []
+    let registered = names.filter { $0.hasSuffix(".json") }.compactMap { registeredDirectory(atPath: "\(registryDir)/\($0)") }
+    return Array(Set(registered + [defaultCallbackDir]))
+}
+
+// Write the PID file the MCP servers check before sending requests
+func writePidFile() {
+    for secureTempDir in callbackDirectories() {
+        // Create directory if it doesn't exist
+        try? FileManager.default.createDirectory(atPath: secureTempDir, withIntermediateDirectories: true, attributes: [.posixPermissions: 0o700])
+
+        let pidPath = "\(secureTempDir)/helper.pid"
+        try? "\(getpid())".write(toFile: pidPath, atomically: true, encoding: .utf8)
+    }
+}
+
 class UlyssesMCPHelper: NSObject, NSApplicationDelegate {
     var socketPath: String = "/tmp/ulysses-mcp-\(getpid()).sock"
     var shouldKeepRunning = true
@@ -78,9 +128,11 @@ class UlyssesMCPHelper: NSObject, NSApplicationDelegate {
             return
         }
         
-        // Write to secure temp directory for the MCP server to read
-        let homeDir = FileManager.default.homeDirectoryForCurrentUser.path
-        let secureTempDir = "\(homeDir)/Library/Application Support/ulysses-mcp/tmp"
+        // Write to the secure temp directory of the server that made the request
+        guard let secureTempDir = callbackDirectory(for: callbackId) else {
+            print("ERROR: No server registered for callback ID \(callbackId)")
+            return
+        }
         
         // Create directory if it doesn't exist
         try? FileManager.default.createDirectory(atPath: secureTempDir, withIntermediateDirectories: true, attributes: [.posixPermissions: 0o700])
@@ -94,6 +146,13 @@ class UlyssesMCPHelper: NSObject, NSApplicationDelegate {
         }
     }
     
+    // `open -a` on the running helper: a server that registered another
+    // callback directory is waiting for the PID file there
+    func applicationShouldHandleReopen(_ sender: NSApplication, hasVisibleWindows flag: Bool) -> Bool {
+        writePidFile()
+        return false
+    }
+    
     func applicationShouldTerminateAfterLastWindowClosed(_ sender: NSApplication) -> Bool {
         return false // Keep running in background
     }
@@ -108,14 +167,7 @@ app.delegate = helper
 app.setActivationPolicy(.accessory)
 
 // Write PID file so MCP server can manage the helper process
-let homeDir = FileManager.default.homeDirectoryForCurrentUser.path
-let secureTempDir = "\(homeDir)/Library/Application Support/ulysses-mcp/tmp"
-
-// Create directory if it doesn't exist
-try? FileManager.default.createDirectory(atPath: secureTempDir, withIntermediateDirectories: true, attributes: [.posixPermissions: 0o700])
-
-let pidPath = "\(secureTempDir)/helper.pid"
-try? "\(getpid())".write(toFile: pidPath, atomically: true, encoding: .utf8)
+writePidFile()
 
 print("Helper PID: \(getpid())")
 app.run()
@@ -0,0 +1,173 @@
+/**
+ * Tests for the hash-chained audit log and its verification
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runAuditCommand } from './audit-cli.js';
+import { GENESIS_HASH, chainHeadPath, verifyAuditLog } from './audit-chain.js';
+import { AuditLogger } from './audit-logger.js';
+
+let sandbox: string;
+let logger: AuditLogger;
+
+function lines(): string[] {
+  return readFileSync(logger.getLogPath(), 'utf8').trim().split('\n');
+}
+
+function rewrite(entries: string[]): void {
+  writeFileSync(logger.getLogPath(), entries.map(line => `${line}\n`).join(''));
+}
+
+beforeEach(() => {
+  sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  logger = new AuditLogger(sandbox);
+  logger.logSuccess('get-version');
+  logger.logDestructiveOperation('trash', true, { id: 'abc' });
+  logger.logFailure('read-sheet', 'not found', { id: 'missing' });
+});
+
+afterEach(() => {
+  rmSync(sandbox, { recursive: true, force: true });
+});
+
+describe('AuditLogger chain', () => {
+  it('should number entries and link each to the one before', () => {
+    const entries = lines().map(line => JSON.parse(line));
+    expect(entries.map(entry => entry.seq)).toEqual([0, 1, 2, 3]);
+    expect(entries[0].prev_hash).toBe(GENESIS_HASH);
+    expect(entries[2].prev_hash).toBe(entries[1].hash);
+    expect(JSON.parse(readFileSync(chainHeadPath(logger.getLogPath()), 'utf8')))
+      .toEqual({ seq: 3, hash: entries[3].hash });
+  });
+
+  it('should continue the chain after a restart', () => {
+    new AuditLogger(sandbox).logSuccess('get-item');
+    expect(verifyAuditLog(logger.getLogPath())).toEqual({ valid: true, entries: 6 });
+  });
+
+  it('should set aside a log written before chaining and start a new chain', () => {
+    rewrite(lines().map(line => {
+      const { seq, prev_hash, hash, ...event } = JSON.parse(line);
+      return JSON.stringify(event);
+    }));
+    unlinkSync(chainHeadPath(logger.getLogPath()));
+    new AuditLogger(sandbox);
+
+    const unchained = readdirSync(sandbox).find(name => name.startsWith('unchained-'));
+    expect(readdirSync(join(sandbox, unchained!))).toEqual(['audit.jsonl']);
+    expect(lines()).toHaveLength(1);
+    expect(verifyAuditLog(logger.getLogPath())).toEqual({ valid: true, entries: 1 });
+  });
+
+  it('should record a break when a chained log has lost its head', () => {
+    unlinkSync(chainHeadPath(logger.getLogPath()));
+    new AuditLogger(sandbox);
+
+    const broken = readdirSync(sandbox).find(name => name.startsWith('broken-chain-'));
+    expect(readdirSync(join(sandbox, broken!))).toEqual(['audit.jsonl']);
+    const [chainBreak] = lines().map(line => JSON.parse(line));
+    expect(chainBreak).toMatchObject({
+      seq: 0,
+      event_type: 'chain_break',
+      details: { reason: 'the chain head is missing', set_aside: join(sandbox, broken!) }
+    });
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({
+      valid: false,
+      line: 1,
+      reason: expect.stringContaining('records a break in the chain (the chain head is missing)')
+    });
+  });
+
+  it('should keep logging and record a break when the head cannot be read', () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      writeFileSync(chainHeadPath(logger.getLogPath()), '{"seq":');
+      logger.logSuccess('get-item');
+      logger.logSuccess('get-version');
+      expect(errors).toHaveBeenCalledTimes(1);
+      expect(errors).toHaveBeenCalledWith(expect.stringContaining('Audit log chain is broken: the chain head could not be read'));
+    } finally {
+      errors.mockRestore();
+    }
+
+    const entries = lines().map(line => JSON.parse(line));
+    expect(entries.map(entry => [entry.seq, entry.event_type])).toEqual([
+      [0, 'chain_break'], [1, 'operation_success'], [2, 'operation_success']
+    ]);
+    const broken = readdirSync(sandbox).find(name => name.startsWith('broken-chain-'));
+    expect(readdirSync(join(sandbox, broken!)).sort()).toEqual(['audit.head.json', 'audit.jsonl']);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, line: 1 });
+  });
+});
+
+describe('verifyAuditLog', () => {
+  it('should accept an intact or empty log', () => {
+    expect(verifyAuditLog(logger.getLogPath())).toEqual({ valid: true, entries: 4 });
+    expect(verifyAuditLog(join(sandbox, 'none.jsonl'))).toEqual({ valid: true, entries: 0 });
+  });
+
+  it('should detect an edited entry', () => {
+    const entries = lines();
+    entries[2] = entries[2].replace('"abc"', '"xyz"');
+    rewrite(entries);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, line: 3, reason: expect.stringContaining('was edited') });
+  });
+
+  it('should detect a removed entry', () => {
+    const entries = lines();
+    entries.splice(1, 1);
+    rewrite(entries);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, entries: 1, line: 2, reason: expect.stringContaining('entries are missing') });
+  });
+
+  it('should detect reordered entries', () => {
+    const [first, second, third, fourth] = lines();
+    rewrite([first, third, second, fourth]);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, line: 2, reason: expect.stringContaining('out of order') });
+
+    rewrite([first, first, second, third, fourth]);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, line: 2, reason: expect.stringContaining('duplicated') });
+  });
+
+  it('should detect entries removed from the end', () => {
+    rewrite(lines().slice(0, 2));
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, entries: 2, line: 3, reason: expect.stringContaining('removed from the end') });
+  });
+
+  it('should detect an incomplete last line', () => {
+    const entries = lines();
+    entries[3] = entries[3].slice(0, 20);
+    rewrite(entries);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, line: 4, reason: 'audit.jsonl line 4 is not valid JSON' });
+  });
+
+  it('should detect a missing chain head', () => {
+    unlinkSync(chainHeadPath(logger.getLogPath()));
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: false, line: 5, reason: expect.stringContaining('chain head is missing') });
+  });
+});
+
+describe('runAuditCommand', () => {
+  it('should report an intact log', async () => {
+    const output: string[] = [];
+    expect(await runAuditCommand(['verify', logger.getLogPath()], line => output.push(line))).toBe(0);
+    expect(output).toEqual([`${logger.getLogPath()}: intact (4 entries)`]);
+  });
+
+  it('should report the first bad line of an altered log', async () => {
+    rewrite(lines().slice(1));
+    const output: string[] = [];
+    expect(await runAuditCommand(['verify', logger.getLogPath()], line => output.push(line))).toBe(1);
+    expect(output[0]).toContain('altered: audit.jsonl line 1 has sequence number 1, expected 0');
+  });
+
+  it('should print usage for unknown commands', async () => {
+    const output: string[] = [];
+    expect(await runAuditCommand(['shred'], line => output.push(line))).toBe(2);
+    expect(output[0]).toMatch(/^Usage:/);
+    expect(existsSync(logger.getLogPath())).toBe(true);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Audit Log Hash Chain
+ *
+ * Each audit log entry carries a sequence number, the hash of the entry before
+ * it (prev_hash) and its own SHA-256 hash. The chain head file next to the log
+ * records the sequence number and hash of the last entry, so removing entries
+ * from the end is detected as well as edits, insertions, removals and
+ * reordering anywhere else. The chain continues across rotated files; when
+ * retention deletes the oldest ones, the head records where the kept chain starts.
+ * When the logger finds the head missing or unreadable it starts a new chain
+ * with a chain_break entry, which verification reports like any other break.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+import { readLogFile, rotatedLogs } from './audit-rotation.js';
+
+/** prev_hash of the first entry */
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface ChainHead {
+  /** Sequence number of the last entry, -1 before the first */
+  seq: number;
+  hash: string;
+  /** First entry kept after retention deleted older files (seq 0 otherwise) */
+  start?: { seq: number; prev_hash: string };
+}
+
+export type AuditVerification =
+  | { valid: true; entries: number }
+  | { valid: false; entries: number; file: string; line: number; reason: string };
+
+/**
+ * The chain head file of a log, e.g. audit.head.json for audit.jsonl
+ */
+export function chainHeadPath(logPath: string): string {
+  return `${logPath.replace(/\.jsonl$/, '')}.head.json`;
+}
+
+/**
+ * The chain head, or null before the first entry
+ */
+export function readChainHead(headPath: string): ChainHead | null {
+  if (!existsSync(headPath)) {
+    return null;
+  }
+  const head = JSON.parse(readFileSync(headPath, 'utf8'));
+  if (!Number.isInteger(head?.seq) || typeof head?.hash !== 'string') {
+    throw new Error(`Invalid audit chain head: ${headPath}`);
+  }
+  return head;
+}
+
+/**
+ * Replace the chain head atomically, so a crash never leaves half a file
+ */
+export function writeChainHead(headPath: string, head: ChainHead): void {
+  const tempPath = `${headPath}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(head), { mode: 0o600 });
+  renameSync(tempPath, headPath);
+}
+
+function hashEntry(entry: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+/**
+ * Link an event to the chain: returns the log line and the new chain head
+ */
+export function chainEntry(event: object, head: ChainHead): { line: string; head: ChainHead } {
+  const seq = head.seq + 1;
+  const entry = { seq, ...event, prev_hash: head.hash };
+  const hash = hashEntry(entry);
+  return { line: JSON.stringify({ ...entry, hash }), head: { ...head, seq, hash } };
+}
+
+/**
+ * Check a log and its rotated files against the chain and head, reporting the
+ * first bad line
+ */
+export function verifyAuditLog(logPath: string): AuditVerification {
+  const headPath = chainHeadPath(logPath);
+  let head: ChainHead | null;
+  try {
+    head = readChainHead(headPath);
+  } catch (error) {
+    return { valid: false, entries: 0, file: headPath, line: 1, reason: error instanceof Error ? error.message : String(error) };
+  }
+
+  const files = [...rotatedLogs(logPath), ...(existsSync(logPath) ? [logPath] : [])];
+  let previous: ChainHead = head?.start
+    ? { seq: head.start.seq - 1, hash: head.start.prev_hash }
+    : { seq: -1, hash: GENESIS_HASH };
+  let entries = 0;
+  let last = { file: logPath, lines: 0 };
+
+  for (const file of files) {
+    const content = readLogFile(file);
+    const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+    const name = basename(file);
+
+    for (const [index, text] of lines.entries()) {
+      const line = index + 1;
+      const fail = (reason: string): AuditVerification => ({ valid: false, entries, file, line, reason: `${name} line ${line} ${reason}` });
+
+      let entry: Record<string, unknown>;
+      try {
+        entry = JSON.parse(text);
+      } catch {
+        return fail('is not valid JSON');
+      }
+      const { hash, ...rest } = entry;
+      if (typeof hash !== 'string' || hashEntry(rest) !== hash) {
+        return fail('was edited: its content does not match its hash');
+      }
+      const expected = previous.seq + 1;
+      if (entry.seq !== expected) {
+        return fail(typeof entry.seq === 'number' && entry.seq > expected
+          ? `has sequence number ${entry.seq}, expected ${expected}: entries are missing or out of order`
+          : `has sequence number ${String(entry.seq)}, expected ${expected}: entries were reordered or duplicated`);
+      }
+      if (entry.prev_hash !== previous.hash) {
+        return fail('does not follow the entry before it');
+      }
+      // AuditEventType.CHAIN_BREAK, written when the logger restarted the chain
+      if (entry.event_type === 'chain_break') {
+        const details = (entry.details ?? {}) as { reason?: string; set_aside?: string };
+        return fail(`records a break in the chain (${details.reason}); the log before it was moved to ${details.set_aside}`);
+      }
+      previous = { seq: expected, hash };
+      entries++;
+    }
+    last = { file, lines: lines.length };
+  }
+
+  const end = { valid: false as const, entries, file: last.file, line: last.lines + 1 };
+  if (!head) {
+    return entries === 0
+      ? { valid: true, entries }
+      : { ...end, reason: 'the chain head is missing, so removal of the last entries cannot be ruled out' };
+  }
+  if (head.seq !== previous.seq || head.hash !== previous.hash) {
+    return {
+      ...end,
+      reason: head.seq > previous.seq
+        ? `the log ends at sequence number ${previous.seq}, but the chain head records ${head.seq}: entries were removed from the end`
+        : 'the last entry does not match the chain head'
+    };
+  }
+  return { valid: true, entries };
+}
@@ -0,0 +1,86 @@
+/**
+ * Audit Log Commands
+ *
+ * `ulysses-mcp audit verify [file]` checks the hash chain of an audit log and
+ * its rotated files, the server's own log when no file is given, and reports
+ * the first bad line.
+ * `ulysses-mcp audit query [options]` filters and summarizes the log like the
+ * ulysses_audit_query tool; options are its arguments, e.g. --item-id.
+ * Exits with 0 when the log is intact, 1 when it was altered and 2 on bad usage.
+ */
+
+import { join } from 'path';
+import { verifyAuditLog } from './audit-chain.js';
+import { AUDIT_LOG_DIR, AUDIT_LOG_FILE } from './audit-logger.js';
+import { AuditQuery, parseAuditQuery, runAuditQuery } from './audit-query.js';
+
+const USAGE = [
+  'Usage: ulysses-mcp audit verify [audit.jsonl]',
+  '       ulysses-mcp audit query [--event-type type] [--action action] [--since time] [--until time]',
+  '                               [--success true|false] [--item-id id] [--format summary|events]',
+  '                               [--limit count] [--file audit.jsonl]'
+].join('\n');
+
+const QUERY_OPTIONS = ['event-type', 'action', 'since', 'until', 'success', 'item-id', 'format', 'limit', 'file'];
+
+const DEFAULT_LOG_PATH = join(AUDIT_LOG_DIR, AUDIT_LOG_FILE);
+
+/**
+ * Run an audit subcommand and return the exit code; logPath is the log used
+ * when the command names none and privacyKey finds items in events logged in
+ * privacy mode
+ */
+export async function runAuditCommand(
+  args: string[],
+  print: (line: string) => void = console.log,
+  logPath: string = DEFAULT_LOG_PATH,
+  privacyKey?: Buffer
+): Promise<number> {
+  const [command, ...rest] = args;
+  switch (command) {
+    case 'verify':
+      return rest.length <= 1 ? verify(rest[0] ?? logPath, print) : usage(print);
+    case 'query':
+      return query(rest, print, logPath, privacyKey);
+    default:
+      return usage(print);
+  }
+}
+
+function usage(print: (line: string) => void, problem?: string): number {
+  if (problem) {
+    print(problem);
+  }
+  print(USAGE);
+  return 2;
+}
+
+function verify(file: string, print: (line: string) => void): number {
+  const result = verifyAuditLog(file);
+  if (result.valid) {
+    print(`${file}: intact (${result.entries} entries)`);
+    return 0;
+  }
+  print(`${file}: altered: ${result.reason}`);
+  return 1;
+}
+
+async function query(args: string[], print: (line: string) => void, logPath: string, privacyKey?: Buffer): Promise<number> {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const name = args[i].replace(/^--/, '');
+    if (!args[i].startsWith('--') || !QUERY_OPTIONS.includes(name) || args[i + 1] === undefined) {
+      return usage(print, `Unknown or incomplete option: ${args[i]}`);
+    }
+    options[name.replace(/-/g, '_')] = args[i + 1];
+  }
+
+  let parsed: AuditQuery;
+  try {
+    parsed = parseAuditQuery(options);
+  } catch (error) {
+    return usage(print, error instanceof Error ? error.message : String(error));
+  }
+  print((await runAuditQuery(options.file ?? logPath, parsed, privacyKey)).text);
+  return 0;
+}
@@ -6,11 +6,23 @@
  * - Destructive operations
  * - Rate limit violations
  * - Authentication failures
+ *
+ * Tool calls are logged with a correlation ID, the calling MCP client and
+ * their duration, one event per call. Entries are hash-chained (see
+ * audit-chain.ts) so edits, removals and reordering can be detected, and
+ * the log is rotated, compressed and pruned (see audit-rotation.ts).
  */
 
-import { appendFileSync, mkdirSync, existsSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
+import { appendFileSync, mkdirSync, existsSync, renameSync, statSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { ChainHead, GENESIS_HASH, chainEntry, chainHeadPath, readChainHead, writeChainHead } from './audit-chain.js';
+import { RedactionOptions, Redactor } from './audit-redaction.js';
+import { LogRotator, RotationOptions, readLogFile, rotatedLogs, withLogLock } from './audit-rotation.js';
+import { BASE_DIRECTORIES } from './paths.js';
+
+// Default directory of the audit log: the state directory
+export const AUDIT_LOG_DIR = BASE_DIRECTORIES.stateDir;
+export const AUDIT_LOG_FILE = 'audit.jsonl';
 
 // Security event types
 export enum AuditEventType {
@@ -21,7 +33,9 @@ export enum AuditEventType {
   OPERATION_SUCCESS = 'operation_success',
   OPERATION_FAILURE = 'operation_failure',
   SERVER_START = 'server_start',
-  SERVER_ERROR = 'server_error'
+  SERVER_ERROR = 'server_error',
+  // First entry of a chain started because the old one lost its head
+  CHAIN_BREAK = 'chain_break'
 }
 
 export interface AuditEvent {
@@ -32,16 +46,49 @@ export interface AuditEvent {
   user?: string;
   details?: Record<string, any>;
   error?: string;
+  correlation_id?: string;
+  tool?: string;
+  client?: string;
+  duration_ms?: number;
+  /** Time the call's Ulysses requests waited in the request queue */
+  queue_wait_ms?: number;
+  dry_run?: boolean;
+  // Chain fields, set when the event is written
+  seq?: number;
+  prev_hash?: string;
+  hash?: string;
 }
 
+/**
+ * Ties an event to the tool call it records
+ */
+export interface AuditContext {
+  correlation_id: string;
+  tool: string;
+  /** Name the MCP client gave in the initialize handshake */
+  client?: string;
+  duration_ms: number;
+  queue_wait_ms?: number;
+  dry_run?: boolean;
+}
+
+export interface AuditLoggerOptions extends RotationOptions, RedactionOptions {}
+
 export class AuditLogger {
   private logPath: string;
+  private headPath: string;
+  private rotator: LogRotator;
+  private redactor: Redactor;
+  private privacyKey?: Buffer;
   private enabled: boolean;
+  // Writes waiting for the log lock, in the order they were made
+  private pending: Array<() => void> = [];
+  private waiting: Promise<void> | null = null;
+
+  constructor(logDir: string = AUDIT_LOG_DIR, options: AuditLoggerOptions = {}) {
+    this.redactor = new Redactor(options);
+    this.privacyKey = options.privacyKey;
 
-  constructor() {
-    // Store logs in user's Application Support directory
-    const logDir = join(homedir(), 'Library/Application Support/ulysses-mcp');
-    
     // Create directory if it doesn't exist
     try {
       if (!existsSync(logDir)) {
@@ -51,11 +98,16 @@ export class AuditLogger {
       console.error('Failed to create audit log directory:', error);
       this.enabled = false;
       this.logPath = '';
+      this.headPath = '';
+      this.rotator = new LogRotator('', options);
       return;
     }
 
-    this.logPath = join(logDir, 'audit.jsonl');
+    this.logPath = join(logDir, AUDIT_LOG_FILE);
+    this.headPath = chainHeadPath(this.logPath);
+    this.rotator = new LogRotator(this.logPath, options);
     this.enabled = true;
+    this.setAsideUnchainedLog();
 
     // Log server start
     this.log({
@@ -78,28 +130,72 @@ export class AuditLogger {
       return;
     }
 
-    try {
-      // Sanitize the event before logging
-      const sanitized = this.sanitizeEvent(event);
-      
-      // Write as JSON Lines format (one JSON object per line)
-      const logLine = JSON.stringify(sanitized) + '\n';
-      
-      // Append to log file with restrictive permissions
-      appendFileSync(this.logPath, logLine, { mode: 0o600 });
-    } catch (error) {
-      console.error('Audit log write failed:', error);
+    // Sanitize the event before logging
+    const sanitized = this.sanitizeEvent(event);
+
+    this.write(() => {
+      let head: ChainHead;
+      try {
+        head = readChainHead(this.headPath) ?? { seq: -1, hash: GENESIS_HASH };
+      } catch (error) {
+        head = this.restartChain(`the chain head could not be read: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const entry = chainEntry(sanitized, head);
+
+      // Append to log file (JSON Lines) with restrictive permissions
+      appendFileSync(this.logPath, entry.line + '\n', { mode: 0o600 });
+      writeChainHead(this.headPath, entry.head);
+      this.rotator.rotateIfNeeded(entry.head);
+    });
+  }
+
+  /**
+   * Wait until every event logged so far is written and rotated files are
+   * compressed
+   */
+  async flush(): Promise<void> {
+    await this.waiting;
+    await this.rotator.idle();
+  }
+
+  /**
+   * Run a write under the log lock, so servers sharing the log extend one
+   * chain. When the lock is free the write happens before this returns;
+   * otherwise it waits, and later writes queue behind it to keep their order.
+   */
+  private write(fn: () => void): void {
+    this.pending.push(fn);
+    if (this.waiting) {
+      return;
+    }
+    const writing = withLogLock(this.logPath, () => {
+      this.waiting = null;
+      for (const next of this.pending.splice(0)) {
+        try {
+          next();
+        } catch (error) {
+          console.error('Audit log write failed:', error);
+        }
+      }
+    }).catch(error => {
+      this.waiting = null;
+      const dropped = this.pending.splice(0).length;
+      console.error(`Audit log write failed; ${dropped} events were not written:`, error);
+    });
+    if (this.pending.length > 0) {
+      this.waiting = writing;
     }
   }
 
   /**
    * Log an authorization event
    */
-  logAuthorization(appname: string, success: boolean, error?: string): void {
+  logAuthorization(appname: string, success: boolean, error?: string, context?: AuditContext): void {
     this.log({
       timestamp: new Date().toISOString(),
       event_type: AuditEventType.AUTHORIZATION,
       action: 'authorize',
+      ...context,
       success,
       details: { appname },
       error
@@ -109,13 +205,20 @@ export class AuditLogger {
   /**
    * Log a destructive operation
    */
-  logDestructiveOperation(action: string, success: boolean, details?: Record<string, any>, error?: string): void {
+  logDestructiveOperation(
+    action: string,
+    success: boolean,
+    details?: Record<string, any>,
+    error?: string,
+    context?: AuditContext
+  ): void {
     this.log({
       timestamp: new Date().toISOString(),
       event_type: AuditEventType.DESTRUCTIVE_OPERATION,
       action,
+      ...context,
       success,
-      details: this.sanitizeDetails(details),
+      details,
       error
     });
   }
@@ -123,26 +226,28 @@ export class AuditLogger {
   /**
    * Log a rate limit violation
    */
-  logRateLimitViolation(action: string, details?: Record<string, any>): void {
+  logRateLimitViolation(action: string, details?: Record<string, any>, context?: AuditContext): void {
     this.log({
       timestamp: new Date().toISOString(),
       event_type: AuditEventType.RATE_LIMIT_VIOLATION,
       action,
+      ...context,
       success: false,
-      details: this.sanitizeDetails(details)
+      details
     });
   }
 
   /**
    * Log a validation failure
    */
-  logValidationFailure(action: string, error: string, details?: Record<string, any>): void {
+  logValidationFailure(action: string, error: string, details?: Record<string, any>, context?: AuditContext): void {
     this.log({
       timestamp: new Date().toISOString(),
       event_type: AuditEventType.VALIDATION_FAILURE,
       action,
+      ...context,
       success: false,
-      details: this.sanitizeDetails(details),
+      details,
       error
     });
   }
@@ -150,84 +255,101 @@ export class AuditLogger {
   /**
    * Log a successful operation
    */
-  logSuccess(action: string, details?: Record<string, any>): void {
+  logSuccess(action: string, details?: Record<string, any>, context?: AuditContext): void {
     this.log({
       timestamp: new Date().toISOString(),
       event_type: AuditEventType.OPERATION_SUCCESS,
       action,
+      ...context,
       success: true,
-      details: this.sanitizeDetails(details)
+      details
     });
   }
 
   /**
    * Log a failed operation
    */
-  logFailure(action: string, error: string, details?: Record<string, any>): void {
+  logFailure(action: string, error: string, details?: Record<string, any>, context?: AuditContext): void {
     this.log({
       timestamp: new Date().toISOString(),
       event_type: AuditEventType.OPERATION_FAILURE,
       action,
+      ...context,
       success: false,
-      details: this.sanitizeDetails(details),
+      details,
       error
     });
   }
 
   /**
-   * Sanitize event data to remove sensitive information
+   * Sanitize event data to remove sensitive information (see audit-redaction.ts)
    */
   private sanitizeEvent(event: AuditEvent): AuditEvent {
     return {
       ...event,
-      details: this.sanitizeDetails(event.details)
+      details: this.redactor.redactDetails(event.details),
+      error: this.redactor.redactError(event.error)
     };
   }
 
   /**
-   * Sanitize details object to remove or redact sensitive fields
+   * A log written before entries were chained has no chain head. It is moved
+   * with its rotated files to an unchained-<time> directory and a new chain
+   * starts. A chained log without a head is a break in the chain, see
+   * restartChain.
    */
-  private sanitizeDetails(details?: Record<string, any>): Record<string, any> {
-    if (!details) {
-      return {};
-    }
-
-    const sanitized = { ...details };
-
-    // Remove sensitive fields
-    const sensitiveFields = [
-      'access_token',
-      'access-token',
-      'accessToken',
-      'token',
-      'password',
-      'secret',
-      'apiKey',
-      'api_key'
-    ];
-
-    for (const field of sensitiveFields) {
-      if (field in sanitized) {
-        sanitized[field] = '<redacted>';
+  private setAsideUnchainedLog(): void {
+    this.write(() => {
+      const files = this.logFiles();
+      if (files.length === 0 || existsSync(this.headPath)) {
+        return;
       }
-    }
+      if (isChained(files[files.length - 1])) {
+        this.restartChain('the chain head is missing');
+        return;
+      }
+      const unchainedDir = this.setAside(files, 'unchained');
+      console.error(`Audit log predates chaining; moved it to ${unchainedDir}`);
+    });
+  }
 
-    // Truncate large text fields to prevent log bloat
-    if (sanitized.text && typeof sanitized.text === 'string' && sanitized.text.length > 100) {
-      sanitized.text = sanitized.text.substring(0, 100) + '...[truncated]';
-    }
+  /**
+   * Start a new chain when the head of the old one is missing or cannot be
+   * read, so that logging goes on. The old log, its rotated files and any
+   * head are moved to a broken-chain-<time> directory, and the new chain
+   * starts with a chain_break event naming it, which `audit verify` reports.
+   * Call while holding the log lock; returns the new head.
+   */
+  private restartChain(reason: string): ChainHead {
+    const files = existsSync(this.headPath) ? [...this.logFiles(), this.headPath] : this.logFiles();
+    const brokenDir = this.setAside(files, 'broken-chain');
+    const entry = chainEntry({
+      timestamp: new Date().toISOString(),
+      event_type: AuditEventType.CHAIN_BREAK,
+      success: false,
+      details: { reason, set_aside: brokenDir }
+    }, { seq: -1, hash: GENESIS_HASH });
+    appendFileSync(this.logPath, entry.line + '\n', { mode: 0o600 });
+    writeChainHead(this.headPath, entry.head);
+    console.error(`Audit log chain is broken: ${reason}. Moved the log to ${brokenDir} and started a new chain`);
+    return entry.head;
+  }
 
-    // Truncate large note fields
-    if (sanitized.note && typeof sanitized.note === 'string' && sanitized.note.length > 100) {
-      sanitized.note = sanitized.note.substring(0, 100) + '...[truncated]';
-    }
+  /**
+   * The rotated files and the active log, oldest first
+   */
+  private logFiles(): string[] {
+    const active = existsSync(this.logPath) && statSync(this.logPath).size > 0 ? [this.logPath] : [];
+    return [...rotatedLogs(this.logPath), ...active];
+  }
 
-    // Truncate image data
-    if (sanitized.image && typeof sanitized.image === 'string') {
-      sanitized.image = `<base64 data, length: ${sanitized.image.length}>`;
+  private setAside(files: string[], prefix: string): string {
+    const dir = join(dirname(this.logPath), `${prefix}-${Date.now()}`);
+    mkdirSync(dir, { mode: 0o700 });
+    for (const file of files) {
+      renameSync(file, join(dir, basename(file)));
     }
-
-    return sanitized;
+    return dir;
   }
 
   /**
@@ -237,6 +359,13 @@ export class AuditLogger {
     return this.logPath;
   }
 
+  /**
+   * The secret item identifiers are hashed with in privacy mode, if any
+   */
+  getPrivacyKey(): Buffer | undefined {
+    return this.privacyKey;
+  }
+
   /**
    * Check if logging is enabled
    */
@@ -245,15 +374,28 @@ export class AuditLogger {
   }
 }
 
+/**
+ * Whether a log file's entries carry chain fields
+ */
+function isChained(file: string): boolean {
+  try {
+    const first = JSON.parse(readLogFile(file).split('\n', 1)[0]);
+    return typeof first?.seq === 'number' && typeof first?.hash === 'string';
+  } catch {
+    return false;
+  }
+}
+
 // Singleton instance
 let auditLoggerInstance: AuditLogger | null = null;
 
 /**
- * Get the global audit logger instance
+ * Get the global audit logger instance; the directory and options apply
+ * when it is first created
  */
-export function getAuditLogger(): AuditLogger {
+export function getAuditLogger(options?: AuditLoggerOptions, logDir: string = AUDIT_LOG_DIR): AuditLogger {
   if (!auditLoggerInstance) {
-    auditLoggerInstance = new AuditLogger();
+    auditLoggerInstance = new AuditLogger(logDir, options);
   }
   return auditLoggerInstance;
 }
@@ -0,0 +1,167 @@
+/**
+ * Tests for querying and summarizing the audit log
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { gunzipSync, gzipSync } from 'zlib';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runAuditCommand } from './audit-cli.js';
+import { AuditEvent, AuditEventType, AuditLogger } from './audit-logger.js';
+import { filterAuditEvents, parseAuditQuery, readAuditEvents, runAuditQuery, summarizeAuditEvents } from './audit-query.js';
+import { rotatedLogs } from './audit-rotation.js';
+
+function event(overrides: Partial<AuditEvent>): AuditEvent {
+  return {
+    timestamp: '2026-10-19T09:00:00.000Z',
+    event_type: AuditEventType.OPERATION_SUCCESS,
+    success: true,
+    ...overrides
+  };
+}
+
+const EVENTS: AuditEvent[] = [
+  event({ action: 'new-sheet', details: { text: '# Idea', target_id: 'sheet-1' } }),
+  event({ timestamp: '2026-10-19T10:00:00.000Z', event_type: AuditEventType.DESTRUCTIVE_OPERATION, action: 'trash', details: { id: 'sheet-1' } }),
+  event({ timestamp: '2026-10-19T11:00:00.000Z', event_type: AuditEventType.DESTRUCTIVE_OPERATION, action: 'trash', success: false, details: { id: 'sheet-2' } }),
+  event({ timestamp: '2026-10-19T12:00:00.000Z', event_type: AuditEventType.OPERATION_FAILURE, action: 'read-sheet', tool: 'ulysses_read_sheet', success: false })
+];
+
+describe('parseAuditQuery', () => {
+  it('should accept tool arguments and CLI strings alike', () => {
+    expect(parseAuditQuery({ success: false, limit: 5 })).toMatchObject({ success: false, limit: 5, format: 'summary' });
+    expect(parseAuditQuery({ success: 'true', limit: '5', since: '2026-10-19' })).toMatchObject({
+      success: true,
+      limit: 5,
+      since: new Date('2026-10-19')
+    });
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseAuditQuery({ event_type: 'deletion' })).toThrow('event_type must be one of');
+    expect(() => parseAuditQuery({ until: 'soon' })).toThrow('until must be a date and time');
+    expect(() => parseAuditQuery({ success: 'maybe' })).toThrow('success must be true or false');
+    expect(() => parseAuditQuery({ format: 'csv' })).toThrow('format must be one of: summary, events');
+    expect(() => parseAuditQuery({ limit: 0 })).toThrow('limit must be a positive whole number');
+  });
+});
+
+describe('filterAuditEvents', () => {
+  it('should filter by event type, action, success and item', () => {
+    const query = (args: Record<string, unknown>) => filterAuditEvents(EVENTS, parseAuditQuery(args)).map(e => e.timestamp.slice(11, 13));
+    expect(query({ event_type: 'destructive_operation' })).toEqual(['10', '11']);
+    expect(query({ action: 'ulysses_read_sheet' })).toEqual(['12']);
+    expect(query({ success: false })).toEqual(['11', '12']);
+    expect(query({ item_id: 'sheet-1' })).toEqual(['09', '10']);
+  });
+
+  it('should filter by time range', () => {
+    const query = (args: Record<string, unknown>) => filterAuditEvents(EVENTS, parseAuditQuery(args)).map(e => e.timestamp.slice(11, 13));
+    expect(query({ since: '2026-10-19T10:00:00Z', until: '2026-10-19T11:00:00Z' })).toEqual(['10', '11']);
+  });
+});
+
+describe('summarizeAuditEvents', () => {
+  it('should count events and failures per action', () => {
+    expect(summarizeAuditEvents(EVENTS)).toEqual({
+      total: 4,
+      failures: 2,
+      first: '2026-10-19T09:00:00.000Z',
+      last: '2026-10-19T12:00:00.000Z',
+      actions: [
+        { action: 'trash', count: 2, failures: 1, failureRate: 0.5 },
+        { action: 'new-sheet', count: 1, failures: 0, failureRate: 0 },
+        { action: 'read-sheet', count: 1, failures: 1, failureRate: 1 }
+      ]
+    });
+  });
+});
+
+describe('Reading the audit log', () => {
+  let sandbox: string;
+  let logger: AuditLogger;
+
+  beforeEach(async () => {
+    sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+    logger = new AuditLogger(sandbox, { maxBytes: 1000 });
+    for (let i = 0; i < 10; i++) {
+      logger.logDestructiveOperation('trash', i % 2 === 0, { id: `sheet-${i}` });
+    }
+    await logger.flush();
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should read rotated files and the active log in order', async () => {
+    expect(rotatedLogs(logger.getLogPath()).length).toBeGreaterThan(0);
+    expect((await readAuditEvents(logger.getLogPath())).map(e => e.seq)).toEqual([...Array(11).keys()]);
+  });
+
+  it('should list only the most recent events but summarize all of them', async () => {
+    const listing = await runAuditQuery(logger.getLogPath(), parseAuditQuery({ action: 'trash', format: 'events', limit: 2 }));
+    expect(JSON.parse(listing.text).map((e: AuditEvent) => e.details?.id)).toEqual(['sheet-8', 'sheet-9']);
+    expect(listing).toMatchObject({ listed: 2, truncated: true });
+
+    const summary = await runAuditQuery(logger.getLogPath(), parseAuditQuery({ action: 'trash', limit: 2 }));
+    expect(summary.text).toMatch(/^10 events from/);
+    expect(summary).toMatchObject({ listed: 10, truncated: false });
+  });
+
+  it('should read files compressed or removed after they were listed', async () => {
+    for (let i = 10; i < 20; i++) {
+      logger.logDestructiveOperation('trash', true, { id: `sheet-${i}` });
+    }
+    await logger.flush();
+    const [, compressed, removed] = rotatedLogs(logger.getLogPath());
+    const plain = compressed.replace(/\.gz$/, '');
+    writeFileSync(plain, gunzipSync(readFileSync(compressed)));
+    rmSync(compressed);
+    const lost = new Set((await readAuditEvents(removed)).map(e => e.seq));
+    expect(lost.size).toBeGreaterThan(0);
+    const expected = (await readAuditEvents(logger.getLogPath())).filter(e => !lost.has(e.seq));
+
+    // The files are listed at once and each is opened once the one before it was read
+    const reading = readAuditEvents(logger.getLogPath());
+    writeFileSync(compressed, gzipSync(readFileSync(plain)));
+    rmSync(plain);
+    rmSync(removed);
+
+    expect((await reading).map(e => e.seq)).toEqual(expected.map(e => e.seq));
+  });
+
+  it('should leave older files unread once a listing has enough events', async () => {
+    const [oldest] = rotatedLogs(logger.getLogPath());
+    writeFileSync(oldest, 'not a log');
+    await expect(runAuditQuery(logger.getLogPath(), parseAuditQuery({ format: 'events' }))).rejects.toThrow();
+
+    const listing = await runAuditQuery(logger.getLogPath(), parseAuditQuery({ action: 'trash', format: 'events', limit: 2 }));
+    expect(JSON.parse(listing.text).map((e: AuditEvent) => e.details?.id)).toEqual(['sheet-8', 'sheet-9']);
+  });
+
+  it('should not report a listing that holds every match as cut short', async () => {
+    const listing = await runAuditQuery(logger.getLogPath(), parseAuditQuery({ action: 'trash', format: 'events', limit: 10 }));
+    expect(listing).toMatchObject({ listed: 10, truncated: false });
+  });
+
+  it('should print a summary table from the CLI', async () => {
+    const output: string[] = [];
+    expect(await runAuditCommand(['query', '--file', logger.getLogPath(), '--action', 'trash'], line => output.push(line))).toBe(0);
+    expect(output[0]).toMatch(/^10 events from .* 5 failed \(50%\)/);
+    expect(output[0]).toContain('| trash  | 10     | 5        | 50%          |');
+  });
+
+  it('should print raw events from the CLI', async () => {
+    const output: string[] = [];
+    await runAuditCommand(['query', '--file', logger.getLogPath(), '--item-id', 'sheet-3', '--format', 'events'], line => output.push(line));
+    expect(JSON.parse(output[0])).toEqual([expect.objectContaining({ action: 'trash', success: false, details: { id: 'sheet-3' } })]);
+  });
+
+  it('should reject unknown options', async () => {
+    const output: string[] = [];
+    expect(await runAuditCommand(['query', '--colour', 'red'], line => output.push(line))).toBe(2);
+    expect(output[0]).toBe('Unknown or incomplete option: --colour');
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Audit Log Queries
+ *
+ * Reads the audit log and its rotated files, filters events and summarizes
+ * them per action. Shared by the ulysses_audit_query tool and the
+ * `ulysses-mcp audit query` command, which take the same arguments.
+ * Files are streamed line by line so a query never blocks other requests,
+ * and a limited listing stops once it has read enough recent events.
+ */
+
+import { existsSync } from 'fs';
+import { FileHandle, open } from 'fs/promises';
+import { Readable, pipeline } from 'stream';
+import { createGunzip } from 'zlib';
+import { AuditEvent, AuditEventType } from './audit-logger.js';
+import { hashItemId } from './audit-redaction.js';
+import { rotatedLogs } from './audit-rotation.js';
+
+export type AuditQueryFormat = 'summary' | 'events';
+
+export interface AuditQuery {
+  eventType?: AuditEventType;
+  action?: string;
+  /** Earliest and latest event time, inclusive */
+  since?: Date;
+  until?: Date;
+  success?: boolean;
+  /** An item the call changed, created or referred to */
+  itemId?: string;
+  format: AuditQueryFormat;
+  /** List only the most recent events (all when omitted); summaries count every match */
+  limit?: number;
+}
+
+export interface ActionSummary {
+  action: string;
+  count: number;
+  failures: number;
+  /** Share of failed events, 0 to 1 */
+  failureRate: number;
+}
+
+export interface AuditQueryResult {
+  text: string;
+  /** Events in the text; for a summary, every event that matches */
+  listed: number;
+  /** Older matching events were left out of a listing because of the limit */
+  truncated: boolean;
+}
+
+export interface AuditSummary {
+  total: number;
+  failures: number;
+  first?: string;
+  last?: string;
+  actions: ActionSummary[];
+}
+
+const EVENT_TYPES = Object.values(AuditEventType) as string[];
+
+// Arguments and detail fields that name a library item
+const ITEM_FIELDS = ['id', 'group', 'sheet', 'targetGroup', 'parent', 'target_id'];
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${name} must be a date and time, e.g. 2026-10-19T09:00:00Z`);
+  }
+  return date;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * Validate query arguments (event_type, action, since, until, success,
+ * item_id, format, limit); the CLI passes them as strings
+ */
+export function parseAuditQuery(args: Record<string, unknown>): AuditQuery {
+  const eventType = optionalString(args.event_type);
+  if (eventType !== undefined && !EVENT_TYPES.includes(eventType)) {
+    throw new Error(`event_type must be one of: ${EVENT_TYPES.join(', ')}`);
+  }
+
+  let success: boolean | undefined;
+  if (args.success !== undefined && args.success !== null && args.success !== '') {
+    if (![true, false, 'true', 'false'].includes(args.success as boolean | string)) {
+      throw new Error('success must be true or false');
+    }
+    success = args.success === true || args.success === 'true';
+  }
+
+  const format = optionalString(args.format) ?? 'summary';
+  if (format !== 'summary' && format !== 'events') {
+    throw new Error('format must be one of: summary, events');
+  }
+
+  let limit: number | undefined;
+  if (args.limit !== undefined && args.limit !== null && args.limit !== '') {
+    limit = Number(args.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('limit must be a positive whole number');
+    }
+  }
+
+  return {
+    eventType: eventType as AuditEventType | undefined,
+    action: optionalString(args.action),
+    since: parseDate(args.since, 'since'),
+    until: parseDate(args.until, 'until'),
+    success,
+    itemId: optionalString(args.item_id),
+    format,
+    limit
+  };
+}
+
+/**
+ * The rotated files and the active log, oldest first
+ */
+function auditLogFiles(logPath: string): string[] {
+  return [...rotatedLogs(logPath), ...(existsSync(logPath) ? [logPath] : [])];
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Open a listed log file. Since the listing, a rotated file may have been
+ * compressed, so its .gz copy is read instead, or removed by retention, which
+ * gives null.
+ */
+async function openLogFile(file: string): Promise<{ handle: FileHandle; path: string } | null> {
+  for (const path of file.endsWith('.gz') ? [file] : [file, `${file}.gz`]) {
+    try {
+      return { handle: await open(path, 'r'), path };
+    } catch (error) {
+      if (!isMissing(error)) {
+        throw error;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The events in one log file, read line by line and decompressed when the
+ * file was rotated with compression. Lines that are not JSON are skipped;
+ * `ulysses-mcp audit verify` reports them.
+ */
+async function* readLogEvents(file: string): AsyncGenerator<AuditEvent> {
+  const opened = await openLogFile(file);
+  if (!opened) {
+    return;
+  }
+  const input = opened.handle.createReadStream();
+  const source: Readable = opened.path.endsWith('.gz') ? pipeline(input, createGunzip(), () => undefined) : input;
+  source.setEncoding('utf8');
+
+  const parse = (line: string): AuditEvent | undefined => {
+    if (line.trim() === '') {
+      return undefined;
+    }
+    try {
+      return JSON.parse(line);
+    } catch {
+      return undefined;
+    }
+  };
+
+  try {
+    let rest = '';
+    for await (const chunk of source) {
+      const lines = (rest + chunk).split('\n');
+      rest = lines.pop() ?? '';
+      for (const line of lines) {
+        const event = parse(line);
+        if (event) {
+          yield event;
+        }
+      }
+    }
+    const last = parse(rest);
+    if (last) {
+      yield last;
+    }
+  } finally {
+    source.destroy();
+    input.destroy();
+  }
+}
+
+/**
+ * Every event in the rotated files and the active log, oldest first
+ */
+export async function readAuditEvents(logPath: string): Promise<AuditEvent[]> {
+  const events: AuditEvent[] = [];
+  for (const file of auditLogFiles(logPath)) {
+    for await (const event of readLogEvents(file)) {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+// Privacy mode logs a hash of the identifier keyed with the installation's secret instead
+function refersTo(event: AuditEvent, itemId: string, privacyKey?: Buffer): boolean {
+  const ids = privacyKey ? [itemId, hashItemId(itemId, privacyKey)] : [itemId];
+  return ITEM_FIELDS.some(field => ids.includes(event.details?.[field]));
+}
+
+/**
+ * Whether an event matches a query's filters; privacyKey finds items in
+ * events logged in privacy mode
+ */
+export function matchesAuditQuery(event: AuditEvent, query: AuditQuery, privacyKey?: Buffer): boolean {
+  const time = Date.parse(event.timestamp);
+  return (query.eventType === undefined || event.event_type === query.eventType) &&
+    (query.action === undefined || event.action === query.action || event.tool === query.action) &&
+    (query.since === undefined || time >= query.since.getTime()) &&
+    (query.until === undefined || time <= query.until.getTime()) &&
+    (query.success === undefined || event.success === query.success) &&
+    (query.itemId === undefined || refersTo(event, query.itemId, privacyKey));
+}
+
+/**
+ * The events matching a query, oldest first
+ */
+export function filterAuditEvents(events: AuditEvent[], query: AuditQuery, privacyKey?: Buffer): AuditEvent[] {
+  return events.filter(event => matchesAuditQuery(event, query, privacyKey));
+}
+
+/**
+ * Counts and failure rates per action, most frequent first
+ */
+export function summarizeAuditEvents(events: AuditEvent[]): AuditSummary {
+  const actions = new Map<string, ActionSummary>();
+  for (const event of events) {
+    const action = event.action ?? event.event_type;
+    const summary = actions.get(action) ?? { action, count: 0, failures: 0, failureRate: 0 };
+    summary.count++;
+    if (!event.success) {
+      summary.failures++;
+    }
+    summary.failureRate = summary.failures / summary.count;
+    actions.set(action, summary);
+  }
+  return {
+    total: events.length,
+    failures: events.filter(event => !event.success).length,
+    first: events[0]?.timestamp,
+    last: events[events.length - 1]?.timestamp,
+    actions: [...actions.values()].sort((a, b) => b.count - a.count || a.action.localeCompare(b.action))
+  };
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+/**
+ * A summary as a Markdown table, readable in a terminal and by the assistant
+ */
+export function formatAuditSummary(summary: AuditSummary): string {
+  if (summary.total === 0) {
+    return 'No audit events match.';
+  }
+  const rows = [
+    ['Action', 'Events', 'Failures', 'Failure rate'],
+    ...summary.actions.map(action => [action.action, String(action.count), String(action.failures), percent(action.failureRate)])
+  ];
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  const format = (row: string[]) => `| ${row.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+
+  return [
+    `${summary.total} events from ${summary.first} to ${summary.last}, ${summary.failures} failed (${percent(summary.failures / summary.total)})`,
+    '',
+    format(rows[0]),
+    format(widths.map(width => '-'.repeat(width))),
+    ...rows.slice(1).map(format)
+  ].join('\n');
+}
+
+/**
+ * The most recent matching events, oldest first, and one more when older
+ * events match too. Files are read newest first and older files are left
+ * unread once enough events were found.
+ */
+async function recentAuditEvents(
+  logPath: string,
+  query: AuditQuery,
+  limit: number,
+  privacyKey?: Buffer
+): Promise<AuditEvent[]> {
+  let recent: AuditEvent[] = [];
+  for (const file of auditLogFiles(logPath).reverse()) {
+    const matches: AuditEvent[] = [];
+    for await (const event of readLogEvents(file)) {
+      if (matchesAuditQuery(event, query, privacyKey)) {
+        matches.push(event);
+        if (matches.length > limit + 1) {
+          matches.shift();
+        }
+      }
+    }
+    recent = [...matches, ...recent].slice(-(limit + 1));
+    if (recent.length > limit) {
+      break;
+    }
+  }
+  return recent;
+}
+
+/**
+ * Run a query against a log and format the result as text; the limit only
+ * applies to a listing of events
+ */
+export async function runAuditQuery(logPath: string, query: AuditQuery, privacyKey?: Buffer): Promise<AuditQueryResult> {
+  if (query.format === 'events' && query.limit !== undefined) {
+    const recent = await recentAuditEvents(logPath, query, query.limit, privacyKey);
+    const listed = recent.slice(-query.limit);
+    return { text: JSON.stringify(listed, null, 2), listed: listed.length, truncated: recent.length > listed.length };
+  }
+
+  const events: AuditEvent[] = [];
+  for (const file of auditLogFiles(logPath)) {
+    for await (const event of readLogEvents(file)) {
+      if (matchesAuditQuery(event, query, privacyKey)) {
+        events.push(event);
+      }
+    }
+  }
+  const text = query.format === 'summary' ? formatAuditSummary(summarizeAuditEvents(events)) : JSON.stringify(events, null, 2);
+  return { text, listed: events.length, truncated: false };
+}
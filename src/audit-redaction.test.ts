@@ -0,0 +1,155 @@
+/**
+ * Tests for audit log redaction and privacy mode
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createHash, randomBytes } from 'crypto';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { verifyAuditLog } from './audit-chain.js';
+import { AuditLogger } from './audit-logger.js';
+import { filterAuditEvents, parseAuditQuery, readAuditEvents } from './audit-query.js';
+import { Redactor, hashItemId } from './audit-redaction.js';
+
+const TOKEN = 'a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8';
+const KEY = randomBytes(32);
+
+describe('Redactor', () => {
+  const redactor = new Redactor();
+
+  it('should redact sensitive keys at any depth', () => {
+    expect(redactor.redactDetails({
+      access_token: 'abc',
+      options: { headers: { Authorization: 'Basic xyz', 'x-api-key': 'k' } },
+      items: [{ password: 'p', id: 'sheet-1' }]
+    })).toEqual({
+      access_token: '<redacted>',
+      options: { headers: { Authorization: '<redacted>', 'x-api-key': '<redacted>' } },
+      items: [{ password: '<redacted>', id: 'sheet-1' }]
+    });
+  });
+
+  it('should redact token-like values and emails wherever they appear', () => {
+    expect(redactor.redactDetails({
+      url: 'ulysses://x-callback-url/trash?id=abc&access-token=secret123',
+      header: `Bearer ${TOKEN}`,
+      list: ['reach me at jane.doe@example.com', TOKEN]
+    })).toEqual({
+      url: 'ulysses://x-callback-url/trash?id=abc&access-token=<redacted>',
+      header: 'Bearer <redacted>',
+      list: ['reach me at <email>', '<redacted>']
+    });
+  });
+
+  it('should keep Ulysses identifiers, hashes and long names', () => {
+    const details = {
+      id: 'hZ7IX2jqKbVmPGlYUXkZjQ',
+      sha: createHash('sha256').update('x').digest('hex'),
+      uuid: '0b6f1f5e-8c1a-4d6e-9b43-3f1f7a2c9d10',
+      name: 'quarterly_report_draft_version_final'
+    };
+    expect(redactor.redactDetails(details)).toEqual(details);
+  });
+
+  it('should redact error messages without truncating them', () => {
+    const error = `Request failed for ulysses://x-callback-url/read-sheet?access-token=${TOKEN} ${'not found '.repeat(20)}`;
+    const redacted = redactor.redactError(error);
+    expect(redacted).not.toContain(TOKEN);
+    expect(redacted).toMatch(/access-token=<redacted> (not found ){20}$/);
+  });
+
+  it('should truncate long strings and summarize images', () => {
+    const details = redactor.redactDetails({ text: 'word '.repeat(50), image: 'iVBORw0KGgo=' });
+    expect(details.text).toMatch(/^(word ){20}\.\.\.\[truncated\]$/);
+    expect(details.image).toBe('<base64 data, length: 12>');
+  });
+
+  it('should survive circular and deeply nested structures', () => {
+    const circular: Record<string, unknown> = { id: 'sheet-1' };
+    circular.self = circular;
+    const shared = { id: 'sheet-2' };
+    let deep: Record<string, unknown> = { id: 'bottom' };
+    for (let i = 0; i < 10; i++) {
+      deep = { child: deep };
+    }
+
+    expect(redactor.redactDetails({ circular, first: shared, second: shared })).toEqual({
+      circular: { id: 'sheet-1', self: '<circular>' },
+      first: { id: 'sheet-2' },
+      second: { id: 'sheet-2' }
+    });
+    expect(JSON.stringify(redactor.redactDetails(deep))).toContain('<nested too deeply>');
+  });
+
+  it('should apply custom key and value patterns', () => {
+    const custom = new Redactor({ redactKeys: ['^client_ref$'], redactValues: ['ACME-\\d+'] });
+    expect(custom.redactDetails({ client_ref: 'r1', clientRefs: 'r2', text: 'Invoice ACME-4411 sent' })).toEqual({
+      client_ref: '<redacted>',
+      clientRefs: 'r2',
+      text: 'Invoice <redacted> sent'
+    });
+  });
+
+  it('should hash item identifiers and drop content in privacy mode', () => {
+    const privacy = new Redactor({ privacy: true, privacyKey: KEY });
+    expect(privacy.redactDetails({
+      id: 'sheet-1',
+      targetGroup: 'group-1',
+      text: '# Secret plans',
+      title: 'Plans',
+      keywords: 'draft',
+      access_token: 'abc',
+      position: 2
+    })).toEqual({
+      id: hashItemId('sheet-1', KEY),
+      targetGroup: hashItemId('group-1', KEY),
+      access_token: '<redacted>',
+      position: 2
+    });
+    expect(privacy.redactError('Sheet "Plans" not found')).toBeUndefined();
+    expect(hashItemId('sheet-1', KEY)).toMatch(/^id:[0-9a-f]{16}$/);
+  });
+
+  it('should key identifier hashes with the installation secret', () => {
+    expect(hashItemId('sheet-1', KEY)).not.toBe(hashItemId('sheet-1', randomBytes(32)));
+    expect(hashItemId('sheet-1', KEY)).not.toBe(`id:${createHash('sha256').update('sheet-1').digest('hex').slice(0, 16)}`);
+    expect(() => new Redactor({ privacy: true })).toThrow('key');
+  });
+});
+
+describe('AuditLogger redaction', () => {
+  let sandbox: string;
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should redact details and errors before they are chained', async () => {
+    const logger = new AuditLogger(sandbox);
+    logger.logFailure('read-sheet', `Failed: access-token=${TOKEN}`, { id: 'sheet-1', nested: { token: 'abc' } });
+
+    const [, event] = await readAuditEvents(logger.getLogPath());
+    expect(event).toMatchObject({
+      details: { id: 'sheet-1', nested: { token: '<redacted>' } },
+      error: 'Failed: access-token=<redacted>'
+    });
+    expect(verifyAuditLog(logger.getLogPath()).valid).toBe(true);
+  });
+
+  it('should still find items by their identifier in privacy mode', async () => {
+    const logger = new AuditLogger(sandbox, { privacy: true, privacyKey: KEY });
+    logger.logDestructiveOperation('trash', false, { id: 'sheet-1' }, 'Sheet "Plans" not found');
+    logger.logSuccess('new-sheet', { text: '# Plans', target_id: 'sheet-2' });
+
+    const events = await readAuditEvents(logger.getLogPath());
+    expect(events[1]).not.toHaveProperty('error');
+    expect(events[2].details).toEqual({ target_id: hashItemId('sheet-2', KEY) });
+    expect(filterAuditEvents(events, parseAuditQuery({ item_id: 'sheet-1' }), KEY)).toEqual([events[1]]);
+    expect(filterAuditEvents(events, parseAuditQuery({ item_id: 'sheet-1' }))).toEqual([]);
+  });
+});
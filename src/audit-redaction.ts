@@ -0,0 +1,155 @@
+/**
+ * Audit Log Redaction
+ *
+ * Sanitizes event details before they are written, at any depth of nested
+ * objects and arrays, and error messages:
+ * - values under keys matching a sensitive pattern (token, password, ...) are redacted
+ * - strings are scanned for values that look sensitive (tokens, emails) wherever they appear
+ * - long strings are truncated and image data is replaced by its length
+ *
+ * Privacy mode also replaces item identifiers with a short hash, keyed with a
+ * per-installation secret so that it cannot be matched against a guessed
+ * identifier, and drops library content (text, titles, names, keywords, notes, images) and error
+ * messages, which can quote titles.
+ */
+
+import { createHmac } from 'crypto';
+
+export interface ValueDetector {
+  name: string;
+  /** Matches are replaced by <name>; a pattern with a capture group keeps the group */
+  pattern: RegExp;
+}
+
+export interface RedactionOptions {
+  /** Extra key patterns whose values are redacted, matched case-insensitively */
+  redactKeys?: string[];
+  /** Extra value patterns redacted wherever they appear in a string */
+  redactValues?: string[];
+  /** Hash item identifiers and drop library content */
+  privacy?: boolean;
+  /** Secret item identifier hashes are keyed with; required in privacy mode */
+  privacyKey?: Buffer;
+}
+
+export const REDACTED = '<redacted>';
+
+// Strings longer than this are truncated
+const MAX_STRING_LENGTH = 100;
+// Deeper structures are replaced rather than walked
+const MAX_DEPTH = 8;
+
+const SENSITIVE_KEYS = [/token/i, /password/i, /secret/i, /api[-_]?key/i, /authori[sz]ation/i, /cookie/i, /credential/i];
+
+const DETECTORS: ValueDetector[] = [
+  // Access tokens in x-callback-urls and query strings
+  { name: 'redacted', pattern: /(access[-_]token=)[^&\s"']+/gi },
+  { name: 'redacted', pattern: /(bearer\s+)[A-Za-z0-9._~+/=-]+/gi },
+  { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  // Keys and tokens: long runs mixing upper and lower case letters and digits,
+  // unlike hex hashes, UUIDs and names; Ulysses identifiers are 22 characters
+  { name: 'redacted', pattern: /\b(?=[\w-]*[a-z])(?=[\w-]*[A-Z])(?=[\w-]*\d)[A-Za-z0-9_-]{32,}\b/g }
+];
+
+// Arguments and details that hold item identifiers
+const ID_KEYS = new Set(['id', 'group', 'sheet', 'targetGroup', 'parent', 'target_id', 'item_id', 'identifier']);
+
+// Arguments and details that hold library content
+const CONTENT_KEYS = new Set(['text', 'note', 'notes', 'title', 'name', 'keywords', 'image']);
+
+/**
+ * The hash that stands for an item identifier in privacy mode
+ */
+export function hashItemId(id: string, key: Buffer): string {
+  return `id:${createHmac('sha256', key).update(id).digest('hex').slice(0, 16)}`;
+}
+
+export class Redactor {
+  private keyPatterns: RegExp[];
+  private detectors: ValueDetector[];
+  private privacy: boolean;
+  private privacyKey?: Buffer;
+
+  constructor(options: RedactionOptions = {}) {
+    this.keyPatterns = [...SENSITIVE_KEYS, ...(options.redactKeys ?? []).map(pattern => new RegExp(pattern, 'i'))];
+    this.detectors = [
+      ...DETECTORS,
+      ...(options.redactValues ?? []).map(pattern => ({ name: 'redacted', pattern: new RegExp(pattern, 'g') }))
+    ];
+    this.privacy = options.privacy ?? false;
+    if (this.privacy && !options.privacyKey) {
+      throw new Error('Privacy mode needs a key to hash item identifiers with');
+    }
+    this.privacyKey = this.privacy ? options.privacyKey : undefined;
+  }
+
+  /**
+   * Sanitized copy of event details
+   */
+  redactDetails(details?: Record<string, any>): Record<string, any> {
+    return details ? (this.redactValue(details, 0, new WeakSet()) as Record<string, any>) : {};
+  }
+
+  /**
+   * Sanitized error message, kept in full; dropped in privacy mode
+   */
+  redactError(error?: string): string | undefined {
+    if (error === undefined || this.privacy) {
+      return undefined;
+    }
+    return this.redactString(error, false);
+  }
+
+  private redactValue(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '<circular>';
+    }
+    if (depth >= MAX_DEPTH) {
+      return '<nested too deeply>';
+    }
+    // Only objects on the current path count as circular
+    seen.add(value);
+    try {
+      return Array.isArray(value)
+        ? value.map(item => this.redactValue(item, depth + 1, seen))
+        : this.redactObject(value as Record<string, unknown>, depth, seen);
+    } finally {
+      seen.delete(value);
+    }
+  }
+
+  private redactObject(value: Record<string, unknown>, depth: number, seen: WeakSet<object>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (this.keyPatterns.some(pattern => pattern.test(key))) {
+        result[key] = REDACTED;
+      } else if (this.privacy && CONTENT_KEYS.has(key)) {
+        continue;
+      } else if (this.privacyKey && ID_KEYS.has(key) && typeof entry === 'string') {
+        result[key] = hashItemId(entry, this.privacyKey);
+      } else if (key === 'image' && typeof entry === 'string') {
+        result[key] = `<base64 data, length: ${entry.length}>`;
+      } else {
+        result[key] = this.redactValue(entry, depth + 1, seen);
+      }
+    }
+    return result;
+  }
+
+  private redactString(value: string, truncate = true): string {
+    let redacted = value;
+    for (const { name, pattern } of this.detectors) {
+      redacted = redacted.replace(pattern, (_match, ...groups) =>
+        typeof groups[0] === 'string' ? `${groups[0]}<${name}>` : `<${name}>`);
+    }
+    return truncate && redacted.length > MAX_STRING_LENGTH
+      ? redacted.substring(0, MAX_STRING_LENGTH) + '...[truncated]'
+      : redacted;
+  }
+}
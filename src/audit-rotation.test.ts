@@ -0,0 +1,157 @@
+/**
+ * Tests for audit log rotation, retention and locking
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { existsSync, mkdtempSync, readdirSync, rmSync, statSync, utimesSync, writeFileSync, renameSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { chainHeadPath, readChainHead, verifyAuditLog } from './audit-chain.js';
+import { AuditLogger } from './audit-logger.js';
+import { readLogFile, rotatedLogs, withLogLock } from './audit-rotation.js';
+
+let sandbox: string;
+
+function logEvents(logger: AuditLogger, count: number): void {
+  for (let i = 0; i < count; i++) {
+    logger.logSuccess('get-item', { id: `item-${i}` });
+  }
+}
+
+beforeEach(() => {
+  sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+});
+
+afterEach(() => {
+  rmSync(sandbox, { recursive: true, force: true });
+});
+
+describe('Audit log rotation', () => {
+  it('should rotate by size into owner-only gzip files that continue the chain', async () => {
+    const logger = new AuditLogger(sandbox, { maxBytes: 1000 });
+    logEvents(logger, 20);
+    await logger.flush();
+
+    const rotated = rotatedLogs(logger.getLogPath());
+    expect(rotated.length).toBeGreaterThan(1);
+    expect(rotated.every(file => /audit-\d{12}\.jsonl\.gz$/.test(file))).toBe(true);
+    expect(rotated.every(file => (statSync(file).mode & 0o777) === 0o600)).toBe(true);
+    expect(readLogFile(rotated[0])).toContain('"seq":0');
+    expect(verifyAuditLog(logger.getLogPath())).toEqual({ valid: true, entries: 21 });
+  });
+
+  it('should rotate by the age of the first entry', async () => {
+    const logger = new AuditLogger(sandbox, { maxAgeMs: 50 });
+    await new Promise(resolve => setTimeout(resolve, 100));
+    logger.logSuccess('get-version');
+    await logger.flush();
+
+    expect(rotatedLogs(logger.getLogPath())).toHaveLength(1);
+    expect(existsSync(logger.getLogPath())).toBe(false);
+    expect(verifyAuditLog(logger.getLogPath())).toEqual({ valid: true, entries: 2 });
+  });
+
+  it('should keep only the configured number of rotated files and record where the chain starts', async () => {
+    const logger = new AuditLogger(sandbox, { maxBytes: 500, retain: 2 });
+    logEvents(logger, 30);
+    await logger.flush();
+
+    expect(rotatedLogs(logger.getLogPath())).toHaveLength(2);
+    expect(readChainHead(chainHeadPath(logger.getLogPath()))?.start?.seq).toBeGreaterThan(0);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: true });
+  });
+
+  it('should stay within the maximum total size, counting compressed files', async () => {
+    const logger = new AuditLogger(sandbox, { maxBytes: 500, maxTotalBytes: 1200 });
+    logEvents(logger, 40);
+    await logger.flush();
+
+    const files = [...rotatedLogs(logger.getLogPath()), logger.getLogPath()].filter(existsSync);
+    expect(files.reduce((total, file) => total + statSync(file).size, 0)).toBeLessThanOrEqual(1200 + 500);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: true });
+  });
+
+  it('should detect a rotated file deleted outside retention', async () => {
+    const logger = new AuditLogger(sandbox, { maxBytes: 1000 });
+    logEvents(logger, 20);
+    await logger.flush();
+
+    rmSync(rotatedLogs(logger.getLogPath())[0]);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({
+      valid: false,
+      line: 1,
+      reason: expect.stringContaining('expected 0: entries are missing')
+    });
+  });
+
+  it('should compress a rotated file left uncompressed by an interrupted rotation', async () => {
+    const interrupted = new AuditLogger(sandbox);
+    logEvents(interrupted, 5);
+    renameSync(interrupted.getLogPath(), join(sandbox, 'audit-000000000000.jsonl'));
+
+    const logger = new AuditLogger(sandbox, { maxBytes: 1000 });
+    logEvents(logger, 20);
+    await logger.flush();
+
+    expect(readdirSync(sandbox).filter(name => name.endsWith('.jsonl') && name !== 'audit.jsonl')).toEqual([]);
+    expect(verifyAuditLog(logger.getLogPath())).toMatchObject({ valid: true });
+  });
+});
+
+describe('withLogLock', () => {
+  it('should let loggers sharing a directory extend one chain', () => {
+    const first = new AuditLogger(sandbox, { maxBytes: 800 });
+    const second = new AuditLogger(sandbox, { maxBytes: 800 });
+    for (let i = 0; i < 10; i++) {
+      first.logSuccess('get-item');
+      second.logFailure('read-sheet', 'not found');
+    }
+    expect(verifyAuditLog(first.getLogPath())).toEqual({ valid: true, entries: 22 });
+    expect(existsSync(join(sandbox, 'audit.lock'))).toBe(false);
+  });
+
+  it('should take over a lock left behind by a process that died', async () => {
+    const lockPath = join(sandbox, 'audit.lock');
+    writeFileSync(lockPath, '');
+    const past = new Date(Date.now() - 60000);
+    utimesSync(lockPath, past, past);
+
+    await expect(withLogLock(join(sandbox, 'audit.jsonl'), () => 'ran')).resolves.toBe('ran');
+    expect(readdirSync(sandbox)).toEqual([]);
+  });
+
+  it('should wait for a lock held by a live process without blocking', async () => {
+    const lockPath = join(sandbox, 'audit.lock');
+    writeFileSync(lockPath, '');
+    let ran = false;
+    const locked = withLogLock(join(sandbox, 'audit.jsonl'), () => {
+      ran = true;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(ran).toBe(false);
+    rmSync(lockPath);
+    await locked;
+    expect(ran).toBe(true);
+  });
+
+  it('should give up on a lock held by a live process', async () => {
+    writeFileSync(join(sandbox, 'audit.lock'), '');
+    await expect(withLogLock(join(sandbox, 'audit.jsonl'), () => 'ran')).rejects.toThrow('locked by another process');
+  }, 10000);
+
+  it('should write events logged while the lock is held in order once it is free', async () => {
+    const logger = new AuditLogger(sandbox);
+    const lockPath = join(sandbox, 'audit.lock');
+    writeFileSync(lockPath, '');
+    logger.logSuccess('get-item');
+    logger.logSuccess('read-sheet');
+    expect(readLogFile(logger.getLogPath()).trim().split('\n')).toHaveLength(1);
+
+    rmSync(lockPath);
+    await logger.flush();
+    const actions = readLogFile(logger.getLogPath()).trim().split('\n').map(line => JSON.parse(line).action);
+    expect(actions).toEqual([undefined, 'get-item', 'read-sheet']);
+    expect(verifyAuditLog(logger.getLogPath())).toEqual({ valid: true, entries: 3 });
+  });
+});
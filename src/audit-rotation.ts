@@ -0,0 +1,341 @@
+/**
+ * Audit Log Rotation
+ *
+ * The active log (audit.jsonl) is rotated once it reaches a size or age limit:
+ * it is renamed after the sequence number of its first entry and gzipped, e.g.
+ * audit-000000000041.jsonl.gz. Only the newest rotated files are kept,
+ * optionally within a total disk footprint.
+ *
+ * Appends and rotation run under a lock file, so several server processes can
+ * share the log directory without interleaving the chain or rotating twice.
+ * Waiting for the lock never blocks the event loop. Rotated files are
+ * compressed and retention applied in the background; only the renames and
+ * deletions take the lock.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  linkSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  statSync
+} from 'fs';
+import { readFile, rm, writeFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { promisify } from 'util';
+import { gunzipSync, gzip } from 'zlib';
+import { ChainHead, chainHeadPath, readChainHead, writeChainHead } from './audit-chain.js';
+
+const gzipAsync = promisify(gzip);
+
+export interface RotationOptions {
+  /** Rotate once the active log reaches this many bytes (default 10 MiB) */
+  maxBytes?: number;
+  /** Rotate once the first entry of the active log is this old; 0 never rotates by age (default 7 days) */
+  maxAgeMs?: number;
+  /** Number of rotated files to keep (default 10) */
+  retain?: number;
+  /** Bytes the active log and rotated files may take together; the oldest rotated files go first */
+  maxTotalBytes?: number;
+}
+
+export const DEFAULT_ROTATION: Required<Omit<RotationOptions, 'maxTotalBytes'>> = {
+  maxBytes: 10 * 1024 * 1024,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  retain: 10
+};
+
+// How long to wait for another process to release the lock
+const LOCK_TIMEOUT_MS = 5000;
+// A lock older than this was left behind by a process that died holding it
+const LOCK_STALE_MS = 30000;
+const LOCK_RETRY_MS = 10;
+
+// Width of the sequence number in rotated file names, so they sort in order
+const SEQ_DIGITS = 12;
+
+function logBase(logPath: string): string {
+  return basename(logPath).replace(/\.jsonl$/, '');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    return Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Released while we looked
+    return false;
+  }
+}
+
+// Distinguishes the files this process moves aside or writes temporarily
+let tempCounter = 0;
+
+function tempPath(filePath: string, purpose: string): string {
+  return `${filePath}.${purpose}-${process.pid}-${tempCounter++}`;
+}
+
+/**
+ * Create the lock file; false if another process holds it
+ */
+function tryLock(lockPath: string): boolean {
+  try {
+    closeSync(openSync(lockPath, 'wx', 0o600));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/**
+ * Remove a stale lock. Two processes can both find the lock stale, and the
+ * second must not remove the lock the first has taken since, so the lock is
+ * moved aside, checked again and put back if it turned out to be fresh.
+ */
+function removeStaleLock(lockPath: string): void {
+  const moved = tempPath(lockPath, 'stale');
+  try {
+    renameSync(lockPath, moved);
+  } catch {
+    // Another process moved it first
+    return;
+  }
+  if (!isStale(moved)) {
+    try {
+      linkSync(moved, lockPath);
+    } catch {
+      // A new lock was created meanwhile, which the holder of this one lost
+    }
+  }
+  rmSync(moved, { force: true });
+}
+
+/**
+ * Run fn while holding the log's lock file (audit.lock for audit.jsonl).
+ * When the lock is free, fn runs before this returns; otherwise the lock is
+ * retried with timers, for up to 5 seconds.
+ */
+export async function withLogLock<T>(logPath: string, fn: () => T): Promise<T> {
+  const lockPath = join(dirname(logPath), `${logBase(logPath)}.lock`);
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  while (!tryLock(lockPath)) {
+    if (isStale(lockPath)) {
+      removeStaleLock(lockPath);
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Audit log is locked by another process: ${lockPath}`);
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    rmSync(lockPath, { force: true });
+  }
+}
+
+/**
+ * Rotated files of a log, oldest first; a file that is not compressed yet is
+ * listed uncompressed, even while its compressed copy is being put in place
+ */
+export function rotatedLogs(logPath: string): string[] {
+  const directory = dirname(logPath);
+  const pattern = new RegExp(`^${logBase(logPath)}-\\d{${SEQ_DIGITS}}\\.jsonl(\\.gz)?$`);
+  if (!existsSync(directory)) {
+    return [];
+  }
+  const names = readdirSync(directory).filter(name => pattern.test(name));
+  const plain = new Set(names.filter(name => name.endsWith('.jsonl')));
+  return names
+    .filter(name => !(name.endsWith('.gz') && plain.has(name.replace(/\.gz$/, ''))))
+    .sort()
+    .map(name => join(directory, name));
+}
+
+/**
+ * The text of a log file, decompressing rotated files
+ */
+export function readLogFile(filePath: string): string {
+  const data = readFileSync(filePath);
+  return filePath.endsWith('.gz') ? gunzipSync(data).toString('utf8') : data.toString('utf8');
+}
+
+/**
+ * The first entry of a log file, or null if it is empty or unreadable
+ */
+function firstEntry(filePath: string): { seq: number; timestamp: string; prev_hash: string } | null {
+  let text: string;
+  if (filePath.endsWith('.gz')) {
+    text = readLogFile(filePath);
+  } else {
+    // Read only up to the first line break of the active log
+    const fd = openSync(filePath, 'r');
+    try {
+      const chunk = Buffer.alloc(4096);
+      const parts: Buffer[] = [];
+      let bytes: number;
+      while ((bytes = readSync(fd, chunk, 0, chunk.length, null)) > 0) {
+        parts.push(Buffer.from(chunk.subarray(0, bytes)));
+        if (chunk.subarray(0, bytes).includes(0x0a)) {
+          break;
+        }
+      }
+      text = Buffer.concat(parts).toString('utf8');
+    } finally {
+      closeSync(fd);
+    }
+  }
+  try {
+    return JSON.parse(text.split('\n')[0]);
+  } catch {
+    return null;
+  }
+}
+
+export class LogRotator {
+  private options: Required<Omit<RotationOptions, 'maxTotalBytes'>> & Pick<RotationOptions, 'maxTotalBytes'>;
+  private headPath: string;
+  // Compression and retention running in the background, if any
+  private compressing: Promise<void> | null = null;
+  private compressAgain = false;
+
+  constructor(private logPath: string, options: RotationOptions = {}) {
+    this.options = {
+      maxBytes: options.maxBytes ?? DEFAULT_ROTATION.maxBytes,
+      maxAgeMs: options.maxAgeMs ?? DEFAULT_ROTATION.maxAgeMs,
+      retain: options.retain ?? DEFAULT_ROTATION.retain,
+      maxTotalBytes: options.maxTotalBytes
+    };
+    this.headPath = chainHeadPath(logPath);
+  }
+
+  /**
+   * Rotate the active log if it is too large or too old. Call while holding
+   * the log lock. The rotated file is compressed and retention applied in the
+   * background, since retention has to count compressed sizes.
+   */
+  rotateIfNeeded(head: ChainHead, now = Date.now()): void {
+    if (!existsSync(this.logPath)) {
+      return;
+    }
+    const first = firstEntry(this.logPath);
+    const { size } = statSync(this.logPath);
+    const tooLarge = size >= this.options.maxBytes;
+    const tooOld = this.options.maxAgeMs > 0 && first !== null && now - Date.parse(first.timestamp) >= this.options.maxAgeMs;
+    if (size === 0 || (!tooLarge && !tooOld)) {
+      return;
+    }
+
+    const rotatedPath = join(
+      dirname(this.logPath),
+      `${logBase(this.logPath)}-${String(first?.seq ?? head.seq).padStart(SEQ_DIGITS, '0')}.jsonl`
+    );
+    renameSync(this.logPath, rotatedPath);
+    this.compressInBackground();
+  }
+
+  /**
+   * Wait for background compression and retention to finish
+   */
+  async idle(): Promise<void> {
+    while (this.compressing) {
+      await this.compressing;
+    }
+  }
+
+  private compressInBackground(): void {
+    if (this.compressing) {
+      this.compressAgain = true;
+      return;
+    }
+    this.compressing = this.compressRotated()
+      .then(() => withLogLock(this.logPath, () => this.applyRetention()))
+      .catch(error => console.error('Audit log compression failed:', error))
+      .finally(() => {
+        this.compressing = null;
+        if (this.compressAgain) {
+          this.compressAgain = false;
+          this.compressInBackground();
+        }
+      });
+  }
+
+  /**
+   * Gzip rotated files that are still plain text, keeping them owner only.
+   * The compressed copy replaces the file under the lock, and only if
+   * retention or another process has not removed or compressed it meanwhile.
+   */
+  private async compressRotated(): Promise<void> {
+    for (const filePath of rotatedLogs(this.logPath)) {
+      if (!filePath.endsWith('.jsonl')) {
+        continue;
+      }
+      let data: Buffer;
+      try {
+        data = await readFile(filePath);
+      } catch {
+        // Removed by retention or compressed by another process
+        continue;
+      }
+      const compressing = tempPath(`${filePath}.gz`, 'tmp');
+      await writeFile(compressing, await gzipAsync(data), { mode: 0o600 });
+      await withLogLock(this.logPath, () => {
+        if (existsSync(filePath)) {
+          renameSync(compressing, `${filePath}.gz`);
+          rmSync(filePath);
+        }
+      }).finally(() => rm(compressing, { force: true }));
+    }
+  }
+
+  /**
+   * Delete the oldest rotated files beyond the retention count and disk limit,
+   * and record in the chain head where the kept chain starts. Call while
+   * holding the log lock.
+   */
+  private applyRetention(): void {
+    const rotated = rotatedLogs(this.logPath);
+    const sizes = new Map(rotated.map(filePath => [filePath, statSync(filePath).size]));
+    const activeSize = existsSync(this.logPath) ? statSync(this.logPath).size : 0;
+    let total = activeSize + [...sizes.values()].reduce((sum, size) => sum + size, 0);
+    let deleted = false;
+
+    while (
+      rotated.length > 0 &&
+      (rotated.length > this.options.retain ||
+        (this.options.maxTotalBytes !== undefined && total > this.options.maxTotalBytes))
+    ) {
+      const oldest = rotated.shift()!;
+      total -= sizes.get(oldest)!;
+      rmSync(oldest);
+      deleted = true;
+    }
+    const head = readChainHead(this.headPath);
+    if (!deleted || !head) {
+      return;
+    }
+
+    // The retained chain now starts at the oldest remaining entry
+    const oldest = rotated[0] ?? (existsSync(this.logPath) ? this.logPath : undefined);
+    const first = oldest ? firstEntry(oldest) : null;
+    writeChainHead(this.headPath, {
+      ...head,
+      start: first
+        ? { seq: first.seq, prev_hash: first.prev_hash }
+        : { seq: head.seq + 1, prev_hash: head.hash }
+    });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Ulysses Backends
+ *
+ * A backend delivers an already validated x-callback-url action to Ulysses and
+ * hands back whatever Ulysses reported through x-success or x-error:
+ * - MacOSBackend opens the URL with `open` and waits for the helper app callback
+ * - UlyssesSimulator answers from an in-memory library (tests, CI, non-macOS hosts)
+ */
+
+/**
+ * Payload Ulysses sent back through x-success or x-error.
+ * Mirrors the JSON the helper app writes for each callback.
+ */
+export interface CallbackResponse {
+  isError: boolean;
+  data: Record<string, string>;
+}
+
+/**
+ * A single x-callback-url request
+ */
+export interface UlyssesRequest {
+  action: string;
+  params: Record<string, string>;
+  /** Whether the caller needs the x-success/x-error payload */
+  needsCallback: boolean;
+}
+
+export interface UlyssesBackend {
+  /** Short identifier used in logs */
+  readonly name: string;
+
+  /**
+   * Deliver a request to Ulysses.
+   * Resolves with the callback payload, or null when the request was sent
+   * without callback URLs and Ulysses has nothing to report back.
+   * Aborting the signal stops waiting for the callback; a request Ulysses
+   * already received may still complete.
+   */
+  dispatch(request: UlyssesRequest, signal?: AbortSignal): Promise<CallbackResponse | null>;
+}
+
+/**
+ * URL-encodes a parameter value
+ */
+export function encodeParam(value: string): string {
+  return encodeURIComponent(value);
+}
+
+/**
+ * Builds a ulysses://x-callback-url URL.
+ * When a callbackId is given, x-success and x-error point at the helper app.
+ */
+export function buildUlyssesUrl(
+  action: string,
+  params: Record<string, string>,
+  callbackId?: string
+): string {
+  const paramString = Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeParam(value)}`)
+    .join("&");
+
+  if (!callbackId) {
+    return `ulysses://x-callback-url/${action}${paramString ? `?${paramString}` : ""}`;
+  }
+
+  const successUrl = encodeParam(`ulysses-mcp-callback://x-success?callbackId=${callbackId}`);
+  const errorUrl = encodeParam(`ulysses-mcp-callback://x-error?callbackId=${callbackId}`);
+
+  return `ulysses://x-callback-url/${action}?x-success=${successUrl}&x-error=${errorUrl}${paramString ? `&${paramString}` : ""}`;
+}
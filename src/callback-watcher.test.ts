@@ -0,0 +1,163 @@
+/**
+ * Tests for callback delivery from the helper app
+ *
+ * Callback files are written into a sandboxed temp directory the same way the
+ * helper app writes them, and delivered through the directory watcher or the
+ * polling fallback.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { CallbackWatcher, CallbackWatcherOptions } from './callback-watcher.js';
+import { SecureTempFileManager } from './secure-temp.js';
+
+let sandbox: string;
+let manager: SecureTempFileManager;
+
+function writeCallback(callbackId: string, data: Record<string, string>, isError = false): void {
+  manager.writeSecure(
+    manager.getCallbackPath(callbackId),
+    JSON.stringify({ callbackId, isError, data })
+  );
+}
+
+function createWatcher(options: Partial<CallbackWatcherOptions> = {}): CallbackWatcher {
+  return new CallbackWatcher(manager, {
+    timeoutMs: 2000,
+    pollIntervalMs: 20,
+    sweepIntervalMs: 500,
+    ...options
+  });
+}
+
+beforeEach(() => {
+  sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  manager = new SecureTempFileManager(join(sandbox, 'tmp'));
+});
+
+afterEach(() => {
+  rmSync(sandbox, { recursive: true, force: true });
+});
+
+describe('CallbackWatcher', () => {
+  it('should deliver callbacks through the directory watcher', async () => {
+    const watcher = createWatcher();
+    const pending = watcher.wait('get-version', 'get-version-1');
+    expect(watcher.isWatching()).toBe(true);
+
+    writeCallback('get-version-1', { apiVersion: '3' });
+    await expect(pending).resolves.toEqual({ isError: false, data: { apiVersion: '3' } });
+    expect(existsSync(manager.getCallbackPath('get-version-1'))).toBe(false);
+  });
+
+  it('should dispatch concurrent callbacks by callbackId', async () => {
+    const watcher = createWatcher();
+    const first = watcher.wait('get-item', 'get-item-1');
+    const second = watcher.wait('read-sheet', 'read-sheet-2');
+    expect(watcher.pendingCount()).toBe(2);
+
+    writeCallback('read-sheet-2', { sheet: '{}' });
+    writeCallback('get-item-1', { item: '{}' });
+
+    await expect(second).resolves.toEqual({ isError: false, data: { sheet: '{}' } });
+    await expect(first).resolves.toEqual({ isError: false, data: { item: '{}' } });
+    expect(watcher.pendingCount()).toBe(0);
+  });
+
+  it('should release the watcher once nothing is pending', async () => {
+    const watcher = createWatcher();
+    const pending = watcher.wait('get-version', 'get-version-2');
+    writeCallback('get-version-2', {});
+    await pending;
+    expect(watcher.isWatching()).toBe(false);
+  });
+
+  it('should pass error callbacks through', async () => {
+    const watcher = createWatcher();
+    const pending = watcher.wait('get-item', 'get-item-3');
+    writeCallback('get-item-3', { errorCode: '6', errorMessage: 'Not found' }, true);
+    await expect(pending).resolves.toEqual({ isError: true, data: { errorCode: '6', errorMessage: 'Not found' } });
+  });
+
+  it('should fall back to polling when the watcher is disabled', async () => {
+    const watcher = createWatcher({ disableWatcher: true });
+    const pending = watcher.wait('get-version', 'get-version-4');
+    expect(watcher.isWatching()).toBe(false);
+
+    writeCallback('get-version-4', { apiVersion: '3' });
+    await expect(pending).resolves.toEqual({ isError: false, data: { apiVersion: '3' } });
+  });
+
+  it('should reject malformed callback files', async () => {
+    const watcher = createWatcher({ disableWatcher: true });
+    const pending = watcher.wait('get-version', 'get-version-5');
+    manager.writeSecure(manager.getCallbackPath('get-version-5'), '{not json');
+    await expect(pending).rejects.toThrow('Failed to read callback data');
+  });
+
+  it('should stop waiting when the request is cancelled', async () => {
+    const watcher = createWatcher({ timeoutMs: 50, sweepIntervalMs: 20 });
+    const controller = new AbortController();
+    const pending = watcher.wait('get-root-items', 'get-root-items-7', controller.signal);
+
+    controller.abort();
+    const error = await pending.catch(e => e);
+    expect((error as McpError).data).toMatchObject({ reason: 'request_cancelled', action: 'get-root-items' });
+    expect(watcher.pendingCount()).toBe(0);
+    expect(watcher.abandonedCount()).toBe(1);
+
+    // Stops tracking the cancelled request once its callback can no longer be
+    // expected, so no sweep timer outlives the test
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(watcher.abandonedCount()).toBe(0);
+    expect(watcher.isWatching()).toBe(false);
+  });
+
+  it('should delete a callback file that arrives after cancellation', async () => {
+    const watcher = createWatcher({ disableWatcher: true });
+    const controller = new AbortController();
+    const pending = watcher.wait('get-root-items', 'get-root-items-8', controller.signal);
+    controller.abort();
+    await pending.catch(() => undefined);
+
+    writeCallback('get-root-items-8', { items: '[]' });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(existsSync(manager.getCallbackPath('get-root-items-8'))).toBe(false);
+    expect(watcher.abandonedCount()).toBe(0);
+    expect(watcher.isWatching()).toBe(false);
+  });
+
+  it('should delete a callback file that is already on disk when cancelled', async () => {
+    const watcher = createWatcher({ disableWatcher: true, pollIntervalMs: 1000 });
+    const controller = new AbortController();
+    const pending = watcher.wait('read-sheet', 'read-sheet-9', controller.signal);
+
+    writeCallback('read-sheet-9', { sheet: '{}' });
+    controller.abort();
+    await pending.catch(() => undefined);
+
+    expect(existsSync(manager.getCallbackPath('read-sheet-9'))).toBe(false);
+    expect(watcher.abandonedCount()).toBe(0);
+  });
+
+  it('should reject immediately when already cancelled', async () => {
+    const watcher = createWatcher();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(watcher.wait('get-item', 'get-item-10', controller.signal)).rejects.toThrow('Request cancelled');
+    expect(watcher.pendingCount()).toBe(0);
+  });
+
+  it('should time out with a structured error', async () => {
+    const watcher = createWatcher({ timeoutMs: 50 });
+    const error = await watcher.wait('read-sheet', 'read-sheet-6').catch(e => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect((error as McpError).data).toMatchObject({ reason: 'callback_timeout', action: 'read-sheet' });
+    expect(watcher.pendingCount()).toBe(0);
+    expect(watcher.isWatching()).toBe(false);
+  });
+});
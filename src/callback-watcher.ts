@@ -0,0 +1,254 @@
+/**
+ * Callback Watcher
+ *
+ * Delivers helper-app callback files to the requests waiting for them:
+ * - A single fs.watch on the secure temp directory for all pending callbacks
+ * - Files are matched to pending requests by callbackId
+ * - One shared polling loop as a fallback when the watcher is unavailable,
+ *   and as a slow sweep for events the watcher may have missed
+ * - Cancelled requests stop waiting immediately; a callback file that arrives
+ *   for them later is deleted unread
+ */
+
+import { watch, FSWatcher } from 'fs';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { CallbackResponse } from './backend.js';
+import { callbackTimeoutError, requestCancelledError } from './errors.js';
+import { SecureTempFileManager } from './secure-temp.js';
+
+const CALLBACK_FILE_PATTERN = /^callback-(.+)\.json$/;
+
+// Callback state for file-based IPC
+interface PendingCallback {
+  action: string;
+  resolve: (data: CallbackResponse) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+export interface CallbackWatcherOptions {
+  /** How long to wait for Ulysses before failing */
+  timeoutMs: number;
+  /** Poll interval used when the directory watcher is unavailable */
+  pollIntervalMs: number;
+  /** Sweep interval used while the directory watcher is active */
+  sweepIntervalMs: number;
+  /** Disable fs.watch and rely on polling only */
+  disableWatcher?: boolean;
+}
+
+export class CallbackWatcher {
+  private pendingCallbacks = new Map<string, PendingCallback>();
+  // Cancelled callbackIds whose late callback file must be discarded, with expiry time
+  private abandonedCallbacks = new Map<string, number>();
+  private watcher: FSWatcher | null = null;
+  private watcherFailed: boolean;
+  private interval: NodeJS.Timeout | null = null;
+  private intervalMs = 0;
+
+  constructor(
+    private secureTempManager: SecureTempFileManager,
+    private options: CallbackWatcherOptions
+  ) {
+    this.watcherFailed = Boolean(options.disableWatcher);
+  }
+
+  /**
+   * Wait for the callback file of a request.
+   * Aborting the signal rejects immediately and discards the callback if it arrives later.
+   */
+  wait(action: string, callbackId: string, signal?: AbortSignal): Promise<CallbackResponse> {
+    return new Promise<CallbackResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(requestCancelledError(action));
+        return;
+      }
+
+      const onAbort = () => {
+        const pending = this.pendingCallbacks.get(callbackId);
+        if (!pending) {
+          return;
+        }
+        clearTimeout(pending.timeout);
+        this.pendingCallbacks.delete(callbackId);
+        this.abandonedCallbacks.set(callbackId, Date.now() + this.options.timeoutMs);
+        // The callback may already be on disk
+        this.discard(callbackId);
+        this.stopIfIdle();
+        reject(requestCancelledError(action));
+      };
+
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        this.pendingCallbacks.delete(callbackId);
+        this.stopIfIdle();
+        // Clean up callback file if it exists
+        this.secureTempManager.deleteSecure(this.secureTempManager.getCallbackPath(callbackId));
+        reject(callbackTimeoutError(action, this.secureTempManager.getHelperPidPath()));
+      }, this.options.timeoutMs);
+
+      this.pendingCallbacks.set(callbackId, {
+        action,
+        resolve: (data) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(data);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timeout
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.start();
+    });
+  }
+
+  /**
+   * Whether callbacks are currently delivered by the directory watcher
+   */
+  isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  /**
+   * Number of requests still waiting for a callback
+   */
+  pendingCount(): number {
+    return this.pendingCallbacks.size;
+  }
+
+  /**
+   * Number of cancelled requests whose callback file has not arrived yet
+   */
+  abandonedCount(): number {
+    return this.abandonedCallbacks.size;
+  }
+
+  private start(): void {
+    if (!this.watcher && !this.watcherFailed) {
+      try {
+        this.watcher = watch(this.secureTempManager.getTempDir(), (_event, filename) => {
+          const match = filename ? CALLBACK_FILE_PATTERN.exec(filename.toString()) : null;
+          if (match) {
+            this.deliver(match[1]);
+          }
+        });
+        this.watcher.on('error', (error) => {
+          console.error(`Callback watcher failed, falling back to polling: ${error.message}`);
+          this.fallBackToPolling();
+        });
+      } catch (error) {
+        console.error(`Callback watcher unavailable, falling back to polling: ${error instanceof Error ? error.message : String(error)}`);
+        this.watcherFailed = true;
+      }
+    }
+
+    this.schedulePolling();
+  }
+
+  private fallBackToPolling(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.watcherFailed = true;
+    this.schedulePolling();
+  }
+
+  /**
+   * Run one shared polling loop: fast without a watcher, slow as a sweep with one
+   */
+  private schedulePolling(): void {
+    const intervalMs = this.watcher ? this.options.sweepIntervalMs : this.options.pollIntervalMs;
+    if (this.interval && this.intervalMs === intervalMs) {
+      return;
+    }
+    if (this.interval) {
+      clearInterval(this.interval);
+    }
+    this.intervalMs = intervalMs;
+    this.interval = setInterval(() => this.sweep(), intervalMs);
+  }
+
+  private sweep(): void {
+    for (const callbackId of [...this.pendingCallbacks.keys()]) {
+      if (this.secureTempManager.callbackFileExists(callbackId)) {
+        this.deliver(callbackId);
+      }
+    }
+
+    const now = Date.now();
+    for (const [callbackId, expiresAt] of [...this.abandonedCallbacks]) {
+      this.discard(callbackId);
+      if (now >= expiresAt) {
+        // Stop tracking; cleanup() removes anything that arrives even later
+        this.abandonedCallbacks.delete(callbackId);
+      }
+    }
+    this.stopIfIdle();
+  }
+
+  /**
+   * Read the callback file for a pending request and settle its promise
+   */
+  private deliver(callbackId: string): void {
+    if (this.abandonedCallbacks.has(callbackId)) {
+      this.discard(callbackId);
+      return;
+    }
+
+    const pending = this.pendingCallbacks.get(callbackId);
+    if (!pending || !this.secureTempManager.callbackFileExists(callbackId)) {
+      return;
+    }
+
+    const callbackFilePath = this.secureTempManager.getCallbackPath(callbackId);
+
+    // Clean up
+    clearTimeout(pending.timeout);
+    this.pendingCallbacks.delete(callbackId);
+    this.stopIfIdle();
+
+    try {
+      // Read and parse callback data
+      const response = JSON.parse(this.secureTempManager.readSecure(callbackFilePath));
+      pending.resolve({
+        isError: Boolean(response.isError),
+        data: response.data || {}
+      });
+    } catch (error) {
+      pending.reject(new McpError(
+        ErrorCode.InternalError,
+        `Failed to read callback data: ${error instanceof Error ? error.message : String(error)}`
+      ));
+    } finally {
+      // Delete callback file
+      this.secureTempManager.deleteSecure(callbackFilePath);
+    }
+  }
+
+  /**
+   * Delete the callback file of a cancelled request once it has arrived
+   */
+  private discard(callbackId: string): void {
+    if (!this.secureTempManager.callbackFileExists(callbackId)) {
+      return;
+    }
+    this.secureTempManager.deleteSecure(this.secureTempManager.getCallbackPath(callbackId));
+    this.abandonedCallbacks.delete(callbackId);
+  }
+
+  /**
+   * Release the watcher and polling loop once nothing is pending or abandoned
+   */
+  private stopIfIdle(): void {
+    if (this.pendingCallbacks.size > 0 || this.abandonedCallbacks.size > 0) {
+      return;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+}
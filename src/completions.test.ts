@@ -0,0 +1,114 @@
+/**
+ * Tests for completing identifiers and keywords from the library listing
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Group } from './models.js';
+import { LibraryIndex, completeArgument, completeIdentifiers, completeKeywords } from './completions.js';
+
+const LIBRARY: Group[] = [{
+  type: 'group',
+  identifier: 'icloud',
+  title: 'iCloud',
+  containers: [{
+    type: 'group',
+    identifier: 'novel',
+    title: 'Novel',
+    sheets: [
+      { type: 'sheet', identifier: 'intro', title: 'Intro', keywords: [{ title: 'Draft' }] },
+      { type: 'sheet', identifier: 'notes', title: 'Novel notes', keywords: [{ title: 'Research' }, { title: 'Draft' }] }
+    ]
+  }],
+  sheets: []
+}];
+
+function createIndex(): { index: LibraryIndex; fetches: () => number } {
+  let count = 0;
+  const index = new LibraryIndex({ ttlMs: 60000, fetch: async () => { count++; return LIBRARY; } });
+  return { index, fetches: () => count };
+}
+
+describe('completeIdentifiers', () => {
+  const items = [
+    { identifier: 'g1', title: 'Research' },
+    { identifier: 'g2', title: 'Novel research' },
+    { identifier: 'g3', title: 'Drafts' }
+  ];
+
+  it('should rank title prefixes before other matches', () => {
+    expect(completeIdentifiers(items, 'res')).toEqual({ values: ['g1', 'g2'], total: 2, hasMore: false });
+  });
+
+  it('should accept a partial identifier', () => {
+    expect(completeIdentifiers(items, 'g3').values).toEqual(['g3']);
+  });
+
+  it('should cap the number of values', () => {
+    const many = Array.from({ length: 150 }, (_, i) => ({ identifier: `id${i}`, title: `Sheet ${i}` }));
+    const completion = completeIdentifiers(many, 'sheet');
+    expect(completion.values).toHaveLength(100);
+    expect(completion).toMatchObject({ total: 150, hasMore: true });
+  });
+});
+
+describe('completeKeywords', () => {
+  const keywords = ['Draft', 'Research', 'Review'];
+
+  it('should complete a single keyword', () => {
+    expect(completeKeywords(keywords, 're').values).toEqual(['Research', 'Review']);
+  });
+
+  it('should complete the last of several keywords and skip chosen ones', () => {
+    expect(completeKeywords(keywords, 'Review, ').values).toEqual(['Review, Draft', 'Review, Research']);
+    expect(completeKeywords(keywords, 'Draft,Res').values).toEqual(['Draft, Research']);
+  });
+});
+
+describe('completeArgument', () => {
+  it('should complete groups, sheets and keywords by argument name', async () => {
+    const { index } = createIndex();
+    expect((await completeArgument('group_id', 'nov', index)).values).toEqual(['novel']);
+    expect((await completeArgument('sheet_id', 'nov', index)).values).toEqual(['notes']);
+    expect((await completeArgument('id', 'nov', index)).values).toEqual(['novel', 'notes']);
+    expect((await completeArgument('keywords', '', index)).values).toEqual(['Draft', 'Research']);
+    expect((await completeArgument('brief', 'nov', index)).values).toEqual([]);
+  });
+
+  it('should reuse the cached listing until invalidated', async () => {
+    const { index, fetches } = createIndex();
+    await Promise.all([completeArgument('group_id', '', index), completeArgument('sheet_id', '', index)]);
+    await completeArgument('keywords', '', index);
+    expect(fetches()).toBe(1);
+
+    index.invalidate();
+    await completeArgument('group_id', '', index);
+    expect(fetches()).toBe(2);
+  });
+
+  it('should fetch anew when invalidated while a fetch is in flight', async () => {
+    const listings: Array<(items: Group[]) => void> = [];
+    const index = new LibraryIndex({ ttlMs: 60000, fetch: () => new Promise(resolve => listings.push(resolve)) });
+
+    const stale = index.get();
+    index.invalidate();
+    const fresh = index.get();
+    expect(listings).toHaveLength(2);
+
+    listings[0]([]);
+    expect((await stale).items).toEqual([]);
+    listings[1](LIBRARY);
+    expect((await fresh).items).toBe(LIBRARY);
+    expect(index.peek()?.items).toBe(LIBRARY);
+  });
+
+  it('should not cache a listing fetched before an invalidation', async () => {
+    let release: (items: Group[]) => void = () => undefined;
+    const index = new LibraryIndex({ ttlMs: 60000, fetch: () => new Promise(resolve => { release = resolve; }) });
+
+    const stale = index.get();
+    index.invalidate();
+    release([]);
+    await stale;
+    expect(index.peek()).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Argument Completion
+ *
+ * Serves completion/complete for prompt arguments and resource template
+ * variables from a cached get-root-items listing:
+ * - group and sheet arguments complete to the identifiers of items whose
+ *   title (or identifier) matches what was typed
+ * - keyword arguments complete to keywords already used in the library
+ */
+
+import { CompleteResult } from "@modelcontextprotocol/sdk/types.js";
+import { Group, Sheet } from "./models.js";
+
+// Most values a completion may return (MCP limit)
+const MAX_COMPLETIONS = 100;
+
+type Completion = CompleteResult["completion"];
+
+// Which items each identifier argument refers to
+const GROUP_ARGUMENTS = new Set(["group_id", "group", "parent", "targetGroup"]);
+const SHEET_ARGUMENTS = new Set(["sheet_id", "sheet"]);
+const ITEM_ARGUMENTS = new Set(["id"]);
+const KEYWORD_ARGUMENTS = new Set(["keywords"]);
+
+interface IndexedItem {
+  identifier: string;
+  title: string;
+}
+
+/**
+ * Where an item sits in the library
+ */
+export interface ItemLocation {
+  type: "group" | "sheet";
+  title: string;
+  /** Titles of the groups containing the item, starting with the library section */
+  path: string[];
+}
+
+interface LibraryIndexState {
+  /** The listing the index was built from */
+  items: Group[];
+  /** Every group and sheet by identifier */
+  locations: Map<string, ItemLocation>;
+  groups: IndexedItem[];
+  sheets: IndexedItem[];
+  keywords: string[];
+  fetchedAt: number;
+}
+
+export interface LibraryIndexOptions {
+  /** How long a listing is reused before it is fetched again */
+  ttlMs: number;
+  /** Fetch the full, recursive library listing */
+  fetch: () => Promise<Group[]>;
+}
+
+/**
+ * Cached, flattened view of the library used for completions, policy checks
+ * and confirmation prompts
+ */
+export class LibraryIndex {
+  private state: LibraryIndexState | null = null;
+  private loading: Promise<LibraryIndexState> | null = null;
+  // Counts invalidations and updates; a fetch started before one is not cached
+  private generation = 0;
+
+  constructor(private options: LibraryIndexOptions) {}
+
+  /**
+   * Drop the cached listing, e.g. after the library was modified. A fetch
+   * already in flight is not reused, so the next get() lists the library anew.
+   */
+  invalidate(): void {
+    this.state = null;
+    this.loading = null;
+    this.generation++;
+  }
+
+  /**
+   * Use a full listing that was fetched for another reason
+   */
+  update(items: Group[]): void {
+    this.state = indexLibrary(items);
+    this.generation++;
+  }
+
+  /**
+   * The last listing, however old, without fetching one
+   */
+  peek(): LibraryIndexState | null {
+    return this.state;
+  }
+
+  /**
+   * Whether get() can answer without fetching a listing
+   */
+  isFresh(): boolean {
+    return this.state !== null && Date.now() - this.state.fetchedAt < this.options.ttlMs;
+  }
+
+  async get(): Promise<LibraryIndexState> {
+    if (this.state && this.isFresh()) {
+      return this.state;
+    }
+    if (!this.loading) {
+      const generation = this.generation;
+      const loading: Promise<LibraryIndexState> = this.options.fetch()
+        .then(items => {
+          const state = indexLibrary(items);
+          if (generation === this.generation) {
+            this.state = state;
+          }
+          return state;
+        })
+        .finally(() => {
+          if (this.loading === loading) {
+            this.loading = null;
+          }
+        });
+      this.loading = loading;
+    }
+    return this.loading;
+  }
+}
+
+function indexLibrary(items: Group[]): LibraryIndexState {
+  const state: LibraryIndexState = {
+    items,
+    locations: new Map(),
+    groups: [],
+    sheets: [],
+    keywords: [],
+    fetchedAt: Date.now()
+  };
+  const keywords = new Set<string>();
+
+  const visitSheet = (sheet: Sheet, path: string[]) => {
+    state.sheets.push({ identifier: sheet.identifier, title: sheet.title });
+    state.locations.set(sheet.identifier, { type: "sheet", title: sheet.title, path });
+    sheet.keywords.forEach(keyword => keywords.add(keyword.title));
+  };
+  const visitGroup = (group: Group, path: string[]) => {
+    state.groups.push({ identifier: group.identifier, title: group.title });
+    state.locations.set(group.identifier, { type: "group", title: group.title, path });
+    const inside = [...path, group.title];
+    (group.sheets ?? []).forEach(sheet => visitSheet(sheet, inside));
+    (group.containers ?? []).forEach(container => visitGroup(container, inside));
+  };
+
+  items.forEach(group => visitGroup(group, []));
+  state.keywords = [...keywords].sort((a, b) => a.localeCompare(b));
+  return state;
+}
+
+function limit(values: string[]): Completion {
+  return {
+    values: values.slice(0, MAX_COMPLETIONS),
+    total: values.length,
+    hasMore: values.length > MAX_COMPLETIONS
+  };
+}
+
+/**
+ * Identifiers of items whose title contains the typed text, best matches first
+ */
+export function completeIdentifiers(items: IndexedItem[], value: string): Completion {
+  const query = value.trim().toLowerCase();
+  const ranked = items
+    .map(item => {
+      const title = item.title.toLowerCase();
+      if (item.identifier === value) return { item, rank: 0 };
+      if (item.identifier.startsWith(value)) return { item, rank: 1 };
+      if (title.startsWith(query)) return { item, rank: 2 };
+      if (title.includes(query)) return { item, rank: 3 };
+      return null;
+    })
+    .filter((entry): entry is { item: IndexedItem; rank: number } => entry !== null)
+    .sort((a, b) => a.rank - b.rank || a.item.title.localeCompare(b.item.title));
+
+  return limit(ranked.map(entry => entry.item.identifier));
+}
+
+/**
+ * Completes the last keyword of a comma-separated list, keeping the ones before it
+ */
+export function completeKeywords(keywords: string[], value: string): Completion {
+  const separator = value.lastIndexOf(",");
+  const prefix = separator >= 0 ? value.slice(0, separator + 1) : "";
+  const typed = value.slice(separator + 1).trim().toLowerCase();
+  const chosen = new Set(prefix.split(",").map(keyword => keyword.trim()).filter(Boolean));
+  const leading = separator >= 0 ? `${prefix.trimEnd()} ` : "";
+
+  return limit(
+    keywords
+      .filter(keyword => !chosen.has(keyword) && keyword.toLowerCase().startsWith(typed))
+      .map(keyword => `${leading}${keyword}`)
+  );
+}
+
+/**
+ * Completes an argument by name; arguments that name no library data get no suggestions
+ */
+export async function completeArgument(name: string, value: string, index: LibraryIndex): Promise<Completion> {
+  if (GROUP_ARGUMENTS.has(name)) {
+    return completeIdentifiers((await index.get()).groups, value);
+  }
+  if (SHEET_ARGUMENTS.has(name)) {
+    return completeIdentifiers((await index.get()).sheets, value);
+  }
+  if (ITEM_ARGUMENTS.has(name)) {
+    const { groups, sheets } = await index.get();
+    return completeIdentifiers([...groups, ...sheets], value);
+  }
+  if (KEYWORD_ARGUMENTS.has(name)) {
+    return completeKeywords((await index.get()).keywords, value);
+  }
+  return { values: [] };
+}
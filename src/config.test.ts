@@ -0,0 +1,272 @@
+/**
+ * Tests for loading, validating and reloading the configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Config, ConfigWatcher, changedSettings, configFilePath, loadConfig, settingFiles } from './config.js';
+
+let sandbox: string;
+let file: string;
+
+function writeConfig(json: unknown): void {
+  writeFileSync(file, typeof json === 'string' ? json : JSON.stringify(json));
+}
+
+beforeEach(() => {
+  sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  file = join(sandbox, 'config.json');
+});
+
+afterEach(() => {
+  rmSync(sandbox, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+  it('should read typed settings from the file', () => {
+    writeConfig({
+      backend: 'simulator',
+      readOnly: true,
+      confirm: { trash: 'always', '*': 'never' },
+      callbacks: { timeoutMs: 5000 },
+      maxLengths: { note: 500 },
+      audit: { redactKeys: ['^client_ref$'], privacy: true }
+    });
+    expect(loadConfig(file, {})).toEqual({
+      backend: 'simulator',
+      readOnly: true,
+      confirm: { trash: 'always', '*': 'never' },
+      callbacks: { timeoutMs: 5000 },
+      maxLengths: { note: 500 },
+      audit: { redactKeys: ['^client_ref$'], privacy: true }
+    });
+  });
+
+  it('should let environment variables override the file', () => {
+    writeConfig({ concurrency: 2, dryRun: true, callbacks: { timeoutMs: 5000, pollIntervalMs: 50 } });
+    expect(loadConfig(file, {
+      ULYSSES_MCP_CONCURRENCY: '3',
+      ULYSSES_MCP_DRY_RUN: 'no',
+      ULYSSES_MCP_CALLBACK_TIMEOUT_MS: '10000',
+      ULYSSES_MCP_CONFIRM: 'move=once',
+      ULYSSES_MCP_AUDIT_REDACT_VALUES: 'ACME-\\d+, INV-\\d+',
+      ULYSSES_MCP_POLICY: ''
+    })).toEqual({
+      concurrency: 3,
+      dryRun: false,
+      confirm: { move: 'once' },
+      callbacks: { timeoutMs: 10000, pollIntervalMs: 50 },
+      audit: { redactValues: ['ACME-\\d+', 'INV-\\d+'] }
+    });
+  });
+
+  it('should override argument length limits from the environment', () => {
+    writeConfig({ maxLengths: { note: 500, text: 2000 } });
+    expect(loadConfig(file, { ULYSSES_MCP_MAX_NOTE_LENGTH: '50', ULYSSES_MCP_MAX_GROUP_TITLE_LENGTH: '80' }).maxLengths)
+      .toEqual({ note: 50, text: 2000, groupTitle: 80 });
+    expect(() => loadConfig(file, { ULYSSES_MCP_MAX_TEXT_LENGTH: 'long' }))
+      .toThrow('ULYSSES_MCP_MAX_TEXT_LENGTH must be a positive whole number');
+  });
+
+  it('should accept rate limits inline or as a file', () => {
+    writeConfig({ rateLimits: { tools: { ulysses_trash: { perMinute: 2 } } } });
+    expect(loadConfig(file, {}).rateLimits?.tools).toEqual({ ulysses_trash: { perMinute: 2 } });
+
+    const rateLimitFile = join(sandbox, 'rate-limits.json');
+    writeFileSync(rateLimitFile, JSON.stringify({ global: null }));
+    expect(loadConfig(file, { ULYSSES_MCP_RATE_LIMITS: rateLimitFile }).rateLimits?.global).toBeNull();
+  });
+
+  it('should report every invalid value with its source', () => {
+    writeConfig({ backend: 'windows', concurrency: 0, callbacks: { timeout: 5 }, colour: 'red', audit: { privacy: 'maybe' } });
+    expect(() => loadConfig(file, { ULYSSES_MCP_READ_ONLY: 'sometimes', ULYSSES_MCP_CONFIRM: 'delete=always' })).toThrow([
+      'Invalid configuration:',
+      `- ${file}: callbacks.timeout is not a setting`,
+      `- ${file}: colour is not a setting`,
+      `- ${file}: backend must be one of: macos, simulator`,
+      `- ${file}: concurrency must be a positive whole number`,
+      '- ULYSSES_MCP_READ_ONLY must be true or false',
+      '- ULYSSES_MCP_CONFIRM: Confirmation can only be configured for',
+    ].join('\n'));
+  });
+
+  it('should report invalid JSON, patterns and rate limits', () => {
+    writeConfig('{ "readOnly": ');
+    expect(() => loadConfig(file, {})).toThrow(`${file}: Unexpected end of JSON input`);
+
+    writeConfig({ audit: { redactKeys: ['(unclosed'] }, rateLimits: { global: { perMinute: 0 } } });
+    expect(() => loadConfig(file, {})).toThrow('rateLimits: global.perMinute must be a positive number');
+    expect(() => loadConfig(file, {})).toThrow('audit.redactKeys has an invalid pattern: (unclosed');
+  });
+
+  it('should only require a config file that was named explicitly', () => {
+    expect(loadConfig(join(sandbox, 'missing.json'), {})).toEqual({});
+    expect(() => loadConfig(join(sandbox, 'missing.json'), { ULYSSES_MCP_CONFIG: join(sandbox, 'missing.json') }))
+      .toThrow('no such file or directory');
+    expect(configFilePath({ ULYSSES_MCP_CONFIG: file })).toBe(file);
+    expect(configFilePath({ ULYSSES_MCP_HOME: sandbox })).toBe(file);
+  });
+});
+
+describe('changedSettings', () => {
+  it('should name the top-level settings that differ', () => {
+    const previous: Config = { readOnly: true, audit: { retain: 3 }, maxLengths: { note: 10 } };
+    expect(changedSettings(previous, { readOnly: true, audit: { retain: 4 }, dryRun: true, maxLengths: { note: 10 } }))
+      .toEqual(['audit', 'dryRun']);
+  });
+});
+
+describe('settingFiles', () => {
+  it('should name the policy and rate limit files, preferring the environment', () => {
+    writeConfig({ policy: 'policy.json', rateLimits: { global: { perMinute: 5 } } });
+    expect(settingFiles(file, {})).toEqual(new Map([['policy', join(sandbox, 'policy.json')]]));
+    expect(settingFiles(file, { ULYSSES_MCP_RATE_LIMITS: join(sandbox, 'limits.json') })).toEqual(new Map([
+      ['policy', join(sandbox, 'policy.json')],
+      ['rateLimits', join(sandbox, 'limits.json')]
+    ]));
+  });
+});
+
+describe('Relative setting files', () => {
+  const cwd = process.cwd();
+
+  afterEach(() => {
+    process.chdir(cwd);
+  });
+
+  it('should find files named in the config file next to it, whatever the working directory', () => {
+    mkdirSync(join(sandbox, 'elsewhere'));
+    writeFileSync(join(sandbox, 'limits.json'), JSON.stringify({ global: { perMinute: 7 } }));
+    writeConfig({ policy: 'policy.json', rateLimits: 'limits.json' });
+    process.chdir(join(sandbox, 'elsewhere'));
+
+    const config = loadConfig(file, {});
+    expect(config.policy).toBe(join(sandbox, 'policy.json'));
+    expect(config.rateLimits?.global).toEqual({ perMinute: 7 });
+    expect(settingFiles(file, {})).toEqual(new Map([
+      ['policy', join(sandbox, 'policy.json')],
+      ['rateLimits', join(sandbox, 'limits.json')]
+    ]));
+  });
+
+  it('should find files named in the environment from the working directory', () => {
+    process.chdir(sandbox);
+    expect(loadConfig(file, { ULYSSES_MCP_POLICY: 'policy.json' }).policy).toBe(join(process.cwd(), 'policy.json'));
+    expect(settingFiles(file, { ULYSSES_MCP_POLICY: 'policy.json' })).toEqual(new Map([['policy', join(process.cwd(), 'policy.json')]]));
+  });
+});
+
+/**
+ * Resolves with the settings of the next change a started watcher reports
+ */
+function nextChange(watcherFile: string, config: Config = {}): { changed: Promise<string[]>; watcher: ConfigWatcher } {
+  let report: (changed: string[]) => void = () => undefined;
+  const changed = new Promise<string[]>(resolve => {
+    report = resolve;
+  });
+  const watcher = new ConfigWatcher(watcherFile, {}, config, {
+    onChange: (_config, settings) => {
+      watcher.stop();
+      report(settings);
+    },
+    onError: () => undefined
+  });
+  watcher.start();
+  return { changed, watcher };
+}
+
+describe('ConfigWatcher', () => {
+  it('should report changed settings and keep the last valid configuration', () => {
+    writeConfig({ readOnly: false, concurrency: 1 });
+    const changes: string[][] = [];
+    const errors: string[] = [];
+    const watcher = new ConfigWatcher(file, {}, loadConfig(file, {}), {
+      onChange: (_config, changed) => changes.push(changed),
+      onError: (error) => errors.push(error.message)
+    });
+
+    writeConfig({ readOnly: true, concurrency: 2 });
+    watcher.reload();
+    writeConfig({ readOnly: 'perhaps', concurrency: 2 });
+    watcher.reload();
+    writeConfig({ readOnly: true, concurrency: 2 });
+    watcher.reload();
+
+    expect(changes).toEqual([['concurrency', 'readOnly']]);
+    expect(errors).toEqual([`Invalid configuration:\n- ${file}: readOnly must be true or false`]);
+  });
+
+  it('should reload when the file is saved', async () => {
+    writeConfig({ dryRun: false });
+    const changed = new Promise<Config>(resolve => {
+      const watcher = new ConfigWatcher(file, {}, loadConfig(file, {}), {
+        onChange: (config) => {
+          watcher.stop();
+          resolve(config);
+        },
+        onError: () => undefined
+      });
+      watcher.start();
+      // The watcher reads the file a moment after the event
+      setTimeout(() => writeConfig({ dryRun: true }), 50);
+    });
+    await expect(changed).resolves.toEqual({ dryRun: true });
+  });
+
+  it('should keep the previous configuration when applying the new one fails', () => {
+    writeConfig({ readOnly: false });
+    const changes: string[][] = [];
+    const errors: string[] = [];
+    let fail = true;
+    const watcher = new ConfigWatcher(file, {}, loadConfig(file, {}), {
+      onChange: (_config, changed) => {
+        if (fail) {
+          throw new Error('Invalid policy file');
+        }
+        changes.push(changed);
+      },
+      onError: (error) => errors.push(error.message)
+    });
+
+    writeConfig({ readOnly: true });
+    watcher.reload();
+    fail = false;
+    watcher.reload();
+
+    expect(errors).toEqual(['Invalid policy file']);
+    expect(changes).toEqual([['readOnly']]);
+  });
+
+  it('should reload when the policy file a setting points to is saved', async () => {
+    const policy = join(sandbox, 'policy', 'policy.json');
+    mkdirSync(join(sandbox, 'policy'));
+    writeFileSync(policy, '{}');
+    writeConfig({ policy });
+    const { changed, watcher } = nextChange(file, loadConfig(file, {}));
+    try {
+      setTimeout(() => writeFileSync(policy, '{"deny": ["ulysses_trash"]}'), 50);
+      await expect(changed).resolves.toEqual(['policy']);
+    } finally {
+      watcher.stop();
+    }
+  });
+
+  it('should watch for a config directory that does not exist yet', async () => {
+    const configFile = join(sandbox, 'not', 'yet', 'config.json');
+    const { changed, watcher } = nextChange(configFile);
+    try {
+      setTimeout(() => {
+        mkdirSync(join(sandbox, 'not'));
+        setTimeout(() => {
+          mkdirSync(join(sandbox, 'not', 'yet'));
+          setTimeout(() => writeFileSync(configFile, JSON.stringify({ dryRun: true })), 50);
+        }, 50);
+      }, 50);
+      await expect(changed).resolves.toEqual(['dryRun']);
+    } finally {
+      watcher.stop();
+    }
+  });
+});
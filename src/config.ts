@@ -0,0 +1,512 @@
+/**
+ * Configuration
+ *
+ * Settings come from, in increasing precedence:
+ * - the defaults of the modules they configure
+ * - the config file (ULYSSES_MCP_CONFIG, by default config.json in the config directory)
+ * - environment variables, e.g. ULYSSES_MCP_READ_ONLY
+ *
+ * Every value is validated, and all invalid values are reported together,
+ * each named by its file setting or environment variable. The config file is
+ * watched, and so are the policy and rate limit files it points to: settings
+ * that can change while the server runs are applied when one is saved, the
+ * others after a restart. A file that became invalid is reported and the
+ * previous settings stay in effect. Relative paths of those files are
+ * resolved against the config file's directory, or against the working
+ * directory when they come from the environment.
+ */
+
+import { FSWatcher, existsSync, readFileSync, watch } from "fs";
+import { dirname, join, resolve } from "path";
+import { ConfirmationModes, parseConfirmationModes } from "./confirmation.js";
+import { resolveBaseDirectories } from "./paths.js";
+import { RateLimits, loadRateLimits, parseRateLimits } from "./rate-limiter.js";
+import { DESTRUCTIVE_ACTIONS, MaxLengths } from "./tools.js";
+
+// Name of the config file in the config directory, next to the token store
+const CONFIG_FILE = "config.json";
+
+// Wait for an editor to finish saving before reading the file
+const RELOAD_DELAY_MS = 100;
+
+export interface Config {
+  /** "macos" talks to the Ulysses app, "simulator" serves an in-memory library */
+  backend?: "macos" | "simulator";
+  concurrency?: number;
+  accessToken?: string;
+  libraryPollIntervalMs?: number;
+  /** Absolute path of the permission policy file */
+  policy?: string;
+  readOnly?: boolean;
+  confirm?: ConfirmationModes;
+  dryRun?: boolean;
+  rateLimits?: RateLimits;
+  callbacks?: {
+    /** How long to wait for Ulysses to call back */
+    timeoutMs?: number;
+    /** How often callback files are polled for when the directory cannot be watched */
+    pollIntervalMs?: number;
+    helperAppPath?: string;
+  };
+  /** Maximum length of tool arguments, in characters */
+  maxLengths?: Partial<MaxLengths>;
+  paths?: {
+    auditLogDir?: string;
+    tempDir?: string;
+  };
+  audit?: {
+    maxBytes?: number;
+    /** 0 rotates by size only */
+    maxAgeDays?: number;
+    retain?: number;
+    maxTotalBytes?: number;
+    redactKeys?: string[];
+    redactValues?: string[];
+    privacy?: boolean;
+  };
+}
+
+/**
+ * Settings that take effect while the server runs; the others need a restart
+ */
+export const RELOADABLE_SETTINGS = ["accessToken", "policy", "readOnly", "confirm", "dryRun", "rateLimits", "maxLengths"];
+
+type Parser = (value: unknown, name: string) => unknown;
+
+interface Setting {
+  /** Dotted path in the config file */
+  key: string;
+  /** Environment variable that overrides the file */
+  env?: string;
+  parse: Parser;
+  /** A string value is the path of a file the setting is read from */
+  file?: boolean;
+}
+
+function wholeNumber(min: number): Parser {
+  return (value, name) => {
+    const number = typeof value === "string" ? Number(value.trim()) : value;
+    if (typeof number !== "number" || !Number.isInteger(number) || number < min) {
+      throw new Error(`${name} must be a ${min > 0 ? "positive" : "non-negative"} whole number`);
+    }
+    return number;
+  };
+}
+
+const positiveInteger = wholeNumber(1);
+const nonNegativeInteger = wholeNumber(0);
+
+const nonNegativeNumber: Parser = (value, name) => {
+  const number = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof number !== "number" || !Number.isFinite(number) || number < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return number;
+};
+
+const flag: Parser = (value, name) => {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  const text = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (["1", "true", "yes"].includes(text)) {
+    return true;
+  }
+  if (["0", "false", "no"].includes(text)) {
+    return false;
+  }
+  throw new Error(`${name} must be true or false`);
+};
+
+const text: Parser = (value, name) => {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`${name} must be a non-empty string`);
+  }
+  return value;
+};
+
+function oneOf(values: string[]): Parser {
+  return (value, name) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      throw new Error(`${name} must be one of: ${values.join(", ")}`);
+    }
+    return value;
+  };
+}
+
+// An array in the file, a comma-separated list in the environment
+const patterns: Parser = (value, name) => {
+  const list = typeof value === "string" ? value.split(",").map(pattern => pattern.trim()).filter(Boolean) : value;
+  if (!Array.isArray(list) || list.some(pattern => typeof pattern !== "string")) {
+    throw new Error(`${name} must be a list of patterns`);
+  }
+  for (const pattern of list) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(`${name} has an invalid pattern: ${pattern}`);
+    }
+  }
+  return list;
+};
+
+// "trash=always,*=never" or { "trash": "always", "*": "never" }
+const confirmModes: Parser = (value, name) => {
+  const list = typeof value === "object" && value !== null && !Array.isArray(value)
+    ? Object.entries(value).map(([action, mode]) => `${action}=${mode}`).join(",")
+    : value;
+  if (typeof list !== "string") {
+    throw new Error(`${name} must be an object or a list like "trash=always,*=never"`);
+  }
+  try {
+    return parseConfirmationModes(list, DESTRUCTIVE_ACTIONS);
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Inline in the file, or the path of a rate limit file
+const rateLimits: Parser = (value, name) => {
+  try {
+    return typeof value === "string" ? loadRateLimits(value) : parseRateLimits(value);
+  } catch (error) {
+    throw new Error(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const SETTINGS: Setting[] = [
+  { key: "backend", env: "ULYSSES_MCP_BACKEND", parse: oneOf(["macos", "simulator"]) },
+  { key: "concurrency", env: "ULYSSES_MCP_CONCURRENCY", parse: positiveInteger },
+  { key: "accessToken", env: "ULYSSES_ACCESS_TOKEN", parse: text },
+  { key: "libraryPollIntervalMs", env: "ULYSSES_MCP_POLL_INTERVAL_MS", parse: positiveInteger },
+  { key: "policy", env: "ULYSSES_MCP_POLICY", parse: text, file: true },
+  { key: "readOnly", env: "ULYSSES_MCP_READ_ONLY", parse: flag },
+  { key: "confirm", env: "ULYSSES_MCP_CONFIRM", parse: confirmModes },
+  { key: "dryRun", env: "ULYSSES_MCP_DRY_RUN", parse: flag },
+  { key: "rateLimits", env: "ULYSSES_MCP_RATE_LIMITS", parse: rateLimits, file: true },
+  { key: "callbacks.timeoutMs", env: "ULYSSES_MCP_CALLBACK_TIMEOUT_MS", parse: positiveInteger },
+  { key: "callbacks.pollIntervalMs", env: "ULYSSES_MCP_CALLBACK_POLL_INTERVAL_MS", parse: positiveInteger },
+  { key: "callbacks.helperAppPath", env: "ULYSSES_MCP_HELPER_APP_PATH", parse: text },
+  { key: "maxLengths.text", env: "ULYSSES_MCP_MAX_TEXT_LENGTH", parse: positiveInteger },
+  { key: "maxLengths.note", env: "ULYSSES_MCP_MAX_NOTE_LENGTH", parse: positiveInteger },
+  { key: "maxLengths.groupTitle", env: "ULYSSES_MCP_MAX_GROUP_TITLE_LENGTH", parse: positiveInteger },
+  { key: "maxLengths.sheetTitle", env: "ULYSSES_MCP_MAX_SHEET_TITLE_LENGTH", parse: positiveInteger },
+  { key: "maxLengths.keywords", env: "ULYSSES_MCP_MAX_KEYWORDS_LENGTH", parse: positiveInteger },
+  { key: "maxLengths.appname", env: "ULYSSES_MCP_MAX_APPNAME_LENGTH", parse: positiveInteger },
+  { key: "paths.auditLogDir", env: "ULYSSES_MCP_AUDIT_DIR", parse: text },
+  { key: "paths.tempDir", env: "ULYSSES_MCP_TEMP_DIR", parse: text },
+  { key: "audit.maxBytes", env: "ULYSSES_MCP_AUDIT_MAX_BYTES", parse: positiveInteger },
+  { key: "audit.maxAgeDays", env: "ULYSSES_MCP_AUDIT_MAX_AGE_DAYS", parse: nonNegativeNumber },
+  { key: "audit.retain", env: "ULYSSES_MCP_AUDIT_RETAIN", parse: nonNegativeInteger },
+  { key: "audit.maxTotalBytes", env: "ULYSSES_MCP_AUDIT_MAX_TOTAL_BYTES", parse: positiveInteger },
+  { key: "audit.redactKeys", env: "ULYSSES_MCP_AUDIT_REDACT_KEYS", parse: patterns },
+  { key: "audit.redactValues", env: "ULYSSES_MCP_AUDIT_REDACT_VALUES", parse: patterns },
+  { key: "audit.privacy", env: "ULYSSES_MCP_AUDIT_PRIVACY", parse: flag }
+];
+
+const SECTIONS = new Set(SETTINGS.filter(setting => setting.key.includes(".")).map(setting => setting.key.split(".")[0]));
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The absolute path a file setting names
+ */
+function settingPath(value: string, configFile: string, fromEnv: boolean): string {
+  return fromEnv ? resolve(value) : resolve(dirname(configFile), value);
+}
+
+function setValue(config: Record<string, unknown>, key: string, value: unknown): void {
+  const [section, name] = key.split(".");
+  if (name === undefined) {
+    config[section] = value;
+    return;
+  }
+  config[section] = { ...(config[section] as Record<string, unknown> | undefined), [name]: value };
+}
+
+/**
+ * The values in a parsed config file, by dotted key; unknown settings are reported
+ */
+function fileValues(json: unknown, problems: string[]): Map<string, unknown> {
+  const values = new Map<string, unknown>();
+  if (!isObject(json)) {
+    problems.push("the file must contain a JSON object");
+    return values;
+  }
+  const known = new Set(SETTINGS.map(setting => setting.key));
+  for (const [key, value] of Object.entries(json)) {
+    if (SECTIONS.has(key)) {
+      if (!isObject(value)) {
+        problems.push(`${key} must be an object`);
+        continue;
+      }
+      for (const [name, entry] of Object.entries(value)) {
+        if (known.has(`${key}.${name}`)) {
+          values.set(`${key}.${name}`, entry);
+        } else {
+          problems.push(`${key}.${name} is not a setting`);
+        }
+      }
+    } else if (known.has(key)) {
+      values.set(key, value);
+    } else {
+      problems.push(`${key} is not a setting`);
+    }
+  }
+  return values;
+}
+
+/**
+ * The config file to read: ULYSSES_MCP_CONFIG, or config.json in the config directory
+ */
+export function configFilePath(env: NodeJS.ProcessEnv = process.env): string {
+  return env.ULYSSES_MCP_CONFIG || join(resolveBaseDirectories(env).configDir, CONFIG_FILE);
+}
+
+/**
+ * Read the config file, if there is one, and apply environment overrides.
+ * Throws one error listing every invalid value.
+ */
+export function loadConfig(file: string = configFilePath(), env: NodeJS.ProcessEnv = process.env): Config {
+  const problems: string[] = [];
+  let values = new Map<string, unknown>();
+
+  // Only a file named explicitly has to exist
+  if (existsSync(file) || env.ULYSSES_MCP_CONFIG) {
+    const fileProblems: string[] = [];
+    try {
+      values = fileValues(JSON.parse(readFileSync(file, "utf8")), fileProblems);
+    } catch (error) {
+      fileProblems.push(error instanceof Error ? error.message : String(error));
+    }
+    problems.push(...fileProblems.map(problem => `${file}: ${problem}`));
+  }
+
+  const config: Record<string, unknown> = {};
+  for (const setting of SETTINGS) {
+    const envValue = setting.env ? env[setting.env] : undefined;
+    const fromEnv = envValue !== undefined && envValue !== "";
+    if (!fromEnv && !values.has(setting.key)) {
+      continue;
+    }
+    let raw = fromEnv ? envValue : values.get(setting.key);
+    if (setting.file && typeof raw === "string" && raw.trim() !== "") {
+      raw = settingPath(raw, file, fromEnv);
+    }
+    try {
+      const value = setting.parse(raw, fromEnv ? setting.env! : setting.key);
+      setValue(config, setting.key, value);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      problems.push(fromEnv ? message : `${file}: ${message}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n${problems.map(problem => `- ${problem}`).join("\n")}`);
+  }
+  return config as Config;
+}
+
+/**
+ * The files that settings point to, by setting, as absolute paths: the policy
+ * file and a rate limit file. Their content can change while the settings
+ * stay the same.
+ */
+export function settingFiles(file: string = configFilePath(), env: NodeJS.ProcessEnv = process.env): Map<string, string> {
+  let values = new Map<string, unknown>();
+  try {
+    values = fileValues(JSON.parse(readFileSync(file, "utf8")), []);
+  } catch {
+    // No file, or reported by loadConfig
+  }
+  const files = new Map<string, string>();
+  for (const setting of SETTINGS.filter(setting => setting.file)) {
+    const envValue = setting.env ? env[setting.env] : undefined;
+    const fromEnv = envValue !== undefined && envValue !== "";
+    const value = fromEnv ? envValue : values.get(setting.key);
+    if (typeof value === "string" && value.trim() !== "") {
+      files.set(setting.key, settingPath(value, file, fromEnv));
+    }
+  }
+  return files;
+}
+
+/**
+ * Top-level settings whose values differ between two configurations
+ */
+export function changedSettings(previous: Config, next: Config): string[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof Config>;
+  return [...keys].filter(key => JSON.stringify(previous[key]) !== JSON.stringify(next[key]));
+}
+
+export interface ConfigWatcherOptions {
+  /**
+   * Called with the new configuration and the top-level settings that
+   * changed, including those whose file was saved. The configuration counts
+   * as applied only when this returns; if it throws, the error goes to
+   * onError and the next save is compared with the previous configuration.
+   */
+  onChange: (config: Config, changed: string[]) => void;
+  /** Called when a file was saved with invalid values */
+  onError: (error: Error) => void;
+}
+
+/**
+ * Reloads the configuration when the config file, or a file a setting points
+ * to, is saved
+ */
+export class ConfigWatcher {
+  private file: string;
+  private files: Map<string, string>;
+  // Settings whose file was saved since the configuration was last applied
+  private touched = new Set<string>();
+  // Watchers by the directory they are for; see watchDirectory
+  private watchers = new Map<string, FSWatcher>();
+  private started = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    file: string,
+    private env: NodeJS.ProcessEnv,
+    private current: Config,
+    private options: ConfigWatcherOptions
+  ) {
+    this.file = resolve(file);
+    this.files = settingFiles(this.file, env);
+  }
+
+  /**
+   * Watch the directories of the files, so files replaced by editors and
+   * files created later are seen too
+   */
+  start(): void {
+    this.started = true;
+    this.updateWatches();
+  }
+
+  stop(): void {
+    this.started = false;
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Read the files again and report what changed
+   */
+  reload(): void {
+    let next: Config;
+    try {
+      next = loadConfig(this.file, this.env);
+    } catch (error) {
+      this.options.onError(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    const files = settingFiles(this.file, this.env);
+    const changed = new Set(changedSettings(this.current, next));
+    for (const setting of this.touched) {
+      if (files.has(setting)) {
+        changed.add(setting);
+      }
+    }
+    if (changed.size > 0) {
+      try {
+        this.options.onChange(next, [...changed].sort());
+      } catch (error) {
+        this.options.onError(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+    }
+    this.current = next;
+    this.files = files;
+    this.touched.clear();
+    if (this.started) {
+      this.updateWatches();
+    }
+  }
+
+  /**
+   * Watch the directories of the config file and the setting files, and
+   * stop watching those no longer needed
+   */
+  private updateWatches(): void {
+    const directories = new Set([this.file, ...this.files.values()].map(file => dirname(file)));
+    for (const [directory, watcher] of this.watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+    for (const directory of directories) {
+      if (!this.watchers.has(directory)) {
+        this.watchDirectory(directory);
+      }
+    }
+  }
+
+  /**
+   * Watch a directory, or while it does not exist yet its nearest existing
+   * parent, until it appears
+   */
+  private watchDirectory(directory: string): void {
+    let watched = directory;
+    let below = directory;
+    while (!existsSync(watched) && dirname(watched) !== watched) {
+      below = watched;
+      watched = dirname(watched);
+    }
+    try {
+      const watcher = watch(watched, (_event, name) => {
+        if (watched === directory) {
+          this.saved(name ? join(directory, name) : null, directory);
+        } else if (existsSync(below)) {
+          // Closer to the directory now; files may have been created with it
+          watcher.close();
+          this.watchers.delete(directory);
+          this.watchDirectory(directory);
+          this.saved(null, directory);
+        }
+      });
+      watcher.unref();
+      this.watchers.set(directory, watcher);
+    } catch (error) {
+      console.error(`Directory ${directory} cannot be watched for configuration changes: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Note a change to a file in a watched directory; a change to an unnamed
+   * file could be any of them
+   */
+  private saved(file: string | null, directory: string): void {
+    let relevant = file === null ? dirname(this.file) === directory : file === this.file;
+    for (const [setting, settingFile] of this.files) {
+      if (file === null ? dirname(settingFile) === directory : file === settingFile) {
+        this.touched.add(setting);
+        relevant = true;
+      }
+    }
+    if (relevant) {
+      this.scheduleReload();
+    }
+  }
+
+  private scheduleReload(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.reload();
+    }, RELOAD_DELAY_MS);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Tests for confirmation settings and the questions asked before destructive actions
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ItemLocation } from './completions.js';
+import { ConfirmationGate, describeDestructiveAction, parseConfirmationModes } from './confirmation.js';
+
+const ACTIONS = new Set(['trash', 'move', 'remove-note']);
+
+const LOCATIONS = new Map<string, ItemLocation>([
+  ['icloud', { type: 'group', title: 'iCloud', path: [] }],
+  ['drafts', { type: 'group', title: 'Drafts', path: ['iCloud', 'Novel'] }],
+  ['intro', { type: 'sheet', title: 'Intro', path: ['iCloud', 'Novel'] }]
+]);
+const locate = (id: string) => LOCATIONS.get(id);
+
+describe('parseConfirmationModes', () => {
+  it('should parse modes per action and a default', () => {
+    expect(parseConfirmationModes('trash=always, move=once,*=never', ACTIONS))
+      .toEqual({ trash: 'always', move: 'once', '*': 'never' });
+  });
+
+  it('should reject unknown actions and modes', () => {
+    expect(() => parseConfirmationModes('insert=never', ACTIONS)).toThrow('not insert');
+    expect(() => parseConfirmationModes('trash=sometimes', ACTIONS)).toThrow('must be one of: always, once, never');
+    expect(() => parseConfirmationModes('trash', ACTIONS)).toThrow('expected action=mode');
+  });
+});
+
+describe('ConfirmationGate', () => {
+  it('should ask every time by default', () => {
+    const gate = new ConfirmationGate();
+    gate.recordConfirmation('trash');
+    expect(gate.needsConfirmation('trash')).toBe(true);
+  });
+
+  it('should ask once per session', () => {
+    const gate = new ConfirmationGate({ '*': 'once' });
+    expect(gate.needsConfirmation('move')).toBe(true);
+    gate.recordConfirmation('move');
+    expect(gate.needsConfirmation('move')).toBe(false);
+    expect(gate.needsConfirmation('trash')).toBe(true);
+
+    gate.reset();
+    expect(gate.needsConfirmation('move')).toBe(true);
+  });
+
+  it('should prefer the action setting over the default', () => {
+    const gate = new ConfirmationGate({ '*': 'never', trash: 'always' });
+    expect(gate.needsConfirmation('move')).toBe(false);
+    expect(gate.needsConfirmation('trash')).toBe(true);
+  });
+});
+
+describe('describeDestructiveAction', () => {
+  it('should name items by title and location', () => {
+    expect(describeDestructiveAction('trash', { id: 'intro' }, locate))
+      .toBe('Move the sheet "Intro" in iCloud/Novel to the trash?');
+    expect(describeDestructiveAction('move', { id: 'intro', targetGroup: 'drafts' }, locate))
+      .toBe('Move the sheet "Intro" in iCloud/Novel to iCloud/Novel/Drafts?');
+    expect(describeDestructiveAction('set-group-title', { group: 'icloud', title: 'Cloud' }, locate))
+      .toBe('Rename the library section "iCloud" to "Cloud"?');
+  });
+
+  it('should count notes from one', () => {
+    expect(describeDestructiveAction('update-note', { id: 'intro', index: '2', text: 'x' }, locate))
+      .toBe('Replace the text of note 3 of the sheet "Intro" in iCloud/Novel?');
+  });
+
+  it('should fall back to the reference for unknown items', () => {
+    expect(describeDestructiveAction('trash', { id: 'missing' }, locate)).toBe('Move "missing" to the trash?');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Destructive Action Confirmation
+ *
+ * Destructive actions are confirmed by the user through MCP elicitation before
+ * they reach Ulysses. Each action is configured (ULYSSES_MCP_CONFIRM) to:
+ * - always  - ask every time (default)
+ * - once    - ask the first time in a session
+ * - never   - run without asking
+ *
+ * The question names the affected items by title and location, resolved from
+ * the library listing, so the user does not have to recognize identifiers.
+ */
+
+import { Locate, describeEffect } from "./effects.js";
+
+export type ConfirmationMode = "always" | "once" | "never";
+
+/** Mode per action; "*" applies to actions that are not listed */
+export type ConfirmationModes = Record<string, ConfirmationMode>;
+
+const MODES: ConfirmationMode[] = ["always", "once", "never"];
+
+/**
+ * Parse a list like "trash=always,move=once,*=never"
+ */
+export function parseConfirmationModes(value: string, actions: Set<string>): ConfirmationModes {
+  const modes: ConfirmationModes = {};
+  for (const entry of value.split(",").map(part => part.trim()).filter(Boolean)) {
+    const [action, mode, ...rest] = entry.split("=").map(part => part.trim());
+    if (rest.length > 0 || mode === undefined) {
+      throw new Error(`Invalid confirmation setting "${entry}" (expected action=mode)`);
+    }
+    if (action !== "*" && !actions.has(action)) {
+      throw new Error(`Confirmation can only be configured for ${[...actions].join(", ")} or *, not ${action}`);
+    }
+    if (!MODES.includes(mode as ConfirmationMode)) {
+      throw new Error(`Confirmation mode for ${action} must be one of: ${MODES.join(", ")}`);
+    }
+    modes[action] = mode as ConfirmationMode;
+  }
+  return modes;
+}
+
+/**
+ * Decides which actions still need the user's confirmation in this session
+ */
+export class ConfirmationGate {
+  private confirmed = new Set<string>();
+
+  constructor(private modes: ConfirmationModes = {}) {}
+
+  mode(action: string): ConfirmationMode {
+    return this.modes[action] ?? this.modes["*"] ?? "always";
+  }
+
+  needsConfirmation(action: string): boolean {
+    const mode = this.mode(action);
+    return mode === "always" || (mode === "once" && !this.confirmed.has(action));
+  }
+
+  /**
+   * Remember that the user confirmed an action
+   */
+  recordConfirmation(action: string): void {
+    this.confirmed.add(action);
+  }
+
+  /**
+   * Forget confirmations when the session ends
+   */
+  reset(): void {
+    this.confirmed.clear();
+  }
+}
+
+/**
+ * The question put to the user before a destructive action runs
+ */
+export function describeDestructiveAction(action: string, params: Record<string, string>, locate: Locate): string {
+  const effect = describeEffect(action, params, locate);
+  return `${effect.charAt(0).toUpperCase()}${effect.slice(1)}?`;
+}
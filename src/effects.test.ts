@@ -0,0 +1,52 @@
+/**
+ * Tests for the plain-language descriptions of action effects
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ItemLocation } from './completions.js';
+import { describeEffect } from './effects.js';
+
+const LOCATIONS = new Map<string, ItemLocation>([
+  ['novel', { type: 'group', title: 'Novel', path: ['iCloud'] }],
+  ['drafts', { type: 'group', title: 'Drafts', path: ['iCloud', 'Novel'] }],
+  ['intro', { type: 'sheet', title: 'Intro', path: ['iCloud', 'Novel'] }]
+]);
+const locate = (id: string) => LOCATIONS.get(id);
+
+describe('describeEffect', () => {
+  it('should describe where new items are created', () => {
+    expect(describeEffect('new-sheet', { text: '# Idea\n\nMore' }, locate))
+      .toBe('create a sheet starting with "# Idea" in the Inbox');
+    expect(describeEffect('new-sheet', { text: 'x', group: 'drafts', index: '0' }, locate))
+      .toBe('create a sheet starting with "x" in iCloud/Novel/Drafts at index 0');
+    expect(describeEffect('new-group', { name: 'Research' }, locate))
+      .toBe('create the group "Research" in the top level');
+  });
+
+  it('should shorten long excerpts', () => {
+    const effect = describeEffect('attach-note', { id: 'intro', text: 'a'.repeat(60) }, locate);
+    expect(effect).toBe(`attach a note starting with "${'a'.repeat(40)}…" to the sheet "Intro" in iCloud/Novel`);
+  });
+
+  it('should describe changes to existing items', () => {
+    expect(describeEffect('insert', { id: 'intro', text: 'The end.', position: 'begin' }, locate))
+      .toBe('insert 8 characters at the beginning of the sheet "Intro" in iCloud/Novel');
+    expect(describeEffect('copy', { id: 'intro', targetGroup: 'drafts' }, locate))
+      .toBe('copy the sheet "Intro" in iCloud/Novel to iCloud/Novel/Drafts');
+    expect(describeEffect('move', { id: 'drafts', index: '0' }, locate))
+      .toBe('move the group "Drafts" in iCloud/Novel to position 0 in its group');
+  });
+
+  it('should describe navigation and authorization', () => {
+    expect(describeEffect('open', { id: 'novel' }, locate)).toBe('open the group "Novel" in iCloud in Ulysses');
+    expect(describeEffect('open-recent', {}, locate)).toBe('show the "Last 7 Days" section in Ulysses');
+    expect(describeEffect('authorize', { appname: 'Test' }, locate)).toBe('ask Ulysses to give "Test" access to the library');
+  });
+
+  it('should describe reads', () => {
+    expect(describeEffect('read-sheet', { id: 'intro', text: 'YES' }, locate)).toBe('read the sheet "Intro" in iCloud/Novel with its text');
+    expect(describeEffect('get-item', { id: 'novel', recursive: 'NO' }, locate)).toBe('get the group "Novel" in iCloud without its subgroups');
+    expect(describeEffect('get-root-items', {}, locate)).toBe('list the whole library');
+    expect(describeEffect('get-version', {}, locate)).toBe('ask Ulysses for its version');
+  });
+});
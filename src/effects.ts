@@ -0,0 +1,112 @@
+/**
+ * Action Effects
+ *
+ * Describes in plain words what an x-callback-url action does to the library,
+ * naming items by title and location instead of identifier. Used for the
+ * questions of destructive action confirmations and for dry runs, which
+ * preview reads too.
+ */
+
+import { ItemLocation } from "./completions.js";
+
+/**
+ * Looks up where an identifier sits in the library
+ */
+export type Locate = (id: string) => ItemLocation | undefined;
+
+// Longest excerpt of inserted text quoted in a description
+const EXCERPT_LENGTH = 40;
+
+function describeItem(ref: string | undefined, locate: Locate): string {
+  if (!ref) {
+    return "an unspecified item";
+  }
+  const location = locate(ref);
+  if (!location) {
+    return `"${ref}"`;
+  }
+  if (location.path.length === 0) {
+    return `the library section "${location.title}"`;
+  }
+  return `the ${location.type} "${location.title}" in ${location.path.join("/")}`;
+}
+
+function describeGroup(ref: string, locate: Locate): string {
+  const location = locate(ref);
+  return location ? [...location.path, location.title].join("/") : `"${ref}"`;
+}
+
+function describeNote(index: string | undefined): string {
+  const position = Number(index);
+  return Number.isInteger(position) && position >= 0 ? `note ${position + 1}` : `note "${index}"`;
+}
+
+function atIndex(index: string | undefined): string {
+  return index !== undefined ? ` at index ${index}` : "";
+}
+
+function excerpt(text: string | undefined): string {
+  const firstLine = (text ?? "").split("\n")[0].trim();
+  return firstLine.length > EXCERPT_LENGTH ? `${firstLine.slice(0, EXCERPT_LENGTH)}…` : firstLine;
+}
+
+/**
+ * What an action does, as a lower-case phrase, e.g.
+ * move the sheet "Intro" in iCloud/Novel to iCloud/Novel/Drafts at index 2
+ */
+export function describeEffect(action: string, params: Record<string, string>, locate: Locate): string {
+  switch (action) {
+    case "new-sheet":
+      return `create a sheet starting with "${excerpt(params.text)}" in ${params.group ? describeGroup(params.group, locate) : "the Inbox"}${atIndex(params.index)}`;
+    case "new-group":
+      return `create the group "${params.name}" in ${params.parent ? describeGroup(params.parent, locate) : "the top level"}${atIndex(params.index)}`;
+    case "insert":
+      return `insert ${(params.text ?? "").length} characters at the ${params.position === "begin" ? "beginning" : "end"} of ${describeItem(params.id, locate)}`;
+    case "attach-note":
+      return `attach a note starting with "${excerpt(params.text)}" to ${describeItem(params.id, locate)}`;
+    case "attach-keywords":
+      return `attach the keywords "${params.keywords}" to ${describeItem(params.id, locate)}`;
+    case "attach-image":
+      return `attach a ${params.format} image to ${describeItem(params.id, locate)}`;
+    case "open":
+      return `open ${describeItem(params.id, locate)} in Ulysses`;
+    case "open-all":
+      return `show the "All" section in Ulysses`;
+    case "open-recent":
+      return `show the "Last 7 Days" section in Ulysses`;
+    case "open-favorites":
+      return `show the "Favorites" section in Ulysses`;
+    case "authorize":
+      return `ask Ulysses to give "${params.appname}" access to the library`;
+    case "get-version":
+      return "ask Ulysses for its version";
+    case "read-sheet":
+      return `read ${describeItem(params.id, locate)}${params.text === "YES" ? " with its text" : ""}`;
+    case "get-item":
+      return `get ${describeItem(params.id, locate)}${params.recursive === "NO" ? " without its subgroups" : ""}`;
+    case "get-root-items":
+      return params.recursive === "NO" ? "list the library sections" : "list the whole library";
+    case "copy":
+      return params.targetGroup
+        ? `copy ${describeItem(params.id, locate)} to ${describeGroup(params.targetGroup, locate)}${atIndex(params.index)}`
+        : `copy ${describeItem(params.id, locate)} within its group${atIndex(params.index)}`;
+    case "trash":
+      return `move ${describeItem(params.id, locate)} to the trash`;
+    case "move":
+      return params.targetGroup
+        ? `move ${describeItem(params.id, locate)} to ${describeGroup(params.targetGroup, locate)}${atIndex(params.index)}`
+        : `move ${describeItem(params.id, locate)} to position ${params.index ?? "(end)"} in its group`;
+    case "set-group-title":
+      return `rename ${describeItem(params.group, locate)} to "${params.title}"`;
+    case "set-sheet-title":
+      return `change the title of ${describeItem(params.sheet, locate)} to "${params.title}"`;
+    case "remove-keywords":
+      return `remove the keywords "${params.keywords}" from ${describeItem(params.id, locate)}`;
+    case "remove-note":
+      return `delete ${describeNote(params.index)} of ${describeItem(params.id, locate)}`;
+    case "update-note":
+      return `replace the text of ${describeNote(params.index)} of ${describeItem(params.id, locate)}`;
+    default:
+      return `run ${action}${params.id ? ` on ${describeItem(params.id, locate)}` : ""}`;
+  }
+}
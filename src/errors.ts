@@ -0,0 +1,278 @@
+/**
+ * Ulysses Error Taxonomy
+ *
+ * Maps the numbered x-error codes Ulysses reports to McpErrors that carry:
+ * - a machine-readable reason (e.g. "invalid_token")
+ * - the Ulysses action that failed
+ * - a remediation hint the agent or user can act on
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+// Error codes Ulysses reports through x-error (errorCode query item)
+export enum UlyssesErrorCode {
+  NO_ACTION = 1,
+  INVALID_ACTION = 2,
+  MISSING_PARAMETER = 3,
+  INVALID_PARAMETER = 4,
+  UNSUPPORTED_FORMAT = 5,
+  NOT_FOUND = 6,
+  ACCESS_DENIED = 7,
+  INVALID_TOKEN = 8,
+  NOT_PERMITTED = 9
+}
+
+/**
+ * Structured data attached to every Ulysses McpError
+ */
+export interface UlyssesErrorData {
+  reason: string;
+  action: string;
+  ulyssesErrorCode?: number;
+  remediation: string;
+}
+
+interface ErrorDescriptor {
+  reason: string;
+  mcpCode: ErrorCode;
+  remediation: string;
+}
+
+const ERROR_DESCRIPTORS: Record<UlyssesErrorCode, ErrorDescriptor> = {
+  [UlyssesErrorCode.NO_ACTION]: {
+    reason: "no_action",
+    mcpCode: ErrorCode.InternalError,
+    remediation: "The server sent a malformed URL. Please report this as a bug."
+  },
+  [UlyssesErrorCode.INVALID_ACTION]: {
+    reason: "invalid_action",
+    mcpCode: ErrorCode.InternalError,
+    remediation: "This Ulysses version does not support the action. Update Ulysses and check ulysses_get_version."
+  },
+  [UlyssesErrorCode.MISSING_PARAMETER]: {
+    reason: "missing_parameter",
+    mcpCode: ErrorCode.InvalidParams,
+    remediation: "Provide all required arguments for the tool and try again."
+  },
+  [UlyssesErrorCode.INVALID_PARAMETER]: {
+    reason: "invalid_parameter",
+    mcpCode: ErrorCode.InvalidParams,
+    remediation: "Check argument values such as indexes, identifiers and enum options."
+  },
+  [UlyssesErrorCode.UNSUPPORTED_FORMAT]: {
+    reason: "unsupported_format",
+    mcpCode: ErrorCode.InvalidParams,
+    remediation: "Use markdown, text or html for text, and png, jpg, gif, tiff, pdf or svg for images."
+  },
+  [UlyssesErrorCode.NOT_FOUND]: {
+    reason: "item_not_found",
+    mcpCode: ErrorCode.InvalidParams,
+    remediation: "The sheet or group does not exist or was trashed. Look up current identifiers with ulysses_get_root_items."
+  },
+  [UlyssesErrorCode.ACCESS_DENIED]: {
+    reason: "access_denied",
+    mcpCode: ErrorCode.InvalidRequest,
+    remediation: "The authorization request was declined in Ulysses. Run ulysses_authorize again and allow access."
+  },
+  [UlyssesErrorCode.INVALID_TOKEN]: {
+    reason: "invalid_token",
+    mcpCode: ErrorCode.InvalidRequest,
+    remediation: "The access token is invalid or was revoked. Run ulysses_authorize to obtain a new token."
+  },
+  [UlyssesErrorCode.NOT_PERMITTED]: {
+    reason: "not_permitted",
+    mcpCode: ErrorCode.InvalidRequest,
+    remediation: "Ulysses does not allow this operation on the item (for example moving a library section or a group into itself)."
+  }
+};
+
+const UNKNOWN_ERROR: ErrorDescriptor = {
+  reason: "ulysses_error",
+  mcpCode: ErrorCode.InternalError,
+  remediation: "Check that Ulysses is running and up to date, then try again."
+};
+
+/**
+ * Build an McpError from the x-error payload Ulysses sent for an action
+ */
+export function ulyssesError(action: string, data: Record<string, string>): McpError {
+  const code = Number(data.errorCode);
+  const descriptor = ERROR_DESCRIPTORS[code as UlyssesErrorCode] || UNKNOWN_ERROR;
+  const errorMessage = data.errorMessage || "Ulysses returned an error";
+
+  const errorData: UlyssesErrorData = {
+    reason: descriptor.reason,
+    action,
+    remediation: descriptor.remediation
+  };
+  if (Number.isInteger(code)) {
+    errorData.ulyssesErrorCode = code;
+  }
+
+  return new McpError(
+    descriptor.mcpCode,
+    `${action} failed: ${errorMessage} (${descriptor.reason})\n\nHint: ${descriptor.remediation}`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when Ulysses never answers a callback action
+ */
+export function callbackTimeoutError(action: string, helperPidPath: string): McpError {
+  const remediation = [
+    "Ensure Ulysses is installed and running",
+    `Ensure the helper app is running (check ${helperPidPath})`,
+    "Check that Ulysses has permission to access x-callback-url",
+    "Try running: npm run build-helper to rebuild the helper app"
+  ];
+
+  const errorData: UlyssesErrorData = {
+    reason: "callback_timeout",
+    action,
+    remediation: remediation.join("; ")
+  };
+
+  return new McpError(
+    ErrorCode.InternalError,
+    `Callback timeout for action: ${action}. The helper app may not be running or Ulysses may not have responded.\n\nTroubleshooting:\n${remediation.map((step, i) => `${i + 1}. ${step}`).join("\n")}`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when the client cancels a pending request
+ */
+export function requestCancelledError(action: string): McpError {
+  const errorData: UlyssesErrorData = {
+    reason: "request_cancelled",
+    action,
+    remediation: "The client cancelled the request. Ulysses may still complete an action that was already sent."
+  };
+
+  return new McpError(
+    ErrorCode.InternalError,
+    `Request cancelled for action: ${action}`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when a callback payload does not match the Ulysses models
+ */
+export function malformedPayloadError(action: string, detail: string): McpError {
+  const errorData: UlyssesErrorData = {
+    reason: "malformed_payload",
+    action,
+    remediation: "Ulysses sent a callback the server could not understand. Make sure Ulysses and the helper app are up to date."
+  };
+
+  return new McpError(
+    ErrorCode.InternalError,
+    `${action} returned a malformed payload: ${detail}`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when an action needs an access token and none is available
+ */
+export function accessTokenRequiredError(action: string): McpError {
+  const errorData: UlyssesErrorData = {
+    reason: "access_token_required",
+    action,
+    remediation: "Run ulysses_authorize to store a token, pass access_token, or set ULYSSES_ACCESS_TOKEN."
+  };
+
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `${action} requires an access token, but none is stored or configured`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when the permission policy denies a tool call
+ */
+export function policyDeniedError(tool: string, rule: string, detail: string): McpError {
+  const errorData: UlyssesErrorData = {
+    reason: "policy_denied",
+    action: tool,
+    remediation: `The server's permission policy (${rule}) does not allow this call. Do not retry it; ask the user to change the policy file if it should be allowed.`
+  };
+
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `${tool} denied by policy: ${detail}`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when a read-only server is asked to change the library
+ */
+export function readOnlyModeError(action: string): McpError {
+  const errorData: UlyssesErrorData = {
+    reason: "read_only_mode",
+    action,
+    remediation: "This server is read-only and never changes the library. Use a server started without ULYSSES_MCP_READ_ONLY for changes."
+  };
+
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `${action} changes the library, but the server is read-only`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when a tool call finds its rate limit budget used up
+ */
+export function rateLimitedError(tool: string, budget: string, perMinute: number, retryAfterMs: number): McpError {
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  const errorData: UlyssesErrorData = {
+    reason: "rate_limited",
+    action: tool,
+    remediation: `Wait ${seconds} seconds before calling ${tool} again. Tool results report the remaining quota in _meta.rateLimit.`
+  };
+
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `Rate limit exceeded for ${tool}: the ${budget} budget allows ${perMinute} calls per minute, try again in ${seconds}s`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when the user does not confirm a destructive action
+ */
+export function confirmationDeclinedError(action: string, question: string): McpError {
+  const errorData: UlyssesErrorData = {
+    reason: "confirmation_declined",
+    action,
+    remediation: "The user did not confirm the action. Do not retry it unless the user asks for it."
+  };
+
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `${action} was not confirmed by the user: ${question}`,
+    errorData
+  );
+}
+
+/**
+ * Build the McpError raised when a destructive action cannot be confirmed with the user
+ */
+export function confirmationUnavailableError(action: string, detail: string): McpError {
+  const errorData: UlyssesErrorData = {
+    reason: "confirmation_unavailable",
+    action,
+    remediation: `Use an MCP client that supports elicitation, or set ULYSSES_MCP_CONFIRM (e.g. ${action}=never) to run ${action} without asking.`
+  };
+
+  return new McpError(
+    ErrorCode.InvalidRequest,
+    `${action} needs the user's confirmation, but ${detail}`,
+    errorData
+  );
+}
@@ -115,7 +115,10 @@ const CALLBACK_ACTIONS = new Set([
   "read-sheet",
   "get-item",
   "get-root-items",
-  "get-version"
+  "get-version",
+  "new-sheet",
+  "new-group",
+  "copy"
 ]);
 
 /**
@@ -306,8 +309,13 @@ describe('Callback Actions', () => {
     expect(CALLBACK_ACTIONS.has('get-version')).toBe(true);
   });
 
-  it('should not mark write operations as needing callbacks', () => {
-    expect(CALLBACK_ACTIONS.has('new-sheet')).toBe(false);
+  it('should mark create operations as needing callbacks for their identifiers', () => {
+    expect(CALLBACK_ACTIONS.has('new-sheet')).toBe(true);
+    expect(CALLBACK_ACTIONS.has('new-group')).toBe(true);
+    expect(CALLBACK_ACTIONS.has('copy')).toBe(true);
+  });
+
+  it('should not mark other write operations as needing callbacks', () => {
     expect(CALLBACK_ACTIONS.has('insert')).toBe(false);
     expect(CALLBACK_ACTIONS.has('trash')).toBe(false);
   });
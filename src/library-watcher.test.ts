@@ -0,0 +1,124 @@
+/**
+ * Tests for detecting library changes between two get-root-items listings
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Group, Sheet } from './models.js';
+import { LibraryChanges, LibraryWatcher, diffLibrary, snapshotLibrary } from './library-watcher.js';
+
+function sheet(identifier: string, title = identifier): Sheet {
+  return { type: 'sheet', identifier, title, keywords: [] };
+}
+
+function group(identifier: string, title: string, containers: Group[] = [], sheets: Sheet[] = []): Group {
+  return { type: 'group', identifier, title, containers, sheets };
+}
+
+function library(): Group[] {
+  return [
+    group('icloud', 'iCloud', [
+      group('novel', 'Novel', [group('drafts', 'Drafts')], [sheet('intro', 'Intro'), sheet('ch1', 'Chapter 1')]),
+      group('inbox', 'Inbox')
+    ]),
+    group('mac', 'On My Mac')
+  ];
+}
+
+function diff(change: (items: Group[]) => void): LibraryChanges {
+  const next = library();
+  change(next);
+  return diffLibrary(snapshotLibrary(library()), snapshotLibrary(next));
+}
+
+describe('diffLibrary', () => {
+  it('should report nothing for an unchanged library', () => {
+    expect(diff(() => undefined)).toEqual({ added: [], removed: [], renamed: [], moved: [], updated: [] });
+  });
+
+  it('should report added sheets and update their group', () => {
+    const changes = diff(items => items[0].containers![1].sheets!.push(sheet('idea')));
+    expect(changes.added).toEqual(['ulysses://sheet/idea']);
+    expect(changes.updated.sort()).toEqual(['ulysses://group/inbox', 'ulysses://library']);
+  });
+
+  it('should report removed groups with their contents', () => {
+    const changes = diff(items => items[0].containers!.splice(0, 1));
+    expect(changes.removed.sort()).toEqual([
+      'ulysses://group/drafts', 'ulysses://group/novel', 'ulysses://sheet/ch1', 'ulysses://sheet/intro'
+    ]);
+    expect(changes.updated).toContain('ulysses://group/icloud');
+    expect(changes.updated).toContain('ulysses://sheet/intro');
+  });
+
+  it('should report renamed items and update their parent', () => {
+    const changes = diff(items => { items[0].containers![0].sheets![0].title = 'Prologue'; });
+    expect(changes.renamed).toEqual(['ulysses://sheet/intro']);
+    expect(changes.updated.sort()).toEqual(['ulysses://group/novel', 'ulysses://library', 'ulysses://sheet/intro']);
+  });
+
+  it('should report moved items and update both groups', () => {
+    const changes = diff(items => {
+      const novel = items[0].containers![0];
+      items[0].containers![1].sheets!.push(novel.sheets!.shift()!);
+    });
+    expect(changes.moved).toEqual(['ulysses://sheet/intro']);
+    expect(changes.updated.sort()).toEqual([
+      'ulysses://group/inbox', 'ulysses://group/novel', 'ulysses://library', 'ulysses://sheet/intro'
+    ]);
+  });
+
+  it('should update a group whose children were reordered', () => {
+    const changes = diff(items => items[0].containers![0].sheets!.reverse());
+    expect(changes.moved).toEqual([]);
+    expect(changes.updated.sort()).toEqual(['ulysses://group/novel', 'ulysses://library']);
+  });
+});
+
+describe('LibraryWatcher', () => {
+  it('should report changes found by a poll', async () => {
+    let items = library();
+    const reported: LibraryChanges[] = [];
+    const watcher = new LibraryWatcher({
+      intervalMs: 60000,
+      fetch: async () => items,
+      onChange: (changes) => { reported.push(changes); }
+    });
+
+    await watcher.start();
+    expect(watcher.isRunning()).toBe(true);
+    expect(await watcher.poll()).toMatchObject({ updated: [] });
+
+    items = library();
+    items[1].sheets!.push(sheet('todo'));
+    await watcher.poll();
+    expect(reported).toHaveLength(1);
+    expect(reported[0].added).toEqual(['ulysses://sheet/todo']);
+
+    watcher.stop();
+    expect(watcher.isRunning()).toBe(false);
+  });
+
+  it('should stay stopped when the baseline cannot be fetched', async () => {
+    const watcher = new LibraryWatcher({
+      intervalMs: 60000,
+      fetch: async () => { throw new Error('Invalid access token'); },
+      onChange: () => undefined
+    });
+    await expect(watcher.start()).rejects.toThrow('Invalid access token');
+    expect(watcher.isRunning()).toBe(false);
+  });
+
+  it('should drop a baseline that completes after stop', async () => {
+    let release!: (items: Group[]) => void;
+    const watcher = new LibraryWatcher({
+      intervalMs: 60000,
+      fetch: () => new Promise(resolve => { release = resolve; }),
+      onChange: () => undefined
+    });
+    const starting = watcher.start();
+    watcher.stop();
+    release(library());
+    await starting;
+    expect(watcher.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Library Watcher
+ *
+ * Ulysses has no change notifications, so resource subscriptions are served by
+ * polling get-root-items and diffing the tree against the previous snapshot:
+ * - Items are compared by resource URI, title, parent group and position
+ * - Added, removed, renamed and moved items are reported along with every
+ *   resource whose content changed as a result (the item, its old and new
+ *   parent groups, and the library listing)
+ * - Edits to sheet text are not visible in the listing and are not detected
+ */
+
+import { Group } from "./models.js";
+import { LIBRARY_URI, groupUri, sheetUri } from "./resources.js";
+
+interface SnapshotEntry {
+  title: string;
+  /** URI of the containing group, null for library sections */
+  parent: string | null;
+  /** URIs of sub-groups followed by sheets, in library order (groups only) */
+  children: string[];
+}
+
+export type LibrarySnapshot = Map<string, SnapshotEntry>;
+
+export interface LibraryChanges {
+  added: string[];
+  removed: string[];
+  renamed: string[];
+  moved: string[];
+  /** Every resource URI whose content differs from the previous snapshot */
+  updated: string[];
+}
+
+/**
+ * Flatten the library tree into entries keyed by resource URI
+ */
+export function snapshotLibrary(items: Group[]): LibrarySnapshot {
+  const snapshot: LibrarySnapshot = new Map();
+
+  const visit = (group: Group, parent: string | null) => {
+    const uri = groupUri(group.identifier);
+    const containers = group.containers ?? [];
+    const sheets = group.sheets ?? [];
+    snapshot.set(uri, {
+      title: group.title,
+      parent,
+      children: [
+        ...containers.map(container => groupUri(container.identifier)),
+        ...sheets.map(sheet => sheetUri(sheet.identifier))
+      ]
+    });
+    for (const sheet of sheets) {
+      snapshot.set(sheetUri(sheet.identifier), { title: sheet.title, parent: uri, children: [] });
+    }
+    for (const container of containers) {
+      visit(container, uri);
+    }
+  };
+
+  items.forEach(group => visit(group, null));
+  return snapshot;
+}
+
+/**
+ * Compare two snapshots of the library
+ */
+export function diffLibrary(previous: LibrarySnapshot, next: LibrarySnapshot): LibraryChanges {
+  const changes: LibraryChanges = { added: [], removed: [], renamed: [], moved: [], updated: [] };
+  const updated = new Set<string>();
+  const touch = (uri: string | null) => {
+    if (uri) {
+      updated.add(uri);
+    }
+  };
+
+  for (const [uri, entry] of next) {
+    const before = previous.get(uri);
+    if (!before) {
+      changes.added.push(uri);
+      touch(entry.parent);
+      continue;
+    }
+    if (before.title !== entry.title) {
+      changes.renamed.push(uri);
+      touch(uri);
+      touch(entry.parent);
+    }
+    if (before.parent !== entry.parent) {
+      changes.moved.push(uri);
+      touch(uri);
+      touch(before.parent);
+      touch(entry.parent);
+    }
+    if (before.children.join("\n") !== entry.children.join("\n")) {
+      // Catches reordering as well as children added, removed or moved in and out
+      touch(uri);
+    }
+  }
+
+  for (const [uri, entry] of previous) {
+    if (!next.has(uri)) {
+      changes.removed.push(uri);
+      touch(uri);
+      touch(entry.parent);
+    }
+  }
+
+  if (updated.size > 0 || changes.added.length > 0 || changes.removed.length > 0) {
+    updated.add(LIBRARY_URI);
+  }
+  changes.updated = [...updated];
+  return changes;
+}
+
+export interface LibraryWatcherOptions {
+  /** Time between two polls of the library */
+  intervalMs: number;
+  /** Fetch the full, recursive library listing */
+  fetch: (signal: AbortSignal) => Promise<Group[]>;
+  /** Called after a poll that found differences */
+  onChange: (changes: LibraryChanges) => void | Promise<void>;
+}
+
+export class LibraryWatcher {
+  private snapshot: LibrarySnapshot | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private controller: AbortController | null = null;
+  private starting: Promise<void> | null = null;
+  // Bumped by stop() so a baseline still in flight is dropped
+  private generation = 0;
+
+  constructor(private options: LibraryWatcherOptions) {}
+
+  /**
+   * Take the baseline snapshot and start polling.
+   * Rejects when the baseline cannot be fetched; the watcher then stays stopped.
+   */
+  async start(): Promise<void> {
+    if (this.isRunning()) {
+      return;
+    }
+    if (!this.starting) {
+      this.starting = this.takeBaseline().finally(() => {
+        this.starting = null;
+      });
+    }
+    return this.starting;
+  }
+
+  /**
+   * Stop polling and forget the snapshot
+   */
+  stop(): void {
+    this.generation++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.controller?.abort();
+    this.controller = null;
+    this.snapshot = null;
+  }
+
+  isRunning(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Fetch the library now and report changes since the last snapshot
+   */
+  async poll(): Promise<LibraryChanges | null> {
+    const controller = this.controller;
+    if (!controller || !this.snapshot) {
+      return null;
+    }
+
+    const next = snapshotLibrary(await this.options.fetch(controller.signal));
+    // Stopped while the listing was in flight
+    if (this.controller !== controller) {
+      return null;
+    }
+    const changes = diffLibrary(this.snapshot, next);
+    this.snapshot = next;
+    if (changes.updated.length > 0) {
+      await this.options.onChange(changes);
+    }
+    return changes;
+  }
+
+  private async takeBaseline(): Promise<void> {
+    const generation = this.generation;
+    const controller = new AbortController();
+    const snapshot = snapshotLibrary(await this.options.fetch(controller.signal));
+    if (generation !== this.generation) {
+      return;
+    }
+    this.controller = controller;
+    this.snapshot = snapshot;
+    this.schedule();
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.poll();
+      } catch (error) {
+        console.error(`Library poll failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (this.isRunning() && !this.timer) {
+        this.schedule();
+      }
+    }, this.options.intervalMs);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Tests for routing helper app callbacks to the server that made the request
+ *
+ * The helper app is stood in for by an openUrl function that looks up the
+ * callback directory the way the helper does and writes the callback file there.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { MacOSBackend, callbackRegistration, registeredCallbackDir } from './macos-backend.js';
+
+let sandbox: string;
+let registryDir: string;
+
+/**
+ * Answers each request after a delay with the directory its callback went to
+ */
+async function helper(url: string): Promise<void> {
+  const successUrl = new URL(url).searchParams.get('x-success')!;
+  const callbackId = new URL(successUrl).searchParams.get('callbackId')!;
+  const callbackDir = registeredCallbackDir(registryDir, callbackId);
+  setTimeout(() => {
+    writeFileSync(
+      join(callbackDir!, `callback-${callbackId}.json`),
+      JSON.stringify({ callbackId, isError: false, data: { callbackDir } }),
+      { mode: 0o600 }
+    );
+  }, 20);
+}
+
+function backend(name: string): MacOSBackend {
+  const tempDir = join(sandbox, name);
+  const server = new MacOSBackend({ tempDir, registryDir, openUrl: helper, callbackTimeoutMs: 2000 });
+  // The helper is running
+  writeFileSync(join(tempDir, 'helper.pid'), String(process.pid));
+  return server;
+}
+
+beforeEach(() => {
+  sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  registryDir = join(sandbox, 'helpers');
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  rmSync(sandbox, { recursive: true, force: true });
+});
+
+describe('Helper callback routing', () => {
+  it('should deliver callbacks to each of two servers with their own directories', async () => {
+    const first = backend('first');
+    const second = backend('second');
+    const request = { action: 'get-version', params: {}, needsCallback: true };
+
+    const [firstResponse, secondResponse] = await Promise.all([first.dispatch(request), second.dispatch(request)]);
+
+    expect(firstResponse).toEqual({ isError: false, data: { callbackDir: join(sandbox, 'first') } });
+    expect(secondResponse).toEqual({ isError: false, data: { callbackDir: join(sandbox, 'second') } });
+    expect(readdirSync(registryDir).sort()).toEqual([
+      `${callbackRegistration(join(sandbox, 'first')).key}.json`,
+      `${callbackRegistration(join(sandbox, 'second')).key}.json`
+    ].sort());
+  });
+
+  it('should route only callbackIds that name a registration', async () => {
+    await backend('first').dispatch({ action: 'get-version', params: {}, needsCallback: true });
+    const { key } = callbackRegistration(join(sandbox, 'first'));
+
+    expect(registeredCallbackDir(registryDir, `${key}.get-version-1`)).toBe(join(sandbox, 'first'));
+    expect(registeredCallbackDir(registryDir, `${'0'.repeat(16)}.get-version-1`)).toBeNull();
+    expect(registeredCallbackDir(registryDir, 'get-version-1')).toBeNull();
+    expect(registeredCallbackDir(registryDir, `${key}./../../elsewhere`)).toBeNull();
+  });
+});
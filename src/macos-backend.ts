@@ -0,0 +1,235 @@
+/**
+ * macOS Backend
+ *
+ * Delivers x-callback-url requests to the real Ulysses app:
+ * - Opens the URL with `open` (execFile, no shell)
+ * - Starts the helper app that receives ulysses-mcp-callback:// URLs
+ * - Registers the secure temp directory with the helper, under a key that
+ *   starts every callbackId, so servers with different directories can share
+ *   one helper
+ * - Waits for the callback file the helper writes to the secure temp directory
+ */
+
+import { execFile, spawn } from "child_process";
+import { createHash } from "crypto";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { dirname } from "path";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { CallbackResponse, UlyssesBackend, UlyssesRequest, buildUlyssesUrl } from "./backend.js";
+import { CallbackWatcher } from "./callback-watcher.js";
+import { requestCancelledError } from "./errors.js";
+import { helperRegistryDir } from "./paths.js";
+import { SecureTempFileManager, getSecureTempManager } from "./secure-temp.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const execFileAsync = promisify(execFile);
+
+const CALLBACK_TIMEOUT_MS = 30000; // 30 seconds
+const POLL_INTERVAL_MS = 100; // Check for callback files every 100ms when fs.watch is unavailable
+const SWEEP_INTERVAL_MS = 1000; // Catch callback files the directory watcher missed
+const HELPER_APP_PATH = path.join(__dirname, "..", "helper-app", "UlyssesMCPHelper.app");
+
+export interface MacOSBackendOptions {
+  /** How long to wait for Ulysses to call back (default 30s) */
+  callbackTimeoutMs?: number;
+  /** Callback file poll interval when the directory cannot be watched (default 100ms) */
+  callbackPollIntervalMs?: number;
+  /** The compiled helper app (default: helper-app/UlyssesMCPHelper.app in the package) */
+  helperAppPath?: string;
+  /** Directory of callback files (default: the secure temp directory) */
+  tempDir?: string;
+  /** Directory where the callback directory is registered with the helper app */
+  registryDir?: string;
+  /** Opens a URL (default: the open command) */
+  openUrl?: (url: string) => Promise<void>;
+}
+
+/**
+ * The registration of a callback directory with the helper app: its key
+ * starts the callbackId of every request, and the helper writes the callback
+ * file to the directory named in <key>.json in the registry directory
+ */
+export interface CallbackRegistration {
+  key: string;
+  callbackDir: string;
+}
+
+/**
+ * The registration key of a callback directory; servers sharing a directory
+ * share a key
+ */
+export function callbackRegistration(callbackDir: string): CallbackRegistration {
+  const resolved = path.resolve(callbackDir);
+  return { key: createHash("sha256").update(resolved).digest("hex").slice(0, 16), callbackDir: resolved };
+}
+
+/**
+ * The callback directory a callbackId was registered with, as the helper app
+ * looks it up, or null if there is none
+ */
+export function registeredCallbackDir(registryDir: string, callbackId: string): string | null {
+  const key = /^([0-9a-f]{16})\./.exec(callbackId)?.[1];
+  if (!key || callbackId.includes("/")) {
+    return null;
+  }
+  try {
+    const { callbackDir } = JSON.parse(fs.readFileSync(path.join(registryDir, `${key}.json`), "utf8"));
+    return typeof callbackDir === "string" && path.isAbsolute(callbackDir) ? callbackDir : null;
+  } catch {
+    return null;
+  }
+}
+
+async function openWithOpenCommand(url: string): Promise<void> {
+  // execFile instead of exec prevents shell injection
+  await execFileAsync("open", [url]);
+}
+
+export class MacOSBackend implements UlyssesBackend {
+  readonly name = "macos";
+  private secureTempManager: SecureTempFileManager;
+  private callbackWatcher: CallbackWatcher;
+  private helperAppPath: string;
+  private registryDir: string;
+  private registration: CallbackRegistration;
+  private openUrl: (url: string) => Promise<void>;
+
+  constructor(options: MacOSBackendOptions = {}) {
+    // Its own manager for a given directory, so backends can use different ones
+    this.secureTempManager = options.tempDir ? new SecureTempFileManager(options.tempDir) : getSecureTempManager();
+    this.helperAppPath = options.helperAppPath ?? HELPER_APP_PATH;
+    this.registryDir = options.registryDir ?? helperRegistryDir();
+    this.registration = callbackRegistration(this.secureTempManager.getTempDir());
+    this.openUrl = options.openUrl ?? openWithOpenCommand;
+    this.callbackWatcher = new CallbackWatcher(this.secureTempManager, {
+      timeoutMs: options.callbackTimeoutMs ?? CALLBACK_TIMEOUT_MS,
+      pollIntervalMs: options.callbackPollIntervalMs ?? POLL_INTERVAL_MS,
+      sweepIntervalMs: SWEEP_INTERVAL_MS
+    });
+  }
+
+  /**
+   * Opens the x-callback-url and, for callback actions, waits for Ulysses to respond
+   * Uses execFile to prevent command injection vulnerabilities
+   */
+  async dispatch(request: UlyssesRequest, signal?: AbortSignal): Promise<CallbackResponse | null> {
+    const { action, params, needsCallback } = request;
+    let url: string;
+    let callbackPromise: Promise<CallbackResponse> | null = null;
+
+    if (needsCallback) {
+      // Ensure helper app is running
+      await this.ensureHelperAppRunning();
+
+      // Nothing has been sent to Ulysses yet, so a cancelled request can stop here
+      if (signal?.aborted) {
+        throw requestCancelledError(action);
+      }
+
+      // Create callback and wait for response via file-based IPC
+      const callbackId = `${this.registration.key}.${action}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      callbackPromise = this.callbackWatcher.wait(action, callbackId, signal);
+      url = buildUlyssesUrl(action, params, callbackId);
+    } else {
+      // No callback needed for this action
+      url = buildUlyssesUrl(action, params);
+    }
+
+    try {
+      await this.openUrl(url);
+    } catch (error) {
+      // Nobody will collect the callback promise
+      callbackPromise?.catch(() => undefined);
+      throw error;
+    }
+
+    return callbackPromise ? await callbackPromise : null;
+  }
+
+  /**
+   * Ensure the helper app is running
+   */
+  private async ensureHelperAppRunning(): Promise<void> {
+    try {
+      // Written for every request, in case the registry was cleaned up
+      this.registerCallbackDir();
+
+      const helperPidPath = this.secureTempManager.getHelperPidPath();
+
+      // Check if helper app is already running
+      if (fs.existsSync(helperPidPath)) {
+        const pid = parseInt(fs.readFileSync(helperPidPath, 'utf8').trim());
+        try {
+          // Check if process is still running
+          process.kill(pid, 0);
+          console.error(`Helper app already running with PID ${pid}`);
+          return;
+        } catch (e) {
+          // Process not running, clean up stale PID file
+          this.secureTempManager.deleteSecure(helperPidPath);
+        }
+      }
+
+      // Start the helper app
+      console.error('Starting Ulysses MCP Helper app...');
+
+      // Check if compiled app exists
+      if (fs.existsSync(this.helperAppPath)) {
+        spawn('open', ['-a', this.helperAppPath], {
+          detached: true,
+          stdio: 'ignore'
+        }).unref();
+      } else {
+        // Fall back to running the Swift file directly (for development)
+        const swiftPath = path.join(__dirname, "..", "helper-app", "UlyssesMCPHelper.swift");
+        if (fs.existsSync(swiftPath)) {
+          console.error('Compiled app not found, running Swift file directly...');
+          spawn('swift', [swiftPath], {
+            detached: true,
+            stdio: 'ignore'
+          }).unref();
+        } else {
+          throw new Error(`Helper app not found at ${this.helperAppPath} or ${swiftPath}`);
+        }
+      }
+
+      // Wait for helper app to start and create PID file
+      let attempts = 0;
+      while (attempts < 50) { // 5 seconds max
+        if (fs.existsSync(helperPidPath)) {
+          const pid = parseInt(fs.readFileSync(helperPidPath, 'utf8').trim());
+          console.error(`Helper app started with PID ${pid}`);
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, 100));
+        attempts++;
+      }
+
+      throw new Error('Helper app failed to start within timeout period');
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to start helper app: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Tell the helper app where to write the callback files of this server's
+   * requests. Each callback directory has its own file, so servers never
+   * overwrite each other's registration; it is written to a temporary file
+   * and renamed, so the helper never reads half of it.
+   */
+  private registerCallbackDir(): void {
+    const registrationPath = path.join(this.registryDir, `${this.registration.key}.json`);
+    const partialPath = `${registrationPath}.${process.pid}.tmp`;
+    fs.mkdirSync(this.registryDir, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(partialPath, JSON.stringify({ callbackDir: this.registration.callbackDir }), { mode: 0o600 });
+    fs.renameSync(partialPath, registrationPath);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for parsing Ulysses callback payloads into typed models
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { hasPayloadModel, parseCallbackPayload } from './models.js';
+
+const SHEET = {
+  type: 'sheet',
+  identifier: 's1',
+  title: 'Intro',
+  titleType: 'heading1',
+  keywords: [{ title: 'Draft' }],
+  notes: [{ index: 0, format: 'markdown', text: 'Check tone' }],
+  attachments: [{ type: 'image', filename: 'cover.png', format: 'png', size: 1024 }],
+  material: false,
+  text: '# Intro'
+};
+
+function parseError(run: () => unknown): McpError {
+  try {
+    run();
+  } catch (error) {
+    return error as McpError;
+  }
+  throw new Error('Expected a parse error');
+}
+
+describe('parseCallbackPayload', () => {
+  it('should parse a sheet with all details', () => {
+    const { sheet } = parseCallbackPayload('read-sheet', { sheet: JSON.stringify(SHEET) });
+    expect(sheet).toEqual(SHEET);
+  });
+
+  it('should default missing keywords and drop unknown fields', () => {
+    const { sheet } = parseCallbackPayload('read-sheet', {
+      sheet: JSON.stringify({ type: 'sheet', identifier: 's1', title: 'Intro', color: 'red' })
+    });
+    expect(sheet).toEqual({ type: 'sheet', identifier: 's1', title: 'Intro', keywords: [] });
+  });
+
+  it('should parse nested root groups', () => {
+    const items = [{
+      type: 'group',
+      identifier: 'g1',
+      title: 'iCloud',
+      containers: [{ type: 'group', identifier: 'g2', title: 'Inbox' }],
+      sheets: [{ type: 'sheet', identifier: 's1', title: 'Intro', keywords: [] }]
+    }];
+    const payload = parseCallbackPayload('get-root-items', { items: JSON.stringify(items) });
+    expect(payload.items[0].containers?.[0]).toEqual({ type: 'group', identifier: 'g2', title: 'Inbox' });
+    expect(payload.items[0].sheets?.[0].title).toBe('Intro');
+  });
+
+  it('should parse either a group or a sheet as an item', () => {
+    expect(parseCallbackPayload('get-item', { item: JSON.stringify(SHEET) }).item.type).toBe('sheet');
+    expect(parseCallbackPayload('get-item', {
+      item: JSON.stringify({ type: 'group', identifier: 'g1', title: 'Novel' })
+    }).item.type).toBe('group');
+  });
+
+  it('should parse the version', () => {
+    expect(parseCallbackPayload('get-version', { apiVersion: '3', buildNumber: '34400' }))
+      .toEqual({ apiVersion: '3', buildNumber: '34400' });
+  });
+
+  it('should reject embedded JSON that does not parse', () => {
+    const error = parseError(() => parseCallbackPayload('get-root-items', { items: '[{' }));
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain('get-root-items returned a malformed payload: items is not valid JSON');
+    expect(error.data).toMatchObject({ reason: 'malformed_payload', action: 'get-root-items' });
+  });
+
+  it('should name the offending field', () => {
+    const items = [{ type: 'group', identifier: 'g1', title: 'iCloud', sheets: [{ type: 'sheet', identifier: 7, title: 'x' }] }];
+    expect(parseError(() => parseCallbackPayload('get-root-items', { items: JSON.stringify(items) })).message)
+      .toContain('items[0].sheets[0].identifier must be a string');
+  });
+
+  it('should reject a missing payload key', () => {
+    expect(parseError(() => parseCallbackPayload('read-sheet', {})).message).toContain('sheet must be a string');
+    expect(parseError(() => parseCallbackPayload('get-version', { apiVersion: '3' })).message)
+      .toContain('buildNumber must be a string');
+  });
+
+  it('should reject an item of unknown type', () => {
+    expect(parseError(() => parseCallbackPayload('get-item', { item: JSON.stringify({ type: 'folder' }) })).message)
+      .toContain('item.type must be "group" or "sheet"');
+  });
+});
+
+describe('hasPayloadModel', () => {
+  it('should cover the read actions only', () => {
+    expect(hasPayloadModel('read-sheet')).toBe(true);
+    expect(hasPayloadModel('get-version')).toBe(true);
+    expect(hasPayloadModel('authorize')).toBe(false);
+    expect(hasPayloadModel('toString')).toBe(false);
+  });
+});
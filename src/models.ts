@@ -0,0 +1,268 @@
+/**
+ * Ulysses Library Models
+ *
+ * Typed shapes of the data Ulysses returns through x-success, and parsers that
+ * validate the raw callback payload (a string map with nested JSON strings)
+ * into them:
+ * - read-sheet     -> { sheet: Sheet }
+ * - get-item       -> { item: Group | Sheet }
+ * - get-root-items -> { items: Group[] }
+ * - get-version    -> Version
+ */
+
+import { malformedPayloadError } from "./errors.js";
+
+export interface Keyword {
+  title: string;
+}
+
+export interface Note {
+  /** Position of the note on its sheet (used by update-note and remove-note) */
+  index?: number;
+  format?: string;
+  text: string;
+}
+
+export interface Attachment {
+  /** Attachment kind, e.g. "image" */
+  type: string;
+  filename?: string;
+  format?: string;
+  size?: number;
+}
+
+export interface Sheet {
+  type: "sheet";
+  identifier: string;
+  title: string;
+  titleType?: string;
+  keywords: Keyword[];
+  /** Only present when the sheet was read with read-sheet */
+  notes?: Note[];
+  attachments?: Attachment[];
+  material?: boolean;
+  /** Only present when the text was requested */
+  text?: string;
+}
+
+export interface Group {
+  type: "group";
+  identifier: string;
+  title: string;
+  /** Omitted for groups listed without their contents */
+  containers?: Group[];
+  sheets?: Sheet[];
+}
+
+export type Item = Group | Sheet;
+
+export interface Version {
+  apiVersion: string;
+  buildNumber: string;
+}
+
+export interface SheetPayload {
+  sheet: Sheet;
+}
+
+export interface ItemPayload {
+  item: Item;
+}
+
+export interface RootItemsPayload {
+  items: Group[];
+}
+
+/**
+ * Parsed x-success payload for each read action
+ */
+export interface CallbackPayloads {
+  "read-sheet": SheetPayload;
+  "get-item": ItemPayload;
+  "get-root-items": RootItemsPayload;
+  "get-version": Version;
+}
+
+export type PayloadAction = keyof CallbackPayloads;
+
+/**
+ * Raised while walking a payload; carries the path of the offending field
+ */
+class PayloadError extends Error {}
+
+type Json = Record<string, unknown>;
+
+function fail(path: string, expected: string): never {
+  throw new PayloadError(`${path} must be ${expected}`);
+}
+
+function object(value: unknown, path: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(path, "an object");
+  }
+  return value as Json;
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    fail(path, "an array");
+  }
+  return value;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    fail(path, "a string");
+  }
+  return value;
+}
+
+function optional<T>(value: unknown, path: string, parse: (value: unknown, path: string) => T): T | undefined {
+  return value === undefined || value === null ? undefined : parse(value, path);
+}
+
+function list<T>(value: unknown, path: string, parse: (value: unknown, path: string) => T): T[] {
+  return array(value, path).map((entry, index) => parse(entry, `${path}[${index}]`));
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(path, "a number");
+  }
+  return value;
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    fail(path, "a boolean");
+  }
+  return value;
+}
+
+/**
+ * Nested items arrive as JSON encoded strings inside the string map
+ */
+function embeddedJson(data: Record<string, string>, key: string): unknown {
+  const raw = string(data[key], key);
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new PayloadError(`${key} is not valid JSON`);
+  }
+}
+
+function parseKeyword(value: unknown, path: string): Keyword {
+  const json = object(value, path);
+  return { title: string(json.title, `${path}.title`) };
+}
+
+function parseNote(value: unknown, path: string): Note {
+  const json = object(value, path);
+  const note: Note = { text: string(json.text, `${path}.text`) };
+  const index = optional(json.index, `${path}.index`, number);
+  const format = optional(json.format, `${path}.format`, string);
+  if (index !== undefined) note.index = index;
+  if (format !== undefined) note.format = format;
+  return note;
+}
+
+function parseAttachment(value: unknown, path: string): Attachment {
+  const json = object(value, path);
+  const attachment: Attachment = { type: string(json.type, `${path}.type`) };
+  const filename = optional(json.filename, `${path}.filename`, string);
+  const format = optional(json.format, `${path}.format`, string);
+  const size = optional(json.size, `${path}.size`, number);
+  if (filename !== undefined) attachment.filename = filename;
+  if (format !== undefined) attachment.format = format;
+  if (size !== undefined) attachment.size = size;
+  return attachment;
+}
+
+function parseSheet(value: unknown, path: string): Sheet {
+  const json = object(value, path);
+  if (json.type !== "sheet") {
+    fail(`${path}.type`, '"sheet"');
+  }
+
+  const sheet: Sheet = {
+    type: "sheet",
+    identifier: string(json.identifier, `${path}.identifier`),
+    title: string(json.title, `${path}.title`),
+    keywords: optional(json.keywords, `${path}.keywords`, (v, p) => list(v, p, parseKeyword)) ?? []
+  };
+  const titleType = optional(json.titleType, `${path}.titleType`, string);
+  const notes = optional(json.notes, `${path}.notes`, (v, p) => list(v, p, parseNote));
+  const attachments = optional(json.attachments, `${path}.attachments`, (v, p) => list(v, p, parseAttachment));
+  const material = optional(json.material, `${path}.material`, boolean);
+  const text = optional(json.text, `${path}.text`, string);
+  if (titleType !== undefined) sheet.titleType = titleType;
+  if (notes !== undefined) sheet.notes = notes;
+  if (attachments !== undefined) sheet.attachments = attachments;
+  if (material !== undefined) sheet.material = material;
+  if (text !== undefined) sheet.text = text;
+  return sheet;
+}
+
+function parseGroup(value: unknown, path: string): Group {
+  const json = object(value, path);
+  if (json.type !== "group") {
+    fail(`${path}.type`, '"group"');
+  }
+
+  const group: Group = {
+    type: "group",
+    identifier: string(json.identifier, `${path}.identifier`),
+    title: string(json.title, `${path}.title`)
+  };
+  const containers = optional(json.containers, `${path}.containers`, (v, p) => list(v, p, parseGroup));
+  const sheets = optional(json.sheets, `${path}.sheets`, (v, p) => list(v, p, parseSheet));
+  if (containers !== undefined) group.containers = containers;
+  if (sheets !== undefined) group.sheets = sheets;
+  return group;
+}
+
+function parseItem(value: unknown, path: string): Item {
+  const type = object(value, path).type;
+  if (type === "sheet") {
+    return parseSheet(value, path);
+  }
+  if (type === "group") {
+    return parseGroup(value, path);
+  }
+  return fail(`${path}.type`, '"group" or "sheet"');
+}
+
+const PARSERS: { [A in PayloadAction]: (data: Record<string, string>) => CallbackPayloads[A] } = {
+  "read-sheet": (data) => ({ sheet: parseSheet(embeddedJson(data, "sheet"), "sheet") }),
+  "get-item": (data) => ({ item: parseItem(embeddedJson(data, "item"), "item") }),
+  "get-root-items": (data) => ({ items: list(embeddedJson(data, "items"), "items", parseGroup) }),
+  "get-version": (data) => ({
+    apiVersion: string(data.apiVersion, "apiVersion"),
+    buildNumber: string(data.buildNumber, "buildNumber")
+  })
+};
+
+/**
+ * Whether an action's x-success payload has a typed model
+ */
+export function hasPayloadModel(action: string): action is PayloadAction {
+  return Object.prototype.hasOwnProperty.call(PARSERS, action);
+}
+
+/**
+ * Parse and validate the x-success payload of a read action.
+ * Throws an McpError with reason "malformed_payload" naming the offending field.
+ */
+export function parseCallbackPayload<A extends PayloadAction>(
+  action: A,
+  data: Record<string, string>
+): CallbackPayloads[A] {
+  try {
+    return PARSERS[action](data);
+  } catch (error) {
+    if (error instanceof PayloadError) {
+      throw malformedPayloadError(action, error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for resolving the base directories
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { helperRegistryDir, resolveBaseDirectories } from './paths.js';
+
+const HOME = '/home/writer';
+
+describe('resolveBaseDirectories', () => {
+  it('should keep everything in Application Support on macOS', () => {
+    const base = '/Users/writer/Library/Application Support/ulysses-mcp';
+    expect(resolveBaseDirectories({ XDG_STATE_HOME: '/xdg/state' }, 'darwin', '/Users/writer')).toEqual({
+      configDir: base,
+      stateDir: base,
+      runtimeDir: `${base}/tmp`
+    });
+  });
+
+  it('should use the XDG base directories on Linux', () => {
+    expect(resolveBaseDirectories({
+      XDG_CONFIG_HOME: '/xdg/config',
+      XDG_STATE_HOME: '/xdg/state',
+      XDG_RUNTIME_DIR: '/run/user/1000'
+    }, 'linux', HOME)).toEqual({
+      configDir: '/xdg/config/ulysses-mcp',
+      stateDir: '/xdg/state/ulysses-mcp',
+      runtimeDir: '/run/user/1000/ulysses-mcp'
+    });
+  });
+
+  it('should fall back to the XDG defaults for unset or relative variables', () => {
+    expect(resolveBaseDirectories({ XDG_STATE_HOME: 'state', XDG_RUNTIME_DIR: '' }, 'linux', HOME)).toEqual({
+      configDir: `${HOME}/.config/ulysses-mcp`,
+      stateDir: `${HOME}/.local/state/ulysses-mcp`,
+      runtimeDir: `${HOME}/.local/state/ulysses-mcp/tmp`
+    });
+  });
+
+  it('should put everything under an explicit base directory', () => {
+    for (const platform of ['darwin', 'linux'] as const) {
+      expect(resolveBaseDirectories({ ULYSSES_MCP_HOME: '/sandbox', XDG_RUNTIME_DIR: '/run/user/1000' }, platform, HOME)).toEqual({
+        configDir: '/sandbox',
+        stateDir: '/sandbox',
+        runtimeDir: '/sandbox/tmp'
+      });
+    }
+  });
+});
+
+describe('helperRegistryDir', () => {
+  it('should be at the fixed macOS location', () => {
+    expect(helperRegistryDir('/Users/writer')).toBe('/Users/writer/Library/Application Support/ulysses-mcp/helpers');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Base Directories
+ *
+ * Where the server keeps its files:
+ * - ULYSSES_MCP_HOME, when set, holds all of them (callback files in tmp/)
+ * - on macOS, ~/Library/Application Support/ulysses-mcp
+ * - elsewhere, the XDG base directories: config.json and the token store in
+ *   $XDG_CONFIG_HOME/ulysses-mcp, the audit log in $XDG_STATE_HOME/ulysses-mcp
+ *   and callback files in $XDG_RUNTIME_DIR/ulysses-mcp, or in the state
+ *   directory's tmp/ when no runtime directory is set
+ *
+ * The helper app only runs on macOS and cannot see the server's environment,
+ * so each server registers its callback directory in a registry directory at
+ * a fixed location that the helper reads.
+ */
+
+import { homedir } from "os";
+import { isAbsolute, join, resolve } from "path";
+
+const APP_DIR = "ulysses-mcp";
+
+export interface BaseDirectories {
+  /** config.json and the encrypted access token */
+  configDir: string;
+  /** The audit log and its rotated files */
+  stateDir: string;
+  /** Callback files and the helper PID file */
+  runtimeDir: string;
+}
+
+/**
+ * An XDG directory variable, or the fallback when it is unset or relative,
+ * which the XDG specification says to ignore
+ */
+function xdgDir(value: string | undefined, fallback: string): string {
+  return value && isAbsolute(value) ? value : fallback;
+}
+
+/**
+ * Resolve the base directories for an environment and platform
+ */
+export function resolveBaseDirectories(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform,
+  home: string = homedir()
+): BaseDirectories {
+  const base = env.ULYSSES_MCP_HOME
+    ? resolve(env.ULYSSES_MCP_HOME)
+    : platform === "darwin" ? join(home, "Library/Application Support", APP_DIR) : undefined;
+  if (base) {
+    return { configDir: base, stateDir: base, runtimeDir: join(base, "tmp") };
+  }
+
+  const stateDir = join(xdgDir(env.XDG_STATE_HOME, join(home, ".local/state")), APP_DIR);
+  return {
+    configDir: join(xdgDir(env.XDG_CONFIG_HOME, join(home, ".config")), APP_DIR),
+    stateDir,
+    runtimeDir: env.XDG_RUNTIME_DIR && isAbsolute(env.XDG_RUNTIME_DIR)
+      ? join(env.XDG_RUNTIME_DIR, APP_DIR)
+      : join(stateDir, "tmp")
+  };
+}
+
+// The directories of this process, used by modules that are given none
+export const BASE_DIRECTORIES = resolveBaseDirectories();
+
+/**
+ * The directory where servers register their callback directories with the
+ * helper app; it does not move with ULYSSES_MCP_HOME, since the helper has to
+ * find it
+ */
+export function helperRegistryDir(home: string = homedir()): string {
+  return join(home, "Library/Application Support", APP_DIR, "helpers");
+}
@@ -0,0 +1,210 @@
+/**
+ * Tests for the permission policy: tool rules, write scopes and session-only trash
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Group } from './models.js';
+import { PermissionPolicy, PolicyContext, PolicyRules, loadPolicy, parsePolicy } from './policy.js';
+
+const LIBRARY: Group[] = [
+  {
+    type: 'group',
+    identifier: 'icloud',
+    title: 'iCloud',
+    containers: [
+      {
+        type: 'group',
+        identifier: 'inbox',
+        title: 'Inbox',
+        containers: [{ type: 'group', identifier: 'ideas', title: 'Ideas' }],
+        sheets: [{ type: 'sheet', identifier: 'todo', title: 'Todo', keywords: [] }]
+      },
+      {
+        type: 'group',
+        identifier: 'novel',
+        title: 'Novel',
+        containers: [{ type: 'group', identifier: 'novel-ideas', title: 'Ideas' }],
+        sheets: [{ type: 'sheet', identifier: 'intro', title: 'Intro', keywords: [] }]
+      }
+    ]
+  },
+  { type: 'group', identifier: 'mac', title: 'On My Mac' }
+];
+
+function context(created: string[] = [], library: Group[] = LIBRARY): PolicyContext & { fetches: number } {
+  const ctx = {
+    fetches: 0,
+    library: async () => {
+      ctx.fetches++;
+      return library;
+    },
+    createdInSession: (id: string) => created.includes(id)
+  };
+  return ctx;
+}
+
+function check(rules: PolicyRules, tool: string, args: Record<string, unknown> = {}, created: string[] = []) {
+  return new PermissionPolicy(rules).check(tool, args, context(created));
+}
+
+describe('parsePolicy', () => {
+  it('should accept a complete policy', () => {
+    expect(parsePolicy({
+      tools: { deny: ['ulysses_trash'] },
+      writes: { paths: ['iCloud/Inbox'] },
+      trash: { sessionItemsOnly: true }
+    })).toEqual({
+      tools: { allow: undefined, deny: ['ulysses_trash'] },
+      writes: { groups: undefined, paths: ['iCloud/Inbox'] },
+      trash: { sessionItemsOnly: true }
+    });
+  });
+
+  it('should reject unknown settings and tool names', () => {
+    expect(() => parsePolicy({ tool: {} })).toThrow('tool is not a policy setting');
+    expect(() => parsePolicy({ writes: { folders: [] } })).toThrow('writes.folders is not a policy setting');
+    expect(() => parsePolicy({ tools: { allow: ['ulysses_delete'] } })).toThrow('tools.allow[0] is not a known tool: ulysses_delete');
+    expect(() => parsePolicy({ writes: { groups: 'inbox' } })).toThrow('writes.groups must be an array of strings');
+    expect(() => parsePolicy({ trash: { sessionItemsOnly: 'yes' } })).toThrow('trash.sessionItemsOnly must be true or false');
+  });
+});
+
+describe('loadPolicy', () => {
+  let sandbox: string;
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should name the file when it is invalid', () => {
+    const file = join(sandbox, 'policy.json');
+    writeFileSync(file, '{ "tools": ');
+    expect(() => loadPolicy(file)).toThrow(`Invalid policy file ${file}`);
+  });
+
+  it('should load a valid file', async () => {
+    const file = join(sandbox, 'policy.json');
+    writeFileSync(file, JSON.stringify({ tools: { deny: ['ulysses_trash'] } }));
+    const decision = await loadPolicy(file).check('ulysses_trash', { id: 'todo' }, context());
+    expect(decision).toMatchObject({ allowed: false, rule: 'tools.deny' });
+  });
+});
+
+describe('PermissionPolicy', () => {
+  describe('tool rules', () => {
+    it('should allow everything without rules', async () => {
+      expect(await check({}, 'ulysses_trash', { id: 'intro' })).toEqual({ allowed: true });
+    });
+
+    it('should only allow listed tools', async () => {
+      const rules = { tools: { allow: ['ulysses_read_sheet'] } };
+      expect(await check(rules, 'ulysses_read_sheet', { id: 'intro' })).toEqual({ allowed: true });
+      expect(await check(rules, 'ulysses_insert', { id: 'intro', text: 'x' })).toMatchObject({ allowed: false, rule: 'tools.allow' });
+    });
+
+    it('should let deny win over allow', async () => {
+      const rules = { tools: { allow: ['ulysses_trash'], deny: ['ulysses_trash'] } };
+      expect(await check(rules, 'ulysses_trash', { id: 'intro' })).toMatchObject({ allowed: false, rule: 'tools.deny' });
+    });
+  });
+
+  describe('write scope', () => {
+    const inboxOnly = { writes: { paths: ['iCloud/Inbox'] } };
+
+    it('should allow changes to items inside a writable group', async () => {
+      expect(await check(inboxOnly, 'ulysses_insert', { id: 'todo', text: 'x' })).toEqual({ allowed: true });
+      expect(await check({ writes: { groups: ['inbox'] } }, 'ulysses_set_group_title', { group: 'ideas', title: 'x' }))
+        .toEqual({ allowed: true });
+    });
+
+    it('should deny changes to items outside the writable groups', async () => {
+      expect(await check(inboxOnly, 'ulysses_insert', { id: 'intro', text: 'x' })).toMatchObject({
+        allowed: false,
+        rule: 'writes',
+        reason: 'id intro is outside the groups the policy allows writing to'
+      });
+    });
+
+    it('should allow adding to a writable group but not renaming it', async () => {
+      expect(await check(inboxOnly, 'ulysses_new_group', { name: 'x', parent: 'inbox' })).toEqual({ allowed: true });
+      expect(await check(inboxOnly, 'ulysses_set_group_title', { group: 'inbox', title: 'x' }))
+        .toMatchObject({ allowed: false, rule: 'writes' });
+    });
+
+    it('should check both ends of a move', async () => {
+      expect(await check(inboxOnly, 'ulysses_move', { id: 'todo', targetGroup: 'ideas' })).toEqual({ allowed: true });
+      expect(await check(inboxOnly, 'ulysses_move', { id: 'todo', targetGroup: 'novel' }))
+        .toMatchObject({ allowed: false, reason: 'targetGroup novel is outside the groups the policy allows writing to' });
+      expect(await check(inboxOnly, 'ulysses_move', { id: 'intro', targetGroup: 'inbox' }))
+        .toMatchObject({ allowed: false, reason: 'id intro is outside the groups the policy allows writing to' });
+    });
+
+    it('should resolve the default location of new sheets and groups', async () => {
+      expect(await check(inboxOnly, 'ulysses_new_sheet', { text: 'x' })).toEqual({ allowed: true });
+      expect(await check(inboxOnly, 'ulysses_new_group', { name: 'x' })).toMatchObject({
+        allowed: false,
+        reason: 'the default parent (iCloud) is outside the groups the policy allows writing to'
+      });
+    });
+
+    it('should resolve group paths and names like Ulysses', async () => {
+      expect(await check(inboxOnly, 'ulysses_new_sheet', { text: 'x', group: '/Inbox/Ideas' })).toEqual({ allowed: true });
+      expect(await check(inboxOnly, 'ulysses_new_sheet', { text: 'x', group: '/iCloud/Novel' }))
+        .toMatchObject({ allowed: false });
+    });
+
+    it('should deny a name that also matches a group outside the scope', async () => {
+      expect(await check(inboxOnly, 'ulysses_new_sheet', { text: 'x', group: 'Ideas' }))
+        .toMatchObject({ allowed: false, reason: 'group Ideas is outside the groups the policy allows writing to' });
+    });
+
+    it('should read the listing once per check and deny an unknown item', async () => {
+      const ctx = context();
+      const decision = await new PermissionPolicy(inboxOnly).check('ulysses_insert', { id: 'missing', text: 'x' }, ctx);
+      expect(decision).toMatchObject({ allowed: false, rule: 'writes' });
+      expect(ctx.fetches).toBe(1);
+    });
+
+    it('should deny a write when the library cannot be listed', async () => {
+      const decision = await new PermissionPolicy(inboxOnly).check('ulysses_insert', { id: 'todo', text: 'x' }, {
+        library: async () => { throw new Error('no access token is available'); },
+        createdInSession: () => false
+      });
+      expect(decision).toEqual({
+        allowed: false,
+        rule: 'writes',
+        reason: 'ulysses_insert could not be checked against the groups the policy allows writing to, because the library could not be listed: no access token is available'
+      });
+    });
+
+    it('should deny every write when no groups are writable', async () => {
+      expect(await check({ writes: {} }, 'ulysses_new_sheet', { text: 'x' })).toMatchObject({ allowed: false });
+    });
+
+    it('should not look at the library for reads', async () => {
+      const ctx = context();
+      expect(await new PermissionPolicy(inboxOnly).check('ulysses_read_sheet', { id: 'intro' }, ctx)).toEqual({ allowed: true });
+      expect(ctx.fetches).toBe(0);
+    });
+  });
+
+  describe('session-only trash', () => {
+    const rules = { trash: { sessionItemsOnly: true } };
+
+    it('should allow trashing items created in this session', async () => {
+      expect(await check(rules, 'ulysses_trash', { id: 'todo' }, ['todo'])).toEqual({ allowed: true });
+    });
+
+    it('should deny trashing other items', async () => {
+      expect(await check(rules, 'ulysses_trash', { id: 'intro' }, ['todo']))
+        .toMatchObject({ allowed: false, rule: 'trash.sessionItemsOnly' });
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Permission Policy
+ *
+ * A declarative policy file (ULYSSES_MCP_POLICY) checked before every tool call:
+ * - tools.allow / tools.deny decide which tools may be called at all
+ * - writes.groups / writes.paths confine tools that change the library to
+ *   the listed groups, by identifier or by title path (e.g. "iCloud/Inbox")
+ * - trash.sessionItemsOnly limits ulysses_trash to items created in this session
+ *
+ * Group references are resolved the way Ulysses resolves them (identifier,
+ * /path or name); a reference that could mean several groups is allowed only
+ * if all of them are in scope. Scope is checked against a fresh listing, so an
+ * item moved out of scope a moment ago is denied, and a write is denied when
+ * the library cannot be listed.
+ */
+
+import { readFileSync } from "fs";
+import { Group, Item } from "./models.js";
+import { TOOLS } from "./tools.js";
+
+export interface PolicyRules {
+  tools?: {
+    /** Only these tools may be called (all tools when omitted) */
+    allow?: string[];
+    /** These tools may never be called; wins over allow */
+    deny?: string[];
+  };
+  writes?: {
+    /** Identifiers of groups that tools may change */
+    groups?: string[];
+    /** Title paths of groups that tools may change, starting with the library section */
+    paths?: string[];
+  };
+  trash?: {
+    /** Only trash sheets and groups created by a tool call in this session */
+    sessionItemsOnly?: boolean;
+  };
+}
+
+export type PolicyDecision =
+  | { allowed: true }
+  | { allowed: false; rule: string; reason: string };
+
+/**
+ * Session state and library access a policy check needs
+ */
+export interface PolicyContext {
+  /** The full, recursive library listing, read from Ulysses rather than a cache */
+  library(): Promise<Group[]>;
+  /** Whether an item was created by a tool call in this session */
+  createdInSession(id: string): boolean;
+}
+
+/**
+ * Where a write lands: an existing item it changes, or a group it adds to
+ */
+type WriteTarget =
+  | { role: "item" | "destination"; argument: string; ref: string }
+  | { role: "destination"; argument: string; ref: "inbox" | "library-section"; implicit: true };
+
+interface Location {
+  item: Item;
+  /** Groups from the library section down to, but not including, the item */
+  ancestors: Group[];
+}
+
+const TOOL_NAMES = new Set(TOOLS.map(tool => tool.name));
+
+class PolicyFileError extends Error {}
+
+function stringList(value: unknown, path: string, tools = false): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new PolicyFileError(`${path} must be an array of strings`);
+  }
+  return value.map((entry, index) => {
+    if (typeof entry !== "string" || entry.trim() === "") {
+      throw new PolicyFileError(`${path}[${index}] must be a non-empty string`);
+    }
+    if (tools && !TOOL_NAMES.has(entry)) {
+      throw new PolicyFileError(`${path}[${index}] is not a known tool: ${entry}`);
+    }
+    return entry;
+  });
+}
+
+function section(value: unknown, path: string, keys: string[]): Record<string, unknown> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new PolicyFileError(`${path} must be an object`);
+  }
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) {
+      throw new PolicyFileError(`${path ? `${path}.` : ""}${key} is not a policy setting`);
+    }
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Validate parsed policy JSON, rejecting unknown settings and tool names
+ */
+export function parsePolicy(json: unknown): PolicyRules {
+  const root = section(json, "", ["tools", "writes", "trash"]) ?? {};
+  const tools = section(root.tools, "tools", ["allow", "deny"]);
+  const writes = section(root.writes, "writes", ["groups", "paths"]);
+  const trash = section(root.trash, "trash", ["sessionItemsOnly"]);
+
+  const rules: PolicyRules = {};
+  if (tools) {
+    rules.tools = {
+      allow: stringList(tools.allow, "tools.allow", true),
+      deny: stringList(tools.deny, "tools.deny", true)
+    };
+  }
+  if (writes) {
+    rules.writes = {
+      groups: stringList(writes.groups, "writes.groups"),
+      paths: stringList(writes.paths, "writes.paths")
+    };
+  }
+  if (trash) {
+    if (trash.sessionItemsOnly !== undefined && typeof trash.sessionItemsOnly !== "boolean") {
+      throw new PolicyFileError("trash.sessionItemsOnly must be true or false");
+    }
+    rules.trash = { sessionItemsOnly: trash.sessionItemsOnly as boolean | undefined };
+  }
+  return rules;
+}
+
+/**
+ * Read and validate a policy file
+ */
+export function loadPolicy(filePath: string): PermissionPolicy {
+  try {
+    return new PermissionPolicy(parsePolicy(JSON.parse(readFileSync(filePath, "utf8"))));
+  } catch (error) {
+    throw new Error(`Invalid policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function pathSegments(path: string): string[] {
+  return path.split("/").filter(Boolean);
+}
+
+function sameTitles(groups: Group[], segments: string[]): boolean {
+  return groups.length === segments.length && groups.every((group, index) => group.title === segments[index]);
+}
+
+/**
+ * The items a write tool changes or adds to, from its arguments
+ */
+function writeTargets(tool: string, args: Record<string, unknown>): WriteTarget[] | null {
+  const ref = (argument: string) => (args[argument] === undefined || args[argument] === null ? "" : String(args[argument]));
+  const item = (argument: string): WriteTarget[] => (ref(argument) ? [{ role: "item", argument, ref: ref(argument) }] : []);
+  const destination = (argument: string): WriteTarget[] =>
+    (ref(argument) ? [{ role: "destination", argument, ref: ref(argument) }] : []);
+
+  switch (tool) {
+    case "ulysses_new_sheet":
+      // Without a group Ulysses adds the sheet to the Inbox
+      return ref("group") ? destination("group") : [{ role: "destination", argument: "group", ref: "inbox", implicit: true }];
+    case "ulysses_new_group":
+      return ref("parent")
+        ? destination("parent")
+        : [{ role: "destination", argument: "parent", ref: "library-section", implicit: true }];
+    case "ulysses_insert":
+    case "ulysses_attach_note":
+    case "ulysses_attach_keywords":
+    case "ulysses_attach_image":
+    case "ulysses_remove_keywords":
+    case "ulysses_update_note":
+    case "ulysses_remove_note":
+    case "ulysses_trash":
+      return item("id");
+    case "ulysses_move":
+      return [...item("id"), ...destination("targetGroup")];
+    case "ulysses_copy":
+      // Without a target group the copy is placed next to the original
+      return ref("targetGroup") ? destination("targetGroup") : item("id");
+    case "ulysses_set_group_title":
+      return item("group");
+    case "ulysses_set_sheet_title":
+      return item("sheet");
+    default:
+      return null;
+  }
+}
+
+export class PermissionPolicy {
+  constructor(private rules: PolicyRules) {}
+
+  /**
+   * Whether writes are confined to a set of groups (none at all when both lists are empty)
+   */
+  hasWriteScope(): boolean {
+    return this.rules.writes !== undefined;
+  }
+
+  /**
+   * Decide whether a tool call may run
+   */
+  async check(tool: string, args: Record<string, unknown>, context: PolicyContext): Promise<PolicyDecision> {
+    const { allow, deny } = this.rules.tools ?? {};
+    if (deny?.includes(tool)) {
+      return { allowed: false, rule: "tools.deny", reason: `${tool} is denied by the policy` };
+    }
+    if (allow && !allow.includes(tool)) {
+      return { allowed: false, rule: "tools.allow", reason: `${tool} is not one of the tools the policy allows` };
+    }
+
+    if (tool === "ulysses_trash" && this.rules.trash?.sessionItemsOnly && args.id !== undefined) {
+      const id = String(args.id);
+      if (!context.createdInSession(id)) {
+        return {
+          allowed: false,
+          rule: "trash.sessionItemsOnly",
+          reason: `${id} was not created in this session, and the policy only allows trashing items created in this session`
+        };
+      }
+    }
+
+    const targets = writeTargets(tool, args);
+    if (!targets || !this.hasWriteScope()) {
+      return { allowed: true };
+    }
+
+    let library: Group[];
+    try {
+      library = await context.library();
+    } catch (error) {
+      return {
+        allowed: false,
+        rule: "writes",
+        reason: `${tool} could not be checked against the groups the policy allows writing to, because the library could not be listed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+
+    for (const target of targets) {
+      const locations = this.resolve(target, library);
+      if (locations.length === 0) {
+        return {
+          allowed: false,
+          rule: "writes",
+          reason: `${target.argument} ${target.ref} was not found in the library, so it cannot be checked against the writable groups`
+        };
+      }
+      const outside = locations.find(location => !this.inScope(location, target.role));
+      if (outside) {
+        const described = "implicit" in target ? `the default ${target.argument} (${outside.item.title})` : `${target.argument} ${target.ref}`;
+        return {
+          allowed: false,
+          rule: "writes",
+          reason: `${described} is outside the groups the policy allows writing to`
+        };
+      }
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Every item a reference could mean
+   */
+  private resolve(target: WriteTarget, library: Group[]): Location[] {
+    const locations = new Map<string, Location>();
+    const visit = (group: Group, ancestors: Group[]) => {
+      locations.set(group.identifier, { item: group, ancestors });
+      const chain = [...ancestors, group];
+      for (const sheet of group.sheets ?? []) {
+        locations.set(sheet.identifier, { item: sheet, ancestors: chain });
+      }
+      for (const container of group.containers ?? []) {
+        visit(container, chain);
+      }
+    };
+    library.forEach(group => visit(group, []));
+
+    const firstSection = library[0];
+    if ("implicit" in target) {
+      if (!firstSection) {
+        return [];
+      }
+      const inbox = target.ref === "inbox"
+        ? (firstSection.containers ?? []).find(group => group.title === "Inbox")
+        : undefined;
+      return [locations.get((inbox ?? firstSection).identifier)!];
+    }
+
+    const direct = locations.get(target.ref);
+    if (direct) {
+      return [direct];
+    }
+
+    const groups = [...locations.values()].filter(location => location.item.type === "group");
+    if (target.ref.startsWith("/")) {
+      // A path starts at a library section or inside the first one
+      const segments = pathSegments(target.ref);
+      return groups.filter(location => {
+        const chain = [...location.ancestors, location.item as Group];
+        return sameTitles(chain, segments) || (firstSection !== undefined && sameTitles(chain, [firstSection.title, ...segments]));
+      });
+    }
+    return groups.filter(location => location.item.title === target.ref);
+  }
+
+  /**
+   * Items must lie inside a writable group; destinations may also be one
+   */
+  private inScope(location: Location, role: WriteTarget["role"]): boolean {
+    const chain = role === "destination" ? [...location.ancestors, location.item as Group] : location.ancestors;
+    const groups = this.rules.writes?.groups ?? [];
+    const paths = (this.rules.writes?.paths ?? []).map(pathSegments);
+
+    return chain.some((group, index) =>
+      groups.includes(group.identifier) ||
+      paths.some(segments => sameTitles(chain.slice(0, index + 1), segments))
+    );
+  }
+}
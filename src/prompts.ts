@@ -0,0 +1,250 @@
+/**
+ * Prompt Definitions
+ *
+ * Parameterized prompts for common writing workflows. Each prompt pulls the
+ * relevant part of the library (get-item, read-sheet) into the conversation
+ * and walks the model through the ulysses_* tools that complete the workflow.
+ */
+
+import { McpError, ErrorCode, GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { Group, Sheet } from "./models.js";
+import { sheetUri } from "./resources.js";
+
+// Upper bound on sheets read in full for a project summary
+const MAX_SUMMARY_SHEETS = 20;
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: "outline_group",
+    title: "Outline a group into chapters",
+    description: "Propose a chapter structure for a group and create it as sub-groups and sheets",
+    arguments: [
+      { name: "group_id", description: "Identifier of the group to outline", required: true },
+      { name: "chapters", description: "Number of chapters to plan (optional)" },
+      { name: "premise", description: "What the project is about, if the group does not say (optional)" }
+    ]
+  },
+  {
+    name: "review_sheet",
+    title: "Review a sheet",
+    description: "Review a sheet and attach the feedback to it as notes",
+    arguments: [
+      { name: "sheet_id", description: "Identifier of the sheet to review", required: true },
+      { name: "focus", description: "What to pay attention to, e.g. pacing or grammar (optional)" }
+    ]
+  },
+  {
+    name: "draft_next_sheet",
+    title: "Draft the next sheet",
+    description: "Continue a series by drafting the sheet that follows the last one in a group",
+    arguments: [
+      { name: "group_id", description: "Identifier of the group holding the series", required: true },
+      { name: "brief", description: "What should happen in the next sheet (optional)" },
+      { name: "keywords", description: "Comma-separated keywords for the new sheet (optional, defaults to Draft)" }
+    ]
+  },
+  {
+    name: "summarize_project",
+    title: "Summarize a project",
+    description: "Summarize the structure and content of a group and everything in it",
+    arguments: [
+      { name: "group_id", description: "Identifier of the project group", required: true }
+    ]
+  }
+];
+
+/**
+ * Library access a prompt needs to fill in its context
+ */
+export interface PromptContext {
+  /** A group with all of its sub-groups and sheets */
+  getGroup(id: string): Promise<Group>;
+  /** A sheet including its text */
+  readSheet(id: string): Promise<Sheet>;
+}
+
+type PromptArguments = Record<string, string | undefined>;
+
+function requiredArgument(args: PromptArguments, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${name} is required`
+    );
+  }
+  return value;
+}
+
+/**
+ * Renders a group as an indented list with identifiers the tools accept
+ */
+function renderOutline(group: Group, depth = 0): string {
+  const indent = "  ".repeat(depth);
+  const lines = [`${indent}- ${group.title} (group ${group.identifier})`];
+  for (const sheet of group.sheets ?? []) {
+    lines.push(`${indent}  - ${sheet.title || "Untitled sheet"} (sheet ${sheet.identifier})`);
+  }
+  for (const container of group.containers ?? []) {
+    lines.push(renderOutline(container, depth + 1));
+  }
+  return lines.join("\n");
+}
+
+function allSheets(group: Group): Sheet[] {
+  return [
+    ...(group.sheets ?? []),
+    ...(group.containers ?? []).flatMap(allSheets)
+  ];
+}
+
+function sheetResource(sheet: Sheet): GetPromptResult["messages"][number] {
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: { uri: sheetUri(sheet.identifier), mimeType: "text/markdown", text: sheet.text ?? "" }
+    }
+  };
+}
+
+/**
+ * A user message from lines of text; undefined lines are left out
+ */
+function userText(lines: Array<string | undefined>): GetPromptResult["messages"][number] {
+  const text = lines.filter((line): line is string => line !== undefined).join("\n");
+  return { role: "user", content: { type: "text", text } };
+}
+
+async function outlineGroup(args: PromptArguments, context: PromptContext): Promise<GetPromptResult> {
+  const group = await context.getGroup(requiredArgument(args, "group_id"));
+  const chapters = args.chapters?.trim();
+
+  return {
+    description: `Outline "${group.title}" into chapters`,
+    messages: [userText([
+      `Plan a chapter structure for the Ulysses group "${group.title}".`,
+      args.premise ? `The project is about: ${args.premise}` : undefined,
+      chapters ? `Plan ${chapters} chapters.` : "Choose a sensible number of chapters.",
+      "",
+      "The group currently contains:",
+      renderOutline(group),
+      "",
+      "Steps:",
+      "1. Propose the outline with a one-line synopsis per chapter and wait for my approval.",
+      `2. For each chapter, create a sub-group with ulysses_new_group (parent: "${group.identifier}") and keep the returned targetId.`,
+      "3. In each new chapter group, create a first sheet with ulysses_new_sheet containing the chapter title as a heading and its synopsis.",
+      "4. Do not move or trash existing sheets unless I ask for it."
+    ])]
+  };
+}
+
+async function reviewSheet(args: PromptArguments, context: PromptContext): Promise<GetPromptResult> {
+  const sheet = await context.readSheet(requiredArgument(args, "sheet_id"));
+  const existingNotes = (sheet.notes ?? []).map(note => `- ${note.text}`);
+
+  return {
+    description: `Review "${sheet.title}"`,
+    messages: [
+      sheetResource(sheet),
+      userText([
+        `Review the Ulysses sheet "${sheet.title}" (sheet ${sheet.identifier}) above.`,
+        args.focus ? `Focus on: ${args.focus}.` : "Look at structure, clarity, pacing and language.",
+        ...(existingNotes.length > 0 ? ["", "It already has these notes, do not repeat them:", ...existingNotes] : []),
+        "",
+        "Steps:",
+        `1. Attach each piece of feedback as its own note with ulysses_attach_note (id: "${sheet.identifier}"), quoting the passage it refers to.`,
+        `2. Attach the keyword "Reviewed" with ulysses_attach_keywords (id: "${sheet.identifier}").`,
+        "3. Do not change the sheet text with ulysses_insert; the author applies the feedback.",
+        "4. Finish with a short summary of the main issues."
+      ])
+    ]
+  };
+}
+
+async function draftNextSheet(args: PromptArguments, context: PromptContext): Promise<GetPromptResult> {
+  const group = await context.getGroup(requiredArgument(args, "group_id"));
+  const sheets = group.sheets ?? [];
+  const previous = sheets.length > 0 ? await context.readSheet(sheets[sheets.length - 1].identifier) : null;
+
+  return {
+    description: `Draft the next sheet in "${group.title}"`,
+    messages: [
+      ...(previous ? [sheetResource(previous)] : []),
+      userText([
+        `Draft the next sheet of the series in the Ulysses group "${group.title}".`,
+        previous
+          ? `The previous sheet, "${previous.title}", is above. Match its voice, tense and formatting.`
+          : "The group has no sheets yet, so this is the first one.",
+        args.brief ? `The next sheet should cover: ${args.brief}` : undefined,
+        "",
+        "Sheets in the group so far:",
+        ...(sheets.length > 0 ? sheets.map((sheet, index) => `${index + 1}. ${sheet.title || "Untitled sheet"}`) : ["(none)"]),
+        "",
+        "Steps:",
+        "1. Write the draft in Markdown, starting with a heading for its title.",
+        `2. Create it with ulysses_new_sheet (group: "${group.identifier}") so it is added after the last sheet.`,
+        `3. Attach the keywords "${args.keywords?.trim() || "Draft"}" to the new sheet with ulysses_attach_keywords, using the returned targetId.`
+      ])
+    ]
+  };
+}
+
+async function summarizeProject(args: PromptArguments, context: PromptContext): Promise<GetPromptResult> {
+  const group = await context.getGroup(requiredArgument(args, "group_id"));
+  const sheets = allSheets(group);
+  const read = sheets.slice(0, MAX_SUMMARY_SHEETS);
+  const texts: Sheet[] = [];
+  for (const sheet of read) {
+    texts.push(await context.readSheet(sheet.identifier));
+  }
+
+  return {
+    description: `Summarize "${group.title}"`,
+    messages: [
+      userText([
+        `Summarize the Ulysses project "${group.title}".`,
+        "",
+        "Structure:",
+        renderOutline(group),
+        ...(sheets.length > read.length
+          ? ["", `Only the first ${read.length} of ${sheets.length} sheets are included below; mention that the summary is partial.`]
+          : [])
+      ]),
+      ...texts.map(sheetResource),
+      userText([
+        "Write a summary with:",
+        "- one paragraph on what the project is about",
+        "- one line per group describing its part",
+        "- open threads, gaps or inconsistencies between sheets",
+        "",
+        "This is a read-only task: do not call tools that change the library."
+      ])
+    ]
+  };
+}
+
+const BUILDERS: Record<string, (args: PromptArguments, context: PromptContext) => Promise<GetPromptResult>> = {
+  outline_group: outlineGroup,
+  review_sheet: reviewSheet,
+  draft_next_sheet: draftNextSheet,
+  summarize_project: summarizeProject
+};
+
+/**
+ * Builds the messages for a prompt, reading its library context first
+ */
+export async function getPrompt(
+  name: string,
+  args: PromptArguments,
+  context: PromptContext
+): Promise<GetPromptResult> {
+  const build = Object.prototype.hasOwnProperty.call(BUILDERS, name) ? BUILDERS[name] : undefined;
+  if (!build) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown prompt: ${name}`
+    );
+  }
+  return build(args, context);
+}
@@ -0,0 +1,122 @@
+/**
+ * Tests for the token-bucket rate limiter and rate limit files
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { DEFAULT_RATE_LIMITS, RateLimiter, loadRateLimits, parseRateLimits } from './rate-limiter.js';
+
+const NOW = Date.parse('2026-10-19T09:00:00Z');
+
+function takeAll(limiter: RateLimiter, tool: string, category: 'read' | 'create' | 'destructive', count: number, now = NOW): boolean[] {
+  return Array.from({ length: count }, () => limiter.take(tool, category, now).allowed);
+}
+
+describe('parseRateLimits', () => {
+  it('should merge a file over the defaults', () => {
+    expect(parseRateLimits({
+      global: { perMinute: 60, burst: 20 },
+      categories: { read: { perMinute: 30 }, create: null },
+      tools: { ulysses_trash: { perMinute: 2 } }
+    })).toEqual({
+      global: { perMinute: 60, burst: 20 },
+      categories: { read: { perMinute: 30 }, create: null, destructive: { perMinute: 10 } },
+      tools: { ulysses_trash: { perMinute: 2 } }
+    });
+    expect(parseRateLimits({})).toEqual({ ...DEFAULT_RATE_LIMITS, tools: {} });
+  });
+
+  it('should reject unknown settings, tools and invalid budgets', () => {
+    expect(() => parseRateLimits({ perMinute: 10 })).toThrow('perMinute is not a rate limit setting');
+    expect(() => parseRateLimits({ categories: { write: { perMinute: 10 } } })).toThrow('categories.write is not a rate limit setting');
+    expect(() => parseRateLimits({ tools: { ulysses_delete: { perMinute: 1 } } })).toThrow('tools.ulysses_delete is not a known tool');
+    expect(() => parseRateLimits({ global: { perMinute: 0 } })).toThrow('global.perMinute must be a positive number');
+    expect(() => parseRateLimits({ global: {} })).toThrow('global.perMinute must be a positive number');
+    expect(() => parseRateLimits({ global: { perMinute: 10, burst: 1.5 } })).toThrow('global.burst must be a positive whole number');
+    expect(() => parseRateLimits([])).toThrow('The file must be an object');
+  });
+});
+
+describe('loadRateLimits', () => {
+  let sandbox: string;
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should name the file when it is invalid', () => {
+    const file = join(sandbox, 'rate-limits.json');
+    writeFileSync(file, JSON.stringify({ global: { perMinute: -1 } }));
+    expect(() => loadRateLimits(file)).toThrow(`Invalid rate limit file ${file}: global.perMinute must be a positive number`);
+  });
+
+  it('should load a valid file', () => {
+    const file = join(sandbox, 'rate-limits.json');
+    writeFileSync(file, JSON.stringify({ tools: { ulysses_insert: { perMinute: 5 } } }));
+    expect(loadRateLimits(file).tools).toEqual({ ulysses_insert: { perMinute: 5 } });
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should share a category budget between tools', () => {
+    const limiter = new RateLimiter();
+    expect(takeAll(limiter, 'ulysses_trash', 'destructive', 6)).toEqual(Array(6).fill(true));
+    expect(takeAll(limiter, 'ulysses_move', 'destructive', 5)).toEqual([true, true, true, true, false]);
+  });
+
+  it('should refill buckets over time', () => {
+    const limiter = new RateLimiter({ global: { perMinute: 6, burst: 2 } });
+    expect(takeAll(limiter, 'ulysses_read_sheet', 'read', 3)).toEqual([true, true, false]);
+    expect(limiter.take('ulysses_read_sheet', 'read', NOW + 5000)).toMatchObject({ allowed: false, retryAfterMs: 5000 });
+    expect(limiter.take('ulysses_read_sheet', 'read', NOW + 10000).allowed).toBe(true);
+    // A long pause refills the bucket up to its burst only
+    expect(takeAll(limiter, 'ulysses_read_sheet', 'read', 3, NOW + 3600000)).toEqual([true, true, false]);
+  });
+
+  it('should take no token when any bucket is empty', () => {
+    const limiter = new RateLimiter({ global: { perMinute: 3 }, tools: { ulysses_insert: { perMinute: 1 } } });
+    expect(takeAll(limiter, 'ulysses_insert', 'create', 2)).toEqual([true, false]);
+    expect(limiter.take('ulysses_insert', 'create', NOW)).toEqual({
+      allowed: false,
+      budget: 'ulysses_insert',
+      perMinute: 1,
+      retryAfterMs: 60000
+    });
+    // Refused calls did not draw from the global budget
+    expect(takeAll(limiter, 'ulysses_new_sheet', 'create', 3)).toEqual([true, true, false]);
+  });
+
+  it('should keep the level of budgets that new limits leave unchanged', () => {
+    const limiter = new RateLimiter({ global: { perMinute: 2 }, categories: { destructive: { perMinute: 1 } } });
+    expect(takeAll(limiter, 'ulysses_trash', 'destructive', 2)).toEqual([true, false]);
+
+    limiter.setLimits({ global: { perMinute: 2 }, categories: { destructive: { perMinute: 1 } } });
+    expect(limiter.take('ulysses_trash', 'destructive', NOW)).toMatchObject({ allowed: false, budget: 'destructive' });
+
+    // Only the changed budget starts full; the global one is still drawn down
+    limiter.setLimits({ global: { perMinute: 2 }, categories: { destructive: { perMinute: 3 } } });
+    expect(takeAll(limiter, 'ulysses_trash', 'destructive', 2)).toEqual([true, false]);
+  });
+
+  it('should report the remaining quota of each budget drawn from', () => {
+    const limiter = new RateLimiter({ ...DEFAULT_RATE_LIMITS, tools: { ulysses_trash: { perMinute: 5 } } });
+    expect(limiter.take('ulysses_trash', 'destructive', NOW)).toEqual({
+      allowed: true,
+      quota: {
+        global: { remaining: 119, perMinute: 120 },
+        destructive: { remaining: 9, perMinute: 10 },
+        ulysses_trash: { remaining: 4, perMinute: 5 }
+      }
+    });
+    expect(limiter.take('ulysses_read_sheet', 'read', NOW)).toEqual({
+      allowed: true,
+      quota: { global: { remaining: 118, perMinute: 120 } }
+    });
+  });
+});
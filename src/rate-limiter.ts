@@ -0,0 +1,211 @@
+/**
+ * Rate Limiting
+ *
+ * Every tool call draws a token from several buckets: one for the whole
+ * server, one for the call's category (read, create or destructive) and one
+ * for the tool itself when it has a budget. The call runs only if each of its
+ * buckets holds a token. Buckets refill continuously, so a budget of 10 per
+ * minute allows a burst of 10 calls and then one call every 6 seconds.
+ * Resource reads, prompts and completions that read the library are charged
+ * as the read tool that reads the same data.
+ *
+ * Budgets come from a rate limit file (ULYSSES_MCP_RATE_LIMITS) or the config
+ * file, merged over the defaults; a budget set to null removes the default one.
+ */
+
+import { readFileSync } from "fs";
+import { TOOLS } from "./tools.js";
+
+export type RateLimitCategory = "read" | "create" | "destructive";
+
+export interface Budget {
+  /** Calls allowed per minute on average */
+  perMinute: number;
+  /** Calls allowed in quick succession after a quiet period (default: perMinute) */
+  burst?: number;
+}
+
+export interface RateLimits {
+  /** Shared by every tool call */
+  global?: Budget | null;
+  categories?: Partial<Record<RateLimitCategory, Budget | null>>;
+  /** Budgets of single tools, by tool name */
+  tools?: Record<string, Budget | null>;
+}
+
+/**
+ * What is left of each budget a call drew from, by budget name
+ * ("global", the category or the tool name)
+ */
+export type RemainingQuota = Record<string, { remaining: number; perMinute: number }>;
+
+export type RateLimitDecision =
+  | { allowed: true; quota: RemainingQuota }
+  | { allowed: false; budget: string; perMinute: number; retryAfterMs: number };
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  global: { perMinute: 120 },
+  categories: {
+    create: { perMinute: 30 },
+    destructive: { perMinute: 10 }
+  }
+};
+
+const CATEGORIES: RateLimitCategory[] = ["read", "create", "destructive"];
+
+const TOOL_NAMES = new Set(TOOLS.map(tool => tool.name));
+
+const MS_PER_MINUTE = 60000;
+
+interface Bucket {
+  perMinute: number;
+  burst: number;
+  tokens: number;
+  updatedAt: number;
+}
+
+class RateLimitFileError extends Error {}
+
+function section(value: unknown, path: string, keys?: string[]): Record<string, unknown> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new RateLimitFileError(`${path || "The file"} must be an object`);
+  }
+  for (const key of Object.keys(value)) {
+    if (keys && !keys.includes(key)) {
+      throw new RateLimitFileError(`${path ? `${path}.` : ""}${key} is not a rate limit setting`);
+    }
+  }
+  return value as Record<string, unknown>;
+}
+
+function budget(value: unknown, path: string): Budget | null {
+  if (value === null) {
+    return null;
+  }
+  const entry = section(value, path, ["perMinute", "burst"]) ?? {};
+  if (typeof entry.perMinute !== "number" || !(entry.perMinute > 0)) {
+    throw new RateLimitFileError(`${path}.perMinute must be a positive number`);
+  }
+  if (entry.burst !== undefined && (!Number.isInteger(entry.burst) || (entry.burst as number) < 1)) {
+    throw new RateLimitFileError(`${path}.burst must be a positive whole number`);
+  }
+  return { perMinute: entry.perMinute, burst: entry.burst as number | undefined };
+}
+
+/**
+ * Validate parsed rate limit JSON and merge it over the defaults
+ */
+export function parseRateLimits(json: unknown): RateLimits {
+  const root = section(json, "", ["global", "categories", "tools"]) ?? {};
+  const categories = section(root.categories, "categories", CATEGORIES) ?? {};
+  const tools = section(root.tools, "tools") ?? {};
+
+  const merged: RateLimits = {
+    global: root.global !== undefined ? budget(root.global, "global") : DEFAULT_RATE_LIMITS.global,
+    categories: { ...DEFAULT_RATE_LIMITS.categories },
+    tools: {}
+  };
+  for (const [category, value] of Object.entries(categories)) {
+    merged.categories = { ...merged.categories, [category]: budget(value, `categories.${category}`) };
+  }
+  for (const [tool, value] of Object.entries(tools)) {
+    if (!TOOL_NAMES.has(tool)) {
+      throw new RateLimitFileError(`tools.${tool} is not a known tool`);
+    }
+    merged.tools = { ...merged.tools, [tool]: budget(value, `tools.${tool}`) };
+  }
+  return merged;
+}
+
+/**
+ * Read and validate a rate limit file
+ */
+export function loadRateLimits(filePath: string): RateLimits {
+  try {
+    return parseRateLimits(JSON.parse(readFileSync(filePath, "utf8")));
+  } catch (error) {
+    throw new Error(`Invalid rate limit file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export class RateLimiter {
+  private budgets = new Map<string, Budget>();
+  private buckets = new Map<string, Bucket>();
+
+  constructor(limits: RateLimits = DEFAULT_RATE_LIMITS) {
+    this.setLimits(limits);
+  }
+
+  /**
+   * Replace the budgets. A bucket whose budget is unchanged keeps its level,
+   * so reloading the same limits does not hand out fresh bursts; a changed
+   * budget starts full.
+   */
+  setLimits(limits: RateLimits = DEFAULT_RATE_LIMITS): void {
+    const entries: Array<[string, Budget | null | undefined]> = [
+      ["global", limits.global],
+      ...Object.entries(limits.categories ?? {}),
+      ...Object.entries(limits.tools ?? {})
+    ];
+    const previous = this.budgets;
+    this.budgets = new Map();
+    for (const [name, value] of entries) {
+      if (value) {
+        this.budgets.set(name, value);
+      }
+    }
+    for (const name of this.buckets.keys()) {
+      const before = previous.get(name);
+      const after = this.budgets.get(name);
+      if (!before || !after || before.perMinute !== after.perMinute || before.burst !== after.burst) {
+        this.buckets.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Take a token for a tool call from each of its buckets, or none if any is empty
+   */
+  take(tool: string, category: RateLimitCategory, now = Date.now()): RateLimitDecision {
+    const buckets = ["global", category, tool]
+      .filter(name => this.budgets.has(name))
+      .map(name => [name, this.refill(name, now)] as const);
+
+    // The bucket that takes longest to refill decides when to retry
+    let denied: { budget: string; perMinute: number; retryAfterMs: number } | undefined;
+    for (const [name, bucket] of buckets) {
+      if (bucket.tokens < 1) {
+        const retryAfterMs = Math.ceil((1 - bucket.tokens) * MS_PER_MINUTE / bucket.perMinute);
+        if (!denied || retryAfterMs > denied.retryAfterMs) {
+          denied = { budget: name, perMinute: bucket.perMinute, retryAfterMs };
+        }
+      }
+    }
+    if (denied) {
+      return { allowed: false, ...denied };
+    }
+
+    const quota: RemainingQuota = {};
+    for (const [name, bucket] of buckets) {
+      bucket.tokens -= 1;
+      quota[name] = { remaining: Math.floor(bucket.tokens), perMinute: bucket.perMinute };
+    }
+    return { allowed: true, quota };
+  }
+
+  private refill(name: string, now: number): Bucket {
+    let bucket = this.buckets.get(name);
+    if (!bucket) {
+      const { perMinute, burst = Math.max(1, Math.floor(perMinute)) } = this.budgets.get(name)!;
+      bucket = { perMinute, burst, tokens: burst, updatedAt: now };
+      this.buckets.set(name, bucket);
+    }
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(bucket.burst, bucket.tokens + elapsed * bucket.perMinute / MS_PER_MINUTE);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Tests for the x-callback-url request queue
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RequestQueue } from './request-queue.js';
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('RequestQueue', () => {
+  it('should run one request at a time by default', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const first = deferred<string>();
+    const started: string[] = [];
+
+    const a = queue.run('new-sheet', 'write', () => { started.push('a'); return first.promise; });
+    const b = queue.run('insert', 'write', async () => { started.push('b'); return 'b'; });
+
+    await tick();
+    expect(started).toEqual(['a']);
+    expect(queue.getMetrics()).toMatchObject({ queued: 1, running: 1 });
+
+    first.resolve('a');
+    await expect(a).resolves.toBe('a');
+    await expect(b).resolves.toBe('b');
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('should honor a higher concurrency', async () => {
+    const queue = new RequestQueue({ concurrency: 2 });
+    const blocker = deferred<void>();
+    const started: string[] = [];
+
+    queue.run('a', 'write', () => { started.push('a'); return blocker.promise; });
+    queue.run('b', 'write', () => { started.push('b'); return blocker.promise; });
+    queue.run('c', 'write', () => { started.push('c'); return blocker.promise; });
+
+    await tick();
+    expect(started).toEqual(['a', 'b']);
+    blocker.resolve();
+  });
+
+  it('should dispatch reads before queued writes', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const blocker = deferred<void>();
+    const order: string[] = [];
+
+    const running = queue.run('trash', 'write', () => blocker.promise);
+    const write = queue.run('move', 'write', async () => { order.push('move'); });
+    const read = queue.run('get-item', 'read', async () => { order.push('get-item'); });
+
+    blocker.resolve();
+    await Promise.all([running, write, read]);
+    expect(order).toEqual(['get-item', 'move']);
+  });
+
+  it('should share identical in-flight requests', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const response = deferred<string>();
+    let calls = 0;
+    const task = () => { calls++; return response.promise; };
+
+    const first = queue.run('get-root-items', 'read', task, { dedupeKey: 'get-root-items:[]' });
+    const second = queue.run('get-root-items', 'read', task, { dedupeKey: 'get-root-items:[]' });
+    const other = queue.run('get-root-items', 'read', task, { dedupeKey: 'get-root-items:[["recursive","NO"]]' });
+
+    response.resolve('items');
+    await expect(first).resolves.toBe('items');
+    await expect(second).resolves.toBe('items');
+    await other;
+    expect(calls).toBe(2);
+    expect(queue.getMetrics().recent[0].sharedWith).toBe(1);
+  });
+
+  it('should not share requests once they have finished', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    let calls = 0;
+    const task = async () => ++calls;
+
+    await queue.run('get-version', 'read', task, { dedupeKey: 'get-version:[]' });
+    await expect(queue.run('get-version', 'read', task, { dedupeKey: 'get-version:[]' })).resolves.toBe(2);
+  });
+
+  it('should release the slot when a request fails', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const failing = queue.run('trash', 'write', async () => { throw new Error('boom'); });
+    const next = queue.run('insert', 'write', async () => 'ok');
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+    expect(queue.getMetrics().recent.map(metric => metric.success)).toEqual([false, true]);
+  });
+
+  it('should record queue wait per request', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const blocker = deferred<void>();
+
+    const first = queue.run('new-sheet', 'write', () => blocker.promise);
+    const second = queue.run('insert', 'write', async () => undefined);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    blocker.resolve();
+    await Promise.all([first, second]);
+
+    const [a, b] = queue.getMetrics().recent;
+    expect(a.label).toBe('new-sheet');
+    expect(b.label).toBe('insert');
+    expect(b.waitMs).toBeGreaterThanOrEqual(25);
+    expect(a.runMs).toBeGreaterThanOrEqual(25);
+  });
+
+  it('should tell each caller how long it waited', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const blocker = deferred<void>();
+    const waits: Record<string, number> = {};
+    const onStart = (name: string) => (waitMs: number) => { waits[name] = waitMs; };
+
+    const first = queue.run('new-sheet', 'write', () => blocker.promise, { onStart: onStart('first') });
+    const read = queue.run('get-version', 'read', async () => 'v', { dedupeKey: 'get-version:[]', onStart: onStart('read') });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const shared = queue.run('get-version', 'read', async () => 'v', { dedupeKey: 'get-version:[]', onStart: onStart('shared') });
+    blocker.resolve();
+    await Promise.all([first, read, shared]);
+
+    expect(waits.first).toBeLessThan(5);
+    expect(waits.read).toBeGreaterThanOrEqual(25);
+    // Joined the queued read later, so it waited less
+    expect(waits.shared).toBeLessThan(waits.read);
+  });
+
+  it('should keep a bounded number of metrics', async () => {
+    const queue = new RequestQueue({ concurrency: 1, metricsLimit: 2 });
+    for (const label of ['a', 'b', 'c']) {
+      await queue.run(label, 'write', async () => undefined);
+    }
+    expect(queue.getMetrics().recent.map(metric => metric.label)).toEqual(['b', 'c']);
+  });
+
+  it('should remove a cancelled request from the queue', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const blocker = deferred<void>();
+    const controller = new AbortController();
+    let ran = false;
+
+    const running = queue.run('get-root-items', 'read', () => blocker.promise);
+    const cancelled = queue.run('get-item', 'read', async () => { ran = true; }, { signal: controller.signal });
+    expect(queue.getMetrics().queued).toBe(1);
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('Request cancelled for action: get-item');
+    expect(queue.getMetrics().queued).toBe(0);
+
+    blocker.resolve();
+    await running;
+    expect(ran).toBe(false);
+  });
+
+  it('should abort a running request when its caller cancels', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const controller = new AbortController();
+    let taskSignal: AbortSignal | undefined;
+
+    const pending = queue.run('read-sheet', 'read', (signal) => {
+      taskSignal = signal;
+      return new Promise(() => undefined);
+    }, { signal: controller.signal });
+
+    await tick();
+    controller.abort();
+    await expect(pending).rejects.toThrow('Request cancelled');
+    expect(taskSignal?.aborted).toBe(true);
+  });
+
+  it('should keep a shared request alive while another caller still waits', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const response = deferred<string>();
+    const first = new AbortController();
+    let taskSignal: AbortSignal | undefined;
+    const task = (signal: AbortSignal) => { taskSignal = signal; return response.promise; };
+
+    const cancelled = queue.run('get-root-items', 'read', task, { dedupeKey: 'key', signal: first.signal });
+    const waiting = queue.run('get-root-items', 'read', task, { dedupeKey: 'key', signal: new AbortController().signal });
+
+    await tick();
+    first.abort();
+    await expect(cancelled).rejects.toThrow('Request cancelled');
+    expect(taskSignal?.aborted).toBe(false);
+
+    response.resolve('items');
+    await expect(waiting).resolves.toBe('items');
+  });
+
+  it('should not share a cancelled request with a later identical one', async () => {
+    const queue = new RequestQueue({ concurrency: 2 });
+    const controller = new AbortController();
+    const never = new Promise<string>(() => undefined);
+
+    const cancelled = queue.run('get-root-items', 'read', () => never, { dedupeKey: 'key', signal: controller.signal });
+    await tick();
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('Request cancelled');
+
+    const again = queue.run('get-root-items', 'read', async () => 'items', { dedupeKey: 'key' });
+    await expect(again).resolves.toBe('items');
+  });
+
+  it('should reject an already cancelled request without running it', async () => {
+    const queue = new RequestQueue({ concurrency: 1 });
+    const controller = new AbortController();
+    controller.abort();
+    let ran = false;
+
+    await expect(queue.run('trash', 'write', async () => { ran = true; }, { signal: controller.signal }))
+      .rejects.toThrow('Request cancelled');
+    expect(ran).toBe(false);
+  });
+
+  it('should reject an invalid concurrency', () => {
+    expect(() => new RequestQueue({ concurrency: 0 })).toThrow('positive integer');
+  });
+});
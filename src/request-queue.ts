@@ -0,0 +1,273 @@
+/**
+ * Request Queue
+ *
+ * Ulysses handles x-callback-url requests one at a time and brings itself to
+ * the front for each one, so requests are dispatched through a queue:
+ * - Configurable concurrency (defaults to one request at a time)
+ * - Reads are dispatched before queued writes
+ * - Identical in-flight reads share a single request
+ * - Queue wait and run time are recorded per request, and each caller is
+ *   told how long it waited
+ * - Cancelled requests leave the queue; a shared request is only aborted
+ *   once every caller sharing it has cancelled
+ */
+
+import { requestCancelledError } from './errors.js';
+
+export type RequestPriority = 'read' | 'write';
+
+/**
+ * Timing of a single queued request
+ */
+export interface QueueMetric {
+  label: string;
+  priority: RequestPriority;
+  /** Time spent waiting for a free slot */
+  waitMs: number;
+  /** Time spent running once dispatched */
+  runMs: number;
+  success: boolean;
+  /** Number of additional callers that shared this request */
+  sharedWith: number;
+}
+
+export interface QueueMetrics {
+  queued: number;
+  running: number;
+  concurrency: number;
+  /** Most recent requests, oldest first */
+  recent: QueueMetric[];
+}
+
+export interface RunOptions {
+  /** Requests with the same key that are queued or running share one result */
+  dedupeKey?: string;
+  /** Cancels this caller's interest in the request */
+  signal?: AbortSignal;
+  /** Called when the request starts running, with how long this caller waited for it */
+  onStart?: (waitMs: number) => void;
+}
+
+export interface RequestQueueOptions {
+  concurrency: number;
+  /** How many per-request metrics to keep */
+  metricsLimit?: number;
+}
+
+interface QueuedTask {
+  start: () => void;
+}
+
+interface InFlight {
+  label: string;
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the result */
+  subscribers: number;
+  sharedWith: number;
+  started: boolean;
+  /** onStart callbacks of the callers, run when the request starts */
+  onStart: Array<() => void>;
+}
+
+const DEFAULT_METRICS_LIMIT = 100;
+
+export class RequestQueue {
+  private queues: Record<RequestPriority, QueuedTask[]> = { read: [], write: [] };
+  private running = 0;
+  private inFlight = new Map<string, InFlight>();
+  private metrics: QueueMetric[] = [];
+  private concurrency: number;
+  private metricsLimit: number;
+
+  constructor(options: RequestQueueOptions) {
+    if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+      throw new Error(`Queue concurrency must be a positive integer, got ${options.concurrency}`);
+    }
+    this.concurrency = options.concurrency;
+    this.metricsLimit = options.metricsLimit ?? DEFAULT_METRICS_LIMIT;
+  }
+
+  /**
+   * Run a task once a slot is free.
+   * The task receives a signal that aborts when every interested caller has cancelled.
+   */
+  run<T>(
+    label: string,
+    priority: RequestPriority,
+    task: (signal: AbortSignal) => Promise<T>,
+    options: RunOptions = {}
+  ): Promise<T> {
+    const { dedupeKey, signal, onStart } = options;
+
+    if (dedupeKey) {
+      const existing = this.inFlight.get(dedupeKey);
+      if (existing) {
+        existing.sharedWith++;
+        this.notifyStart(existing, onStart);
+        return this.subscribe(existing, signal) as Promise<T>;
+      }
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(requestCancelledError(label));
+    }
+
+    const controller = new AbortController();
+    const enqueuedAt = Date.now();
+    let entry!: InFlight;
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        start: () => {
+          controller.signal.removeEventListener('abort', onAbortWhileQueued);
+          const startedAt = Date.now();
+          this.running++;
+          entry.started = true;
+          entry.onStart.splice(0).forEach(notify => notify());
+
+          const finish = (success: boolean) => {
+            this.running--;
+            if (dedupeKey && this.inFlight.get(dedupeKey) === entry) {
+              this.inFlight.delete(dedupeKey);
+            }
+            this.record({
+              label,
+              priority,
+              waitMs: startedAt - enqueuedAt,
+              runMs: Date.now() - startedAt,
+              success,
+              sharedWith: entry.sharedWith
+            });
+            this.drain();
+          };
+
+          Promise.resolve().then(() => task(controller.signal)).then(
+            (value) => {
+              finish(true);
+              resolve(value);
+            },
+            (error) => {
+              finish(false);
+              reject(error);
+            }
+          );
+        }
+      };
+
+      // Leave the queue if everyone cancels before a slot frees up
+      const onAbortWhileQueued = () => {
+        const queue = this.queues[priority];
+        const index = queue.indexOf(queued);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(requestCancelledError(label));
+        }
+      };
+      controller.signal.addEventListener('abort', onAbortWhileQueued, { once: true });
+
+      this.queues[priority].push(queued);
+    });
+
+    entry = { label, promise, controller, subscribers: 0, sharedWith: 0, started: false, onStart: [] };
+    this.notifyStart(entry, onStart);
+    if (dedupeKey) {
+      this.inFlight.set(dedupeKey, entry);
+      // An aborted request is no longer shared, even while its task winds down
+      controller.signal.addEventListener('abort', () => {
+        if (this.inFlight.get(dedupeKey) === entry) {
+          this.inFlight.delete(dedupeKey);
+        }
+      }, { once: true });
+    }
+
+    const result = this.subscribe(entry, signal) as Promise<T>;
+    this.drain();
+    return result;
+  }
+
+  /**
+   * Current queue depth and recent per-request timings
+   */
+  getMetrics(): QueueMetrics {
+    return {
+      queued: this.queues.read.length + this.queues.write.length,
+      running: this.running,
+      concurrency: this.concurrency,
+      recent: [...this.metrics]
+    };
+  }
+
+  /**
+   * Tell a caller how long it waited once its request starts; a caller that
+   * joins a running request did not wait
+   */
+  private notifyStart(entry: InFlight, onStart?: (waitMs: number) => void): void {
+    if (!onStart) {
+      return;
+    }
+    if (entry.started) {
+      onStart(0);
+      return;
+    }
+    const joinedAt = Date.now();
+    entry.onStart.push(() => onStart(Date.now() - joinedAt));
+  }
+
+  /**
+   * Attach a caller to a request; the caller's promise settles early if it cancels
+   */
+  private subscribe(entry: InFlight, signal?: AbortSignal): Promise<unknown> {
+    entry.subscribers++;
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+        if (entry.subscribers === 0) {
+          entry.controller.abort(signal.reason);
+        }
+        reject(requestCancelledError(entry.label));
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Start queued tasks while slots are free, reads first
+   */
+  private drain(): void {
+    while (this.running < this.concurrency) {
+      const next = this.queues.read.shift() || this.queues.write.shift();
+      if (!next) {
+        return;
+      }
+      next.start();
+    }
+  }
+
+  private record(metric: QueueMetric): void {
+    this.metrics.push(metric);
+    if (this.metrics.length > this.metricsLimit) {
+      this.metrics.shift();
+    }
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Resource Definitions
+ *
+ * The Ulysses library exposed as MCP resources:
+ * - ulysses://library     - the full library listing (get-root-items)
+ * - ulysses://group/{id}  - a group with its direct contents (get-item)
+ * - ulysses://sheet/{id}  - the Markdown text of a sheet (read-sheet)
+ */
+
+import { McpError, ErrorCode, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { Group } from "./models.js";
+
+export const LIBRARY_URI = "ulysses://library";
+
+const GROUP_URI_PREFIX = "ulysses://group/";
+const SHEET_URI_PREFIX = "ulysses://sheet/";
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${GROUP_URI_PREFIX}{id}`,
+    name: "ulysses-group",
+    title: "Ulysses group",
+    description: "A group of the Ulysses library with its direct sub-groups and sheets",
+    mimeType: "application/json"
+  },
+  {
+    uriTemplate: `${SHEET_URI_PREFIX}{id}`,
+    name: "ulysses-sheet",
+    title: "Ulysses sheet",
+    description: "The text of a Ulysses sheet as Markdown",
+    mimeType: "text/markdown"
+  }
+];
+
+/**
+ * What a resource URI points at
+ */
+export type ResourceTarget =
+  | { kind: "library" }
+  | { kind: "group"; id: string }
+  | { kind: "sheet"; id: string };
+
+export function groupUri(id: string): string {
+  return `${GROUP_URI_PREFIX}${encodeURIComponent(id)}`;
+}
+
+export function sheetUri(id: string): string {
+  return `${SHEET_URI_PREFIX}${encodeURIComponent(id)}`;
+}
+
+/**
+ * The canonical URI of a resource target
+ */
+export function resourceUri(target: ResourceTarget): string {
+  switch (target.kind) {
+    case "library":
+      return LIBRARY_URI;
+    case "group":
+      return groupUri(target.id);
+    case "sheet":
+      return sheetUri(target.id);
+  }
+}
+
+/**
+ * Resolves a ulysses:// URI, rejecting anything the server does not serve
+ */
+export function parseResourceUri(uri: string): ResourceTarget {
+  if (uri === LIBRARY_URI) {
+    return { kind: "library" };
+  }
+
+  for (const [prefix, kind] of [[GROUP_URI_PREFIX, "group"], [SHEET_URI_PREFIX, "sheet"]] as const) {
+    if (!uri.startsWith(prefix)) {
+      continue;
+    }
+    const encoded = uri.slice(prefix.length);
+    let id: string;
+    try {
+      id = decodeURIComponent(encoded);
+    } catch {
+      id = "";
+    }
+    if (id.trim() === "" || id.includes("/")) {
+      break;
+    }
+    return { kind, id };
+  }
+
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Unknown resource: ${uri}`
+  );
+}
+
+/**
+ * Lists the library, every group and every sheet as concrete resources
+ */
+export function listLibraryResources(items: Group[]): Resource[] {
+  const resources: Resource[] = [{
+    uri: LIBRARY_URI,
+    name: "Ulysses library",
+    description: "All library sections with their groups and sheets",
+    mimeType: "application/json"
+  }];
+
+  const visit = (group: Group, path: string[]) => {
+    const location = [...path, group.title];
+    resources.push({
+      uri: groupUri(group.identifier),
+      name: group.title,
+      description: path.length > 0 ? `Group in ${path.join("/")}` : "Library section",
+      mimeType: "application/json"
+    });
+    for (const sheet of group.sheets ?? []) {
+      resources.push({
+        uri: sheetUri(sheet.identifier),
+        name: sheet.title || "Untitled sheet",
+        description: `Sheet in ${location.join("/")}`,
+        mimeType: "text/markdown"
+      });
+    }
+    for (const container of group.containers ?? []) {
+      visit(container, location);
+    }
+  };
+
+  items.forEach(group => visit(group, []));
+  return resources;
+}
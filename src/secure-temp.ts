@@ -10,14 +10,14 @@
 
 import { mkdirSync, existsSync, writeFileSync, readFileSync, unlinkSync, lstatSync, chmodSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
+import { BASE_DIRECTORIES } from './paths.js';
 
 export class SecureTempFileManager {
   private tempDir: string;
 
-  constructor() {
+  constructor(tempDir?: string) {
     // Use user-specific directory instead of world-writable /tmp
-    this.tempDir = join(homedir(), 'Library/Application Support/ulysses-mcp/tmp');
+    this.tempDir = tempDir || BASE_DIRECTORIES.runtimeDir;
     
     // Create directory with restrictive permissions
     try {
@@ -222,11 +222,12 @@ export class SecureTempFileManager {
 let secureTempManagerInstance: SecureTempFileManager | null = null;
 
 /**
- * Get the global secure temp file manager instance
+ * Get the global secure temp file manager instance; the directory applies
+ * when it is first created
  */
-export function getSecureTempManager(): SecureTempFileManager {
+export function getSecureTempManager(tempDir?: string): SecureTempFileManager {
   if (!secureTempManagerInstance) {
-    secureTempManagerInstance = new SecureTempFileManager();
+    secureTempManagerInstance = new SecureTempFileManager(tempDir);
   }
   return secureTempManagerInstance;
 }
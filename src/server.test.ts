@@ -0,0 +1,1381 @@
+/**
+ * End-to-End Tests for the Ulysses MCP Server
+ *
+ * These tests drive the real tools/list and tools/call handlers through an
+ * MCP client connected over an in-memory transport, with the Ulysses library
+ * simulator as the backend. They run on any platform.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ClientCapabilities,
+  ElicitRequest,
+  ElicitRequestSchema,
+  ErrorCode,
+  McpError,
+  PromptMessage,
+  ResourceListChangedNotificationSchema,
+  TextResourceContents,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { AuditEvent, AuditLogger } from './audit-logger.js';
+import { Group, ItemPayload, RootItemsPayload, Sheet, SheetPayload } from './models.js';
+import { PermissionPolicy } from './policy.js';
+import { UlyssesMcpServer, UlyssesServerOptions } from './server.js';
+import { UlyssesSimulator, SimulatorOptions } from './simulator.js';
+import { TokenStore } from './token-store.js';
+
+const TOKEN = 'test-token';
+
+let client: Client;
+let simulator: UlyssesSimulator;
+let server: UlyssesMcpServer;
+
+async function connect(
+  options: SimulatorOptions = {},
+  serverOptions: Partial<UlyssesServerOptions> = {},
+  capabilities: ClientCapabilities = {}
+): Promise<void> {
+  await client?.close();
+  simulator = new UlyssesSimulator({ accessTokens: [TOKEN], ...options });
+  // Destructive actions run unconfirmed unless a test is about confirmation
+  server = new UlyssesMcpServer({ backend: simulator, confirmations: { '*': 'never' }, ...serverOptions });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+  client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities });
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport)
+  ]);
+}
+
+async function call(name: string, args: Record<string, unknown> = {}): Promise<string> {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as Array<{ type: string; text: string }>;
+  return content[0].text;
+}
+
+/**
+ * Events written to an audit log, without the server start
+ */
+function auditEvents(auditLogger: AuditLogger): AuditEvent[] {
+  return readFileSync(auditLogger.getLogPath(), 'utf8')
+    .trim()
+    .split('\n')
+    .map((line): AuditEvent => JSON.parse(line))
+    .filter(event => event.event_type !== 'server_start');
+}
+
+/**
+ * A group listed recursively, which always lists its sheets
+ */
+type ListedGroup = Group & { sheets: Sheet[]; containers?: ListedGroup[] };
+
+async function rootItems(): Promise<ListedGroup[]> {
+  const result: RootItemsPayload = JSON.parse(await call('ulysses_get_root_items', { access_token: TOKEN }));
+  return result.items as ListedGroup[];
+}
+
+function searchGroups(groups: ListedGroup[], title: string): ListedGroup | undefined {
+  for (const group of groups) {
+    if (group.title === title) {
+      return group;
+    }
+    const nested = searchGroups(group.containers || [], title);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+function findGroup(groups: ListedGroup[], title: string): ListedGroup {
+  const group = searchGroups(groups, title);
+  if (!group) {
+    throw new Error(`No group titled ${title}`);
+  }
+  return group;
+}
+
+const SEED = {
+  library: [
+    {
+      title: 'iCloud',
+      containers: [
+        { title: 'Inbox' },
+        {
+          title: 'Novel',
+          containers: [{ title: 'Drafts' }],
+          sheets: [
+            { text: '# Intro\n\nIt was a dark night.', keywords: ['Draft'], notes: ['Check tone'] },
+            '# Chapter 1\n\nThe story begins.'
+          ]
+        }
+      ]
+    },
+    { title: 'On My Mac' }
+  ]
+};
+
+afterEach(async () => {
+  await client?.close();
+});
+
+describe('Tool listing', () => {
+  beforeEach(async () => {
+    await connect();
+  });
+
+  it('should list every Ulysses tool', async () => {
+    const { tools } = await client.listTools();
+    expect(tools).toHaveLength(25);
+    expect(tools.map(tool => tool.name)).toContain('ulysses_new_sheet');
+    expect(tools.map(tool => tool.name)).toContain('ulysses_remove_note');
+  });
+});
+
+describe('Reading the library', () => {
+  beforeEach(async () => {
+    await connect(SEED);
+  });
+
+  it('should return the Ulysses version', async () => {
+    const result = JSON.parse(await call('ulysses_get_version'));
+    expect(result.apiVersion).toBe('3');
+    expect(result.buildNumber).toBeDefined();
+  });
+
+  it('should list root items recursively', async () => {
+    const items = await rootItems();
+    expect(items.map(item => item.title)).toEqual(['iCloud', 'On My Mac']);
+    const novel = findGroup(items, 'Novel');
+    expect(novel.sheets.map(sheet => sheet.title)).toEqual(['Intro', 'Chapter 1']);
+    expect(novel.containers?.[0].title).toBe('Drafts');
+  });
+
+  it('should list only direct children when not recursive', async () => {
+    const result: RootItemsPayload = JSON.parse(await call('ulysses_get_root_items', { access_token: TOKEN, recursive: 'NO' }));
+    const icloud = result.items[0];
+    expect(icloud.containers?.map(group => group.title)).toEqual(['Inbox', 'Novel']);
+    expect(icloud.containers?.[1].containers).toBeUndefined();
+  });
+
+  it('should read a sheet with its text, notes and keywords', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    const result = JSON.parse(await call('ulysses_read_sheet', { id: intro.identifier, text: 'YES', access_token: TOKEN }));
+    const sheet = result.sheet;
+    expect(sheet.title).toBe('Intro');
+    expect(sheet.text).toContain('It was a dark night.');
+    expect(sheet.keywords).toEqual([{ title: 'Draft' }]);
+    expect(sheet.notes[0].text).toBe('Check tone');
+  });
+
+  it('should omit sheet text unless requested', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    const result = JSON.parse(await call('ulysses_read_sheet', { id: intro.identifier, access_token: TOKEN }));
+    expect(result.sheet.text).toBeUndefined();
+  });
+
+  it('should get a group by identifier', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    const result = JSON.parse(await call('ulysses_get_item', { id: novel.identifier, access_token: TOKEN }));
+    expect(result.item.title).toBe('Novel');
+  });
+
+  it('should return structured content matching the output schemas', async () => {
+    const { tools } = await client.listTools();
+    const withOutput = tools.filter(tool => tool.outputSchema).map(tool => tool.name);
+    expect(withOutput.sort()).toEqual([
+      'ulysses_copy', 'ulysses_get_item', 'ulysses_get_root_items', 'ulysses_get_version',
+      'ulysses_new_group', 'ulysses_new_sheet', 'ulysses_read_sheet'
+    ]);
+
+    // The client validates structuredContent against the listed outputSchema
+    const listing = await client.callTool({ name: 'ulysses_get_root_items', arguments: { access_token: TOKEN } });
+    const items = (listing.structuredContent as RootItemsPayload).items as ListedGroup[];
+    expect(items.map(item => item.title)).toEqual(['iCloud', 'On My Mac']);
+
+    const intro = findGroup(items, 'Novel').sheets[0];
+    const read = await client.callTool({
+      name: 'ulysses_read_sheet',
+      arguments: { id: intro.identifier, text: 'YES', access_token: TOKEN }
+    });
+    expect(read.structuredContent).toEqual(JSON.parse((read.content as Array<{ text: string }>)[0].text));
+    expect((read.structuredContent as SheetPayload).sheet.notes?.[0].text).toBe('Check tone');
+
+    const item = await client.callTool({ name: 'ulysses_get_item', arguments: { id: intro.identifier, access_token: TOKEN } });
+    expect((item.structuredContent as ItemPayload).item).toMatchObject({ type: 'sheet', title: 'Intro' });
+
+    const version = await client.callTool({ name: 'ulysses_get_version', arguments: {} });
+    expect(version.structuredContent).toEqual({ apiVersion: '3', buildNumber: expect.any(String), readOnly: false });
+  });
+
+  it('should return the identifier of created items as structured content', async () => {
+    const sheet = await client.callTool({ name: 'ulysses_new_sheet', arguments: { text: '# Idea' } });
+    expect(sheet.structuredContent).toEqual({ action: 'new-sheet', targetId: expect.any(String) });
+    expect(sheet.structuredContent).toEqual(JSON.parse((sheet.content as Array<{ text: string }>)[0].text));
+
+    const group = await client.callTool({ name: 'ulysses_new_group', arguments: { name: 'Ideas' } });
+    expect(group.structuredContent).toEqual({ action: 'new-group', targetId: expect.any(String) });
+
+    const sheetId = (sheet.structuredContent as { targetId: string }).targetId;
+    const copy = await client.callTool({ name: 'ulysses_copy', arguments: { id: sheetId } });
+    expect((copy.structuredContent as { targetId: string }).targetId).not.toBe(sheetId);
+
+    const preview = await client.callTool({ name: 'ulysses_copy', arguments: { id: sheetId, dry_run: true } });
+    expect(preview.structuredContent).toMatchObject({ dryRun: true, action: 'copy' });
+  });
+
+  it('should not return structured content from other write tools', async () => {
+    const created = JSON.parse(await call('ulysses_new_sheet', { text: '# Idea' }));
+    const result = await client.callTool({ name: 'ulysses_insert', arguments: { id: created.targetId, text: 'More' } });
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it('should reject an invalid access token', async () => {
+    await expect(call('ulysses_get_root_items', { access_token: 'wrong' })).rejects.toThrow('Invalid access token');
+  });
+
+  it('should report unknown items', async () => {
+    await expect(call('ulysses_get_item', { id: 'missing', access_token: TOKEN })).rejects.toThrow('Group not found');
+  });
+});
+
+describe('Resources', () => {
+  beforeEach(async () => {
+    await connect(SEED, { accessToken: TOKEN });
+  });
+
+  it('should list the resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(template => template.uriTemplate)).toEqual([
+      'ulysses://group/{id}',
+      'ulysses://sheet/{id}'
+    ]);
+  });
+
+  it('should list the library, its groups and its sheets', async () => {
+    const { resources } = await client.listResources();
+    expect(resources[0].uri).toBe('ulysses://library');
+
+    const intro = resources.find(resource => resource.name === 'Intro')!;
+    expect(intro.uri).toMatch(/^ulysses:\/\/sheet\//);
+    expect(intro.mimeType).toBe('text/markdown');
+    expect(intro.description).toBe('Sheet in iCloud/Novel');
+    expect(resources.find(resource => resource.name === 'Drafts')?.description).toBe('Group in iCloud/Novel');
+  });
+
+  it('should read a sheet as Markdown', async () => {
+    const { resources } = await client.listResources();
+    const intro = resources.find(resource => resource.name === 'Intro')!;
+
+    const { contents } = await client.readResource({ uri: intro.uri });
+    expect(contents).toEqual([{ uri: intro.uri, mimeType: 'text/markdown', text: '# Intro\n\nIt was a dark night.' }]);
+  });
+
+  it('should read a group with its direct contents', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    const { contents } = await client.readResource({ uri: `ulysses://group/${novel.identifier}` });
+    const group: ListedGroup = JSON.parse((contents[0] as TextResourceContents).text);
+    expect(group.title).toBe('Novel');
+    expect(group.sheets.map(sheet => sheet.title)).toEqual(['Intro', 'Chapter 1']);
+    expect(group.containers?.[0].containers).toBeUndefined();
+  });
+
+  it('should read the whole library', async () => {
+    const { contents } = await client.readResource({ uri: 'ulysses://library' });
+    expect((JSON.parse((contents[0] as TextResourceContents).text) as Group[]).map(group => group.title)).toEqual(['iCloud', 'On My Mac']);
+  });
+
+  it('should reject a sheet read as a group', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await expect(client.readResource({ uri: `ulysses://group/${intro.identifier}` })).rejects.toThrow('not a group');
+  });
+
+  it('should reject unknown resource URIs', async () => {
+    await expect(client.readResource({ uri: 'ulysses://trash/abc' })).rejects.toThrow('Unknown resource');
+    await expect(client.readResource({ uri: 'ulysses://sheet/' })).rejects.toThrow('Unknown resource');
+  });
+
+  it('should notify subscribers when the library changes', async () => {
+    await connect(SEED, { accessToken: TOKEN, libraryPollIntervalMs: 10 });
+    const updated: string[] = [];
+    let listChanged = 0;
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+      listChanged++;
+    });
+
+    const novel = findGroup(await rootItems(), 'Novel');
+    const inbox = findGroup(await rootItems(), 'Inbox');
+    await client.subscribeResource({ uri: `ulysses://group/${novel.identifier}` });
+
+    await call('ulysses_new_sheet', { text: '# Chapter 2', group: novel.identifier });
+    await call('ulysses_new_sheet', { text: '# Elsewhere', group: inbox.identifier });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(updated).toEqual([`ulysses://group/${novel.identifier}`]);
+    expect(listChanged).toBeGreaterThan(0);
+
+    await client.unsubscribeResource({ uri: `ulysses://group/${novel.identifier}` });
+    await call('ulysses_new_sheet', { text: '# Chapter 3', group: novel.identifier });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(updated).toHaveLength(1);
+  });
+
+  it('should reject subscriptions without a server-side access token', async () => {
+    await connect(SEED);
+    await expect(client.subscribeResource({ uri: 'ulysses://library' })).rejects.toThrow('requires an access token');
+  });
+
+  it('should require a server-side access token', async () => {
+    await connect(SEED);
+    expect((await client.listResources()).resources).toEqual([]);
+
+    const error = await client.readResource({ uri: 'ulysses://library' }).catch(e => e as McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.data).toMatchObject({ reason: 'access_token_required', action: 'get-root-items' });
+  });
+});
+
+describe('Prompts', () => {
+  beforeEach(async () => {
+    await connect(SEED, { accessToken: TOKEN });
+  });
+
+  function text(message: PromptMessage): string {
+    const { content } = message;
+    if (content.type === 'text') {
+      return content.text;
+    }
+    return content.type === 'resource' && 'text' in content.resource ? String(content.resource.text) : '';
+  }
+
+  it('should list the writing workflow prompts', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual([
+      'outline_group', 'review_sheet', 'draft_next_sheet', 'summarize_project'
+    ]);
+  });
+
+  it('should outline a group with its current contents', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    const { messages } = await client.getPrompt({ name: 'outline_group', arguments: { group_id: novel.identifier, chapters: '5' } });
+    expect(messages).toHaveLength(1);
+    expect(text(messages[0])).toContain('Plan 5 chapters.');
+    expect(text(messages[0])).toContain(`- Intro (sheet ${novel.sheets[0].identifier})`);
+    expect(text(messages[0])).toContain(`ulysses_new_group (parent: "${novel.identifier}")`);
+  });
+
+  it('should embed the sheet and its notes in a review', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    const { messages } = await client.getPrompt({ name: 'review_sheet', arguments: { sheet_id: intro.identifier, focus: 'pacing' } });
+    expect(messages[0].content).toMatchObject({
+      type: 'resource',
+      resource: { uri: `ulysses://sheet/${intro.identifier}`, text: '# Intro\n\nIt was a dark night.' }
+    });
+    expect(text(messages[1])).toContain('Focus on: pacing.');
+    expect(text(messages[1])).toContain('- Check tone');
+    expect(text(messages[1])).toContain(`ulysses_attach_note (id: "${intro.identifier}")`);
+  });
+
+  it('should continue from the last sheet of a group', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    const { messages } = await client.getPrompt({ name: 'draft_next_sheet', arguments: { group_id: novel.identifier } });
+    expect(text(messages[0])).toBe('# Chapter 1\n\nThe story begins.');
+    expect(text(messages[1])).toContain('1. Intro\n2. Chapter 1');
+  });
+
+  it('should read every sheet of a project for a summary', async () => {
+    const icloud = (await rootItems())[0];
+    const { messages } = await client.getPrompt({ name: 'summarize_project', arguments: { group_id: icloud.identifier } });
+    const resources = messages.filter(message => message.content.type === 'resource');
+    expect(resources.map(text)).toEqual(['# Intro\n\nIt was a dark night.', '# Chapter 1\n\nThe story begins.']);
+    expect(text(messages[messages.length - 1])).toContain('read-only task');
+  });
+
+  it('should reject missing arguments and unknown prompts', async () => {
+    await expect(client.getPrompt({ name: 'review_sheet', arguments: {} })).rejects.toThrow('sheet_id is required');
+    await expect(client.getPrompt({ name: 'write_novel', arguments: {} })).rejects.toThrow('Unknown prompt');
+  });
+
+  it('should reject a sheet where a group is expected', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await expect(client.getPrompt({ name: 'outline_group', arguments: { group_id: intro.identifier } }))
+      .rejects.toThrow('is a sheet, not a group');
+  });
+});
+
+describe('Completions', () => {
+  beforeEach(async () => {
+    await connect(SEED, { accessToken: TOKEN });
+  });
+
+  it('should complete group identifiers for prompt arguments', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'outline_group' },
+      argument: { name: 'group_id', value: 'nov' }
+    });
+    expect(completion.values).toEqual([novel.identifier]);
+  });
+
+  it('should complete sheet identifiers for resource templates', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    const { completion } = await client.complete({
+      ref: { type: 'ref/resource', uri: 'ulysses://sheet/{id}' },
+      argument: { name: 'id', value: 'int' }
+    });
+    expect(completion.values).toEqual([intro.identifier]);
+  });
+
+  it('should suggest keywords already used in the library', async () => {
+    const complete = async () => (await client.complete({
+      ref: { type: 'ref/prompt', name: 'draft_next_sheet' },
+      argument: { name: 'keywords', value: 'Dr' }
+    })).completion.values;
+    expect(await complete()).toEqual(['Draft']);
+
+    // Writes invalidate the cached listing
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await call('ulysses_attach_keywords', { id: intro.identifier, keywords: 'Dramatic' });
+    expect(await complete()).toEqual(['Draft', 'Dramatic']);
+  });
+
+  it('should not suggest values without a server-side access token', async () => {
+    await connect(SEED);
+    const { completion } = await client.complete({
+      ref: { type: 'ref/prompt', name: 'review_sheet' },
+      argument: { name: 'sheet_id', value: '' }
+    });
+    expect(completion.values).toEqual([]);
+  });
+
+  it('should reject unknown references', async () => {
+    await expect(client.complete({
+      ref: { type: 'ref/prompt', name: 'write_novel' },
+      argument: { name: 'group_id', value: '' }
+    })).rejects.toThrow('Unknown prompt');
+  });
+});
+
+describe('Authorization', () => {
+  it('should issue a token that unlocks protected actions', async () => {
+    await connect({ accessTokens: [] });
+    const result = await call('ulysses_authorize', { appname: 'Test' });
+    const token = JSON.parse(result.split('\n\n')[0])['access-token'];
+    expect(token).toBeDefined();
+
+    const listing = JSON.parse(await call('ulysses_get_root_items', { access_token: token }));
+    expect(listing.items).toHaveLength(2);
+  });
+
+  it('should fail when the user denies access', async () => {
+    await connect({ denyAuthorization: true });
+    await expect(call('ulysses_authorize', { appname: 'Test' })).rejects.toThrow('Access denied');
+  });
+
+  describe('with a token store', () => {
+    let sandbox: string;
+    let tokenStore: TokenStore;
+
+    beforeEach(async () => {
+      sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+      tokenStore = new TokenStore(sandbox);
+      await connect({ accessTokens: [] }, { tokenStore });
+    });
+
+    afterEach(() => {
+      rmSync(sandbox, { recursive: true, force: true });
+    });
+
+    it('should store the token instead of returning it', async () => {
+      const result = await call('ulysses_authorize', { appname: 'Test' });
+      const token = tokenStore.get();
+      expect(token).toBeTruthy();
+      expect(result).not.toContain(token);
+
+      const listing = JSON.parse(await call('ulysses_get_root_items'));
+      expect(listing.items).toHaveLength(2);
+    });
+
+    it('should let an explicit access_token override the stored one', async () => {
+      await call('ulysses_authorize', { appname: 'Test' });
+      await expect(call('ulysses_get_root_items', { access_token: 'wrong' })).rejects.toThrow('Invalid access token');
+    });
+
+    it('should forget the token when cleared', async () => {
+      await call('ulysses_authorize', { appname: 'Test' });
+      expect(await call('ulysses_clear_token')).toContain('was deleted');
+      expect(tokenStore.get()).toBeNull();
+
+      const error = await client.callTool({ name: 'ulysses_get_root_items', arguments: {} }).catch(e => e as McpError);
+      expect(error.data).toMatchObject({ reason: 'access_token_required', action: 'get-root-items' });
+      expect(await call('ulysses_clear_token')).toBe('No access token was stored.');
+    });
+
+    it('should serve resources with the stored token', async () => {
+      expect((await client.listResources()).resources).toEqual([]);
+      await call('ulysses_authorize', { appname: 'Test' });
+      expect((await client.listResources()).resources[0].uri).toBe('ulysses://library');
+    });
+  });
+});
+
+describe('Modifying the library', () => {
+  beforeEach(async () => {
+    await connect(SEED);
+  });
+
+  it('should create a sheet in the Inbox by default', async () => {
+    await call('ulysses_new_sheet', { text: '# Idea\n\nSomething new' });
+    const inbox = findGroup(await rootItems(), 'Inbox');
+    expect(inbox.sheets.map(sheet => sheet.title)).toEqual(['Idea']);
+  });
+
+  it('should return the identifier of a new sheet', async () => {
+    const result = JSON.parse(await call('ulysses_new_sheet', { text: '# Idea' }));
+    expect(result.action).toBe('new-sheet');
+
+    await call('ulysses_attach_keywords', { id: result.targetId, keywords: 'Idea' });
+    const sheet = JSON.parse(await call('ulysses_read_sheet', { id: result.targetId, access_token: TOKEN })).sheet;
+    expect(sheet.title).toBe('Idea');
+    expect(sheet.keywords).toEqual([{ title: 'Idea' }]);
+  });
+
+  it('should return the identifier of a new group', async () => {
+    const result = JSON.parse(await call('ulysses_new_group', { name: 'Notes' }));
+    expect(result.action).toBe('new-group');
+    await call('ulysses_new_sheet', { text: '# Inside', group: result.targetId });
+    expect(findGroup(await rootItems(), 'Notes').sheets[0].title).toBe('Inside');
+  });
+
+  it('should create a sheet in a group given by path at an index', async () => {
+    await call('ulysses_new_sheet', { text: '# Prologue', group: '/Novel', index: '0' });
+    const novel = findGroup(await rootItems(), 'Novel');
+    expect(novel.sheets[0].title).toBe('Prologue');
+  });
+
+  it('should create nested groups', async () => {
+    await call('ulysses_new_group', { name: 'Research', parent: 'Novel' });
+    expect(findGroup(await rootItems(), 'Research')).toBeDefined();
+  });
+
+  it('should insert text, notes and keywords into a sheet', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await call('ulysses_insert', { id: intro.identifier, text: 'The end.', newline: 'prepend' });
+    await call('ulysses_attach_note', { id: intro.identifier, text: 'Second note' });
+    await call('ulysses_attach_keywords', { id: intro.identifier, keywords: 'Draft, Review' });
+
+    const { sheet }: SheetPayload = JSON.parse(await call('ulysses_read_sheet', {
+      id: intro.identifier, text: 'YES', access_token: TOKEN
+    }));
+    expect(sheet.text).toMatch(/dark night\.\nThe end\.$/);
+    expect(sheet.notes?.map(note => note.text)).toEqual(['Check tone', 'Second note']);
+    expect(sheet.keywords).toEqual([{ title: 'Draft' }, { title: 'Review' }]);
+  });
+
+  it('should update, remove notes and keywords', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await call('ulysses_update_note', { id: intro.identifier, index: '0', text: 'Tone is fine', access_token: TOKEN });
+    await call('ulysses_attach_note', { id: intro.identifier, text: 'Temporary' });
+    await call('ulysses_remove_note', { id: intro.identifier, index: '1', access_token: TOKEN });
+    await call('ulysses_remove_keywords', { id: intro.identifier, keywords: 'Draft', access_token: TOKEN });
+
+    const { sheet }: SheetPayload = JSON.parse(await call('ulysses_read_sheet', { id: intro.identifier, access_token: TOKEN }));
+    expect(sheet.notes?.map(note => note.text)).toEqual(['Tone is fine']);
+    expect(sheet.keywords).toEqual([]);
+  });
+
+  it('should reject an out-of-range note index', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await expect(call('ulysses_remove_note', { id: intro.identifier, index: '5', access_token: TOKEN }))
+      .rejects.toThrow('Invalid note index');
+  });
+
+  it('should attach images and reject unsupported formats', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    const image = Buffer.from('fake png').toString('base64');
+    await call('ulysses_attach_image', { id: intro.identifier, image, format: 'png' });
+    await expect(call('ulysses_attach_image', { id: intro.identifier, image, format: 'exe' }))
+      .rejects.toThrow('Unsupported image format');
+
+    const { sheet }: SheetPayload = JSON.parse(await call('ulysses_read_sheet', { id: intro.identifier, access_token: TOKEN }));
+    expect(sheet.attachments).toEqual([{ type: 'image', filename: 'image-1.png', format: 'png', size: 8 }]);
+  });
+
+  it('should rename groups and sheets', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    await call('ulysses_set_group_title', { group: novel.identifier, title: 'Book', access_token: TOKEN });
+    await call('ulysses_set_sheet_title', {
+      sheet: novel.sheets[1].identifier, title: 'Beginnings', type: 'heading2', access_token: TOKEN
+    });
+
+    const book = findGroup(await rootItems(), 'Book');
+    expect(book.sheets[1].title).toBe('Beginnings');
+    expect(book.sheets[1].titleType).toBe('heading2');
+  });
+
+  it('should move items between groups', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    await call('ulysses_move', { id: novel.sheets[0].identifier, targetGroup: '/Novel/Drafts', access_token: TOKEN });
+
+    const items = await rootItems();
+    expect(findGroup(items, 'Novel').sheets.map(sheet => sheet.title)).toEqual(['Chapter 1']);
+    expect(findGroup(items, 'Drafts').sheets.map(sheet => sheet.title)).toEqual(['Intro']);
+  });
+
+  it('should refuse to move a group into itself', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    await expect(call('ulysses_move', { id: novel.identifier, targetGroup: novel.containers![0].identifier, access_token: TOKEN }))
+      .rejects.toThrow('Cannot move a group into itself');
+  });
+
+  it('should copy groups with their contents', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    const result = JSON.parse(await call('ulysses_copy', { id: novel.identifier, targetGroup: 'Inbox' }));
+
+    const inbox = findGroup(await rootItems(), 'Inbox');
+    expect(inbox.containers?.[0].title).toBe('Novel');
+    expect(inbox.containers?.[0].sheets).toHaveLength(2);
+    expect(inbox.containers?.[0].identifier).toBe(result.targetId);
+    expect(result.targetId).not.toBe(novel.identifier);
+  });
+
+  it('should trash items so they can no longer be found', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await call('ulysses_trash', { id: intro.identifier, access_token: TOKEN });
+
+    expect(findGroup(await rootItems(), 'Novel').sheets).toHaveLength(1);
+    await expect(call('ulysses_read_sheet', { id: intro.identifier, access_token: TOKEN }))
+      .rejects.toThrow('Sheet not found');
+  });
+
+  it('should not trash library sections', async () => {
+    const icloud = (await rootItems())[0];
+    await expect(call('ulysses_trash', { id: icloud.identifier, access_token: TOKEN }))
+      .rejects.toThrow('Library sections cannot be moved or trashed');
+  });
+
+  it('should open items and sections', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    await call('ulysses_open', { id: novel.identifier });
+    expect(simulator.getLastOpened()).toBe(novel.identifier);
+    await call('ulysses_open_favorites');
+    expect(simulator.getLastOpened()).toBe('open-favorites');
+  });
+});
+
+describe('Ulysses errors', () => {
+  beforeEach(async () => {
+    await connect(SEED);
+  });
+
+  async function callError(name: string, args: Record<string, unknown>): Promise<McpError> {
+    try {
+      await call(name, args);
+    } catch (error) {
+      return error as McpError;
+    }
+    throw new Error(`${name} did not fail`);
+  }
+
+  it('should map an invalid token to a structured error with a remediation hint', async () => {
+    const error = await callError('ulysses_trash', { id: 'anything', access_token: 'revoked' });
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.message).toContain('Run ulysses_authorize');
+    expect(error.data).toEqual({
+      reason: 'invalid_token',
+      action: 'trash',
+      ulyssesErrorCode: 8,
+      remediation: expect.stringContaining('ulysses_authorize')
+    });
+  });
+
+  it('should reject a malformed callback payload', async () => {
+    simulator.dispatch = async () => ({ isError: false, data: { items: '[{"type":"group"}]' } });
+    const error = await callError('ulysses_get_root_items', { access_token: TOKEN });
+    expect(error.code).toBe(ErrorCode.InternalError);
+    expect(error.message).toContain('items[0].identifier must be a string');
+    expect(error.data).toMatchObject({ reason: 'malformed_payload', action: 'get-root-items' });
+  });
+
+  it('should map missing items to invalid params', async () => {
+    const error = await callError('ulysses_read_sheet', { id: 'missing', access_token: TOKEN });
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.data).toMatchObject({ reason: 'item_not_found', action: 'read-sheet', ulyssesErrorCode: 6 });
+  });
+
+  it('should map unsupported formats', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    const error = await callError('ulysses_attach_image', { id: intro.identifier, image: 'aGVsbG8=', format: 'bmp' });
+    expect(error.data).toMatchObject({ reason: 'unsupported_format', action: 'attach-image' });
+  });
+
+  it('should map a denied authorization', async () => {
+    await connect({ denyAuthorization: true });
+    const error = await callError('ulysses_authorize', { appname: 'Test' });
+    expect(error.data).toMatchObject({ reason: 'access_denied', action: 'authorize', ulyssesErrorCode: 7 });
+  });
+});
+
+describe('Request queue', () => {
+  beforeEach(async () => {
+    await connect(SEED);
+  });
+
+  it('should share one callback between identical concurrent reads', async () => {
+    const dispatch = simulator.dispatch.bind(simulator);
+    const actions: string[] = [];
+    simulator.dispatch = async (request) => {
+      actions.push(request.action);
+      return dispatch(request);
+    };
+
+    const [first, second] = await Promise.all([
+      call('ulysses_get_root_items', { access_token: TOKEN }),
+      call('ulysses_get_root_items', { access_token: TOKEN })
+    ]);
+
+    expect(first).toBe(second);
+    expect(actions).toEqual(['get-root-items']);
+  });
+
+  it('should stop waiting for Ulysses when the client cancels', async () => {
+    const dispatch = simulator.dispatch.bind(simulator);
+    let backendSignal: AbortSignal | undefined;
+    simulator.dispatch = (request, signal) => {
+      if (request.action !== 'get-root-items') {
+        return dispatch(request, signal);
+      }
+      backendSignal = signal;
+      // Never answers, like Ulysses without a running helper app
+      return new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    };
+
+    const controller = new AbortController();
+    const pending = client.callTool(
+      { name: 'ulysses_get_root_items', arguments: { access_token: TOKEN } },
+      undefined,
+      { signal: controller.signal }
+    );
+    await new Promise(resolve => setTimeout(resolve, 20));
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(backendSignal?.aborted).toBe(true);
+
+    // The queue slot is free again
+    expect(JSON.parse(await call('ulysses_get_version'))).toHaveProperty('apiVersion');
+  });
+
+  it('should record queue metrics for each request', async () => {
+    await call('ulysses_get_version');
+    await call('ulysses_new_sheet', { text: 'Queued' });
+
+    const metrics = server.getQueueMetrics();
+    expect(metrics.concurrency).toBe(1);
+    expect(metrics.recent.map(metric => [metric.label, metric.priority])).toEqual([
+      ['get-version', 'read'],
+      ['new-sheet', 'write']
+    ]);
+  });
+});
+
+describe('Validation and safeguards', () => {
+  beforeEach(async () => {
+    await connect(SEED);
+  });
+
+  it('should reject missing required arguments before reaching Ulysses', async () => {
+    await expect(call('ulysses_new_sheet', {})).rejects.toThrow('text is required');
+  });
+
+  it('should reject unknown tools', async () => {
+    await expect(call('ulysses_format_disk')).rejects.toThrow('Unknown tool');
+  });
+
+  it('should rate limit destructive operations across actions', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    for (let i = 0; i < 10; i++) {
+      await call('ulysses_remove_keywords', { id: intro.identifier, keywords: 'Draft', access_token: TOKEN });
+    }
+    await expect(call('ulysses_trash', { id: intro.identifier, access_token: TOKEN }))
+      .rejects.toThrow('Rate limit exceeded for ulysses_trash: the destructive budget allows 10 calls per minute');
+  });
+
+  it('should not charge calls whose arguments are rejected', async () => {
+    await connect(SEED, { accessToken: TOKEN, rateLimits: { categories: { destructive: { perMinute: 1 } } } });
+    for (let i = 0; i < 3; i++) {
+      await expect(call('ulysses_trash', {})).rejects.toThrow('id is required');
+    }
+
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    const result = await client.callTool({ name: 'ulysses_trash', arguments: { id: intro.identifier } });
+    expect(result._meta?.rateLimit).toMatchObject({ destructive: { remaining: 0, perMinute: 1 } });
+  });
+
+  it('should charge resource reads and prompts to the read budget', async () => {
+    await connect(SEED, { accessToken: TOKEN, rateLimits: { categories: { read: { perMinute: 3 } } } });
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+
+    await client.readResource({ uri: `ulysses://sheet/${intro.identifier}` });
+    await client.getPrompt({ name: 'review_sheet', arguments: { sheet_id: intro.identifier } });
+    await expect(client.readResource({ uri: 'ulysses://library' }))
+      .rejects.toThrow('Rate limit exceeded for ulysses_get_root_items: the read budget allows 3 calls per minute');
+  });
+
+  it('should charge completions only when they list the library again', async () => {
+    await connect(SEED, { accessToken: TOKEN, rateLimits: { categories: { read: { perMinute: 1 } } } });
+    const complete = (value: string) => client.complete({
+      ref: { type: 'ref/prompt', name: 'outline_group' },
+      argument: { name: 'group_id', value }
+    });
+
+    await complete('Nov');
+    await complete('Dra');
+    await call('ulysses_new_group', { name: 'Ideas' });
+    await expect(complete('Ide')).rejects.toThrow('Rate limit exceeded for ulysses_get_root_items');
+  });
+
+  it('should report the remaining quota in tool results', async () => {
+    const result = await client.callTool({ name: 'ulysses_new_sheet', arguments: { text: '# Idea' } });
+    expect(result._meta).toEqual({
+      rateLimit: {
+        global: { remaining: 119, perMinute: 120 },
+        create: { remaining: 29, perMinute: 30 }
+      },
+      queueWaitMs: expect.any(Number)
+    });
+  });
+
+  it('should apply per-tool budgets', async () => {
+    await connect(SEED, { rateLimits: { tools: { ulysses_new_sheet: { perMinute: 1 } } } });
+    await call('ulysses_new_sheet', { text: '# One' });
+
+    const error = await client.callTool({ name: 'ulysses_new_sheet', arguments: { text: '# Two' } }).catch(e => e);
+    expect(error.data).toEqual({
+      reason: 'rate_limited',
+      action: 'ulysses_new_sheet',
+      remediation: expect.stringContaining('Wait 60 seconds before calling ulysses_new_sheet again')
+    });
+    expect(findGroup(await rootItems(), 'Inbox').sheets).toHaveLength(1);
+  });
+});
+
+describe('Read-only mode', () => {
+  beforeEach(async () => {
+    await connect(SEED, { readOnly: true });
+  });
+
+  it('should only list tools that leave the library unchanged', async () => {
+    const names = (await client.listTools()).tools.map(tool => tool.name);
+    expect(names).toContain('ulysses_read_sheet');
+    expect(names).toContain('ulysses_open');
+    expect(names).toContain('ulysses_authorize');
+    expect(names).not.toContain('ulysses_new_sheet');
+    expect(names).not.toContain('ulysses_insert');
+    expect(names).not.toContain('ulysses_attach_keywords');
+    expect(names).not.toContain('ulysses_trash');
+    expect(names).not.toContain('ulysses_set_sheet_title');
+    expect(names).not.toContain('ulysses_remove_note');
+    expect(names).toHaveLength(11);
+  });
+
+  it('should refuse actions that change the library', async () => {
+    const error = await client.callTool({ name: 'ulysses_new_sheet', arguments: { text: '# Idea' } })
+      .catch(e => e as McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.data).toMatchObject({ reason: 'read_only_mode', action: 'new-sheet' });
+
+    await expect(server.executeUlyssesCommand('trash', { id: 'x', 'access-token': TOKEN }))
+      .rejects.toThrow('trash changes the library, but the server is read-only');
+    expect(findGroup(await rootItems(), 'Inbox').sheets).toEqual([]);
+  });
+
+  it('should report the mode in the version', async () => {
+    expect(JSON.parse(await call('ulysses_get_version')).readOnly).toBe(true);
+  });
+});
+
+describe('Reconfiguring a running server', () => {
+  beforeEach(async () => {
+    await connect(SEED, { accessToken: TOKEN });
+  });
+
+  it('should switch read-only mode and announce the changed tool list', async () => {
+    let listChanged = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      listChanged++;
+    });
+
+    server.reconfigure({ readOnly: true });
+    await expect(call('ulysses_new_sheet', { text: '# Idea' })).rejects.toThrow('the server is read-only');
+    expect((await client.listTools()).tools).toHaveLength(11);
+
+    server.reconfigure({ readOnly: false });
+    await call('ulysses_new_sheet', { text: '# Idea' });
+    expect(listChanged).toBe(2);
+  });
+
+  it('should apply new limits and keep options it was not given', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    server.reconfigure({ maxLengths: { note: 5 }, dryRun: true });
+    await expect(call('ulysses_attach_note', { id: intro.identifier, text: 'Too long' }))
+      .rejects.toThrow('text exceeds maximum length of 5 characters');
+    expect(JSON.parse(await call('ulysses_attach_note', { id: intro.identifier, text: 'Ok' }))).toMatchObject({ dryRun: true });
+
+    server.reconfigure({ rateLimits: { global: { perMinute: 1 } } });
+    await call('ulysses_get_version');
+    await expect(call('ulysses_get_version')).rejects.toThrow('the global budget allows 1 calls per minute');
+
+    // Reloading the same limits does not refill the budget
+    server.reconfigure({ rateLimits: { global: { perMinute: 1 } } });
+    await expect(call('ulysses_get_version')).rejects.toThrow('the global budget allows 1 calls per minute');
+  });
+});
+
+describe('Confirming destructive actions', () => {
+  let questions: string[];
+  let answer: 'accept' | 'decline' | 'cancel';
+
+  async function connectWithElicitation(serverOptions: Partial<UlyssesServerOptions> = {}): Promise<void> {
+    await connect(SEED, { accessToken: TOKEN, confirmations: {}, ...serverOptions }, { elicitation: {} });
+    questions = [];
+    answer = 'accept';
+    client.setRequestHandler(ElicitRequestSchema, async (request: ElicitRequest) => {
+      questions.push(request.params.message);
+      return { action: answer, content: {} };
+    });
+  }
+
+  it('should ask with the title and location of the item before trashing it', async () => {
+    await connectWithElicitation();
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+
+    expect(await call('ulysses_trash', { id: intro.identifier })).toBe('Successfully executed trash');
+    expect(questions).toEqual(['Move the sheet "Intro" in iCloud/Novel to the trash?']);
+  });
+
+  it('should name the destination of a move', async () => {
+    await connectWithElicitation();
+    const novel = findGroup(await rootItems(), 'Novel');
+
+    await call('ulysses_move', { id: novel.sheets[1].identifier, targetGroup: novel.containers![0].identifier });
+    expect(questions).toEqual(['Move the sheet "Chapter 1" in iCloud/Novel to iCloud/Novel/Drafts?']);
+    expect(findGroup(await rootItems(), 'Drafts').sheets[0].title).toBe('Chapter 1');
+  });
+
+  it('should not run an action the user declines', async () => {
+    await connectWithElicitation();
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    answer = 'decline';
+
+    const error = await client.callTool({ name: 'ulysses_remove_note', arguments: { id: intro.identifier, index: '0' } })
+      .catch(e => e as McpError);
+    expect(error.data).toMatchObject({ reason: 'confirmation_declined', action: 'remove-note' });
+    expect(questions).toEqual(['Delete note 1 of the sheet "Intro" in iCloud/Novel?']);
+
+    const sheet = JSON.parse(await call('ulysses_read_sheet', { id: intro.identifier })).sheet;
+    expect(sheet.notes).toHaveLength(1);
+  });
+
+  it('should ask only once per session when configured', async () => {
+    await connectWithElicitation({ confirmations: { 'remove-keywords': 'once' } });
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+
+    await call('ulysses_remove_keywords', { id: intro.identifier, keywords: 'Draft' });
+    await call('ulysses_remove_keywords', { id: intro.identifier, keywords: 'Draft' });
+    expect(questions).toHaveLength(1);
+  });
+
+  it('should not ask for actions configured as never', async () => {
+    await connectWithElicitation({ confirmations: { '*': 'never', trash: 'always' } });
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+
+    await call('ulysses_set_sheet_title', { sheet: intro.identifier, title: 'Opening', type: 'heading1' });
+    expect(questions).toEqual([]);
+  });
+
+  it('should refuse destructive actions when the client cannot ask', async () => {
+    await connect(SEED, { accessToken: TOKEN, confirmations: {} });
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+
+    const error = await client.callTool({ name: 'ulysses_trash', arguments: { id: intro.identifier } })
+      .catch(e => e as McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.data).toMatchObject({ reason: 'confirmation_unavailable', action: 'trash' });
+    expect(findGroup(await rootItems(), 'Novel').sheets).toHaveLength(2);
+  });
+});
+
+describe('Dry runs', () => {
+  beforeEach(async () => {
+    await connect(SEED, { accessToken: TOKEN, confirmations: {} });
+  });
+
+  it('should return the URL and effect of a move without moving', async () => {
+    const novel = findGroup(await rootItems(), 'Novel');
+    const intro = novel.sheets[0].identifier;
+    const drafts = novel.containers![0].identifier;
+
+    const preview = JSON.parse(await call('ulysses_move', { id: intro, targetGroup: drafts, index: '2', dry_run: true }));
+    expect(preview).toEqual({
+      dryRun: true,
+      action: 'move',
+      effect: 'would move the sheet "Intro" in iCloud/Novel to iCloud/Novel/Drafts at index 2',
+      url: `ulysses://x-callback-url/move?id=${encodeURIComponent(intro)}&access-token=REDACTED&targetGroup=${encodeURIComponent(drafts)}&index=2`
+    });
+    expect(findGroup(await rootItems(), 'Novel').sheets[0].identifier).toBe(intro);
+  });
+
+  it('should include the callback URLs of callback actions', async () => {
+    const preview = JSON.parse(await call('ulysses_new_sheet', { text: '# Idea\n\nMore', dry_run: true }));
+    expect(preview.effect).toBe('would create a sheet starting with "# Idea" in the Inbox');
+    expect(preview.url).toBe(
+      'ulysses://x-callback-url/new-sheet?x-success=' +
+      encodeURIComponent('ulysses-mcp-callback://x-success?callbackId=dry-run') +
+      '&x-error=' + encodeURIComponent('ulysses-mcp-callback://x-error?callbackId=dry-run') +
+      '&text=%23%20Idea%0A%0AMore'
+    );
+    expect(findGroup(await rootItems(), 'Inbox').sheets).toEqual([]);
+  });
+
+  it('should still validate arguments and count toward the rate limit', async () => {
+    await expect(call('ulysses_insert', { text: 'x', dry_run: true })).rejects.toThrow('id is required');
+
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    for (let i = 0; i < 10; i++) {
+      await call('ulysses_trash', { id: intro.identifier, dry_run: true });
+    }
+    await expect(call('ulysses_trash', { id: intro.identifier, dry_run: true })).rejects.toThrow('Rate limit exceeded');
+  });
+
+  it('should apply read-only mode', async () => {
+    await connect(SEED, { readOnly: true });
+    await expect(call('ulysses_new_sheet', { text: '# Idea', dry_run: true })).rejects.toThrow('the server is read-only');
+  });
+
+  it('should treat every call as a dry run in dry-run mode, reads included', async () => {
+    await connect(SEED, { accessToken: TOKEN, dryRun: true });
+    const dispatched: string[] = [];
+    const dispatch = simulator.dispatch.bind(simulator);
+    simulator.dispatch = (request, signal) => {
+      dispatched.push(request.action);
+      return dispatch(request, signal);
+    };
+
+    const preview = JSON.parse(await call('ulysses_new_group', { name: 'Research', parent: 'Novel' }));
+    expect(preview.effect).toBe('would create the group "Research" in "Novel"');
+    expect(JSON.parse(await call('ulysses_clear_token')).effect).toBe('would delete the stored access token');
+
+    // Structured previews match the read tools' output schemas
+    const listing = await client.callTool({ name: 'ulysses_get_root_items', arguments: {} });
+    expect(listing.structuredContent).toEqual({
+      dryRun: true,
+      action: 'get-root-items',
+      effect: 'would list the whole library',
+      url: expect.stringContaining('get-root-items?x-success=')
+    });
+    const version = await client.callTool({ name: 'ulysses_get_version', arguments: {} });
+    expect(version.structuredContent).toMatchObject({ dryRun: true, effect: 'would ask Ulysses for its version' });
+    expect(dispatched).toEqual([]);
+  });
+
+  it('should preview reads and name items from the last listing', async () => {
+    const sheet = findGroup(await rootItems(), 'Novel').sheets[0];
+    const preview = await client.callTool({
+      name: 'ulysses_read_sheet',
+      arguments: { id: sheet.identifier, text: 'YES', dry_run: true }
+    });
+    expect(preview.structuredContent).toMatchObject({
+      dryRun: true,
+      action: 'read-sheet',
+      effect: 'would read the sheet "Intro" in iCloud/Novel with its text'
+    });
+  });
+
+  it('should not look up titles it does not know', async () => {
+    const preview = JSON.parse(await call('ulysses_trash', { id: 'unknown-id', dry_run: true }));
+    expect(preview.effect).toBe('would move "unknown-id" to the trash');
+  });
+});
+
+describe('Permission policy', () => {
+  let sandbox: string;
+  let auditLogger: AuditLogger;
+
+  beforeEach(() => {
+    sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+    auditLogger = new AuditLogger(sandbox);
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  async function connectWithPolicy(policy: PermissionPolicy): Promise<void> {
+    await connect(SEED, { accessToken: TOKEN, policy, auditLogger });
+  }
+
+  function denials(): AuditEvent[] {
+    return auditEvents(auditLogger).filter(event => event.event_type === 'validation_failure');
+  }
+
+  it('should deny tools the policy denies and record the denial', async () => {
+    await connectWithPolicy(new PermissionPolicy({ tools: { deny: ['ulysses_insert'] } }));
+
+    const error = await client.callTool({ name: 'ulysses_insert', arguments: { id: 'x', text: 'y', access_token: TOKEN } })
+      .catch(e => e as McpError);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(ErrorCode.InvalidRequest);
+    expect(error.data).toMatchObject({ reason: 'policy_denied', action: 'ulysses_insert' });
+    expect(auditEvents(auditLogger)).toEqual([expect.objectContaining({
+      event_type: 'validation_failure',
+      action: 'ulysses_insert',
+      tool: 'ulysses_insert',
+      error: 'ulysses_insert is denied by the policy',
+      details: { id: 'x', text: 'y', access_token: '<redacted>', policy_rule: 'tools.deny' }
+    })]);
+  });
+
+  it('should deny reading a resource when the policy denies the matching tool', async () => {
+    await connectWithPolicy(new PermissionPolicy({ tools: { deny: ['ulysses_read_sheet'] } }));
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+
+    await expect(client.readResource({ uri: `ulysses://sheet/${intro.identifier}` }))
+      .rejects.toThrow('ulysses_read_sheet denied by policy');
+    await client.readResource({ uri: `ulysses://group/${findGroup(await rootItems(), 'Novel').identifier}` });
+    expect(denials()).toEqual([expect.objectContaining({
+      action: 'ulysses_read_sheet',
+      tool: 'ulysses_read_sheet',
+      details: { id: intro.identifier, resource: `ulysses://sheet/${intro.identifier}`, policy_rule: 'tools.deny' }
+    })]);
+  });
+
+  it('should deny prompts that read what the policy denies', async () => {
+    await connectWithPolicy(new PermissionPolicy({ tools: { allow: ['ulysses_get_root_items', 'ulysses_get_item'] } }));
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+
+    await expect(client.getPrompt({ name: 'review_sheet', arguments: { sheet_id: intro.identifier } }))
+      .rejects.toThrow('ulysses_read_sheet denied by policy');
+    expect(denials()).toEqual([expect.objectContaining({
+      action: 'ulysses_read_sheet',
+      details: { id: intro.identifier, prompt: 'review_sheet', policy_rule: 'tools.allow' }
+    })]);
+  });
+
+  it('should confine writes to the writable groups', async () => {
+    await connectWithPolicy(new PermissionPolicy({ writes: { paths: ['iCloud/Inbox'] } }));
+
+    const created = JSON.parse(await call('ulysses_new_sheet', { text: '# Idea' }));
+    await call('ulysses_insert', { id: created.targetId, text: 'More' });
+
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await expect(call('ulysses_insert', { id: intro.identifier, text: 'More' }))
+      .rejects.toThrow(`id ${intro.identifier} is outside the groups the policy allows writing to`);
+    await expect(call('ulysses_move', { id: created.targetId, targetGroup: 'Novel' })).rejects.toThrow('denied by policy');
+    expect(denials().map(denial => denial.details?.policy_rule)).toEqual(['writes', 'writes']);
+  });
+
+  it('should check scope against the current library, not a cached listing', async () => {
+    await connectWithPolicy(new PermissionPolicy({ writes: { paths: ['iCloud/Inbox'] } }));
+    const created = JSON.parse(await call('ulysses_new_sheet', { text: '# Idea' }));
+    await call('ulysses_insert', { id: created.targetId, text: 'More' });
+
+    // Moved in Ulysses, outside the server
+    const novel = findGroup(await rootItems(), 'Novel');
+    await simulator.dispatch({
+      action: 'move',
+      params: { id: created.targetId, targetGroup: novel.identifier, 'access-token': TOKEN },
+      needsCallback: true
+    });
+
+    await expect(call('ulysses_insert', { id: created.targetId, text: 'Again' }))
+      .rejects.toThrow('outside the groups the policy allows writing to');
+  });
+
+  it('should deny scoped writes with a policy reason when the library cannot be listed', async () => {
+    await connect(SEED, { policy: new PermissionPolicy({ writes: { paths: ['iCloud/Inbox'] } }), auditLogger });
+
+    const error = await client.callTool({ name: 'ulysses_new_sheet', arguments: { text: '# Idea' } }).catch(e => e as McpError);
+    expect(error.data).toMatchObject({ reason: 'policy_denied', action: 'ulysses_new_sheet' });
+    expect(error.message).toContain('the library could not be listed: no access token is available');
+    expect(denials()).toEqual([expect.objectContaining({
+      action: 'ulysses_new_sheet',
+      details: { text: '# Idea', policy_rule: 'writes' }
+    })]);
+  });
+
+  it('should only trash items created in this session', async () => {
+    await connectWithPolicy(new PermissionPolicy({ trash: { sessionItemsOnly: true } }));
+
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await expect(call('ulysses_trash', { id: intro.identifier })).rejects.toThrow('not created in this session');
+
+    const created = JSON.parse(await call('ulysses_new_sheet', { text: '# Scratch' }));
+    expect(await call('ulysses_trash', { id: created.targetId })).toBe('Successfully executed trash');
+  });
+});
+
+describe('Audit log', () => {
+  let sandbox: string;
+  let auditLogger: AuditLogger;
+
+  beforeEach(async () => {
+    sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+    auditLogger = new AuditLogger(sandbox);
+    await connect(SEED, { accessToken: TOKEN, auditLogger });
+  });
+
+  afterEach(() => {
+    rmSync(sandbox, { recursive: true, force: true });
+  });
+
+  it('should record one event per tool call with its client, duration and correlation ID', async () => {
+    await call('ulysses_get_version');
+    const created = JSON.parse(await call('ulysses_new_sheet', { text: '# Idea', access_token: TOKEN }));
+
+    const events = auditEvents(auditLogger);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      event_type: 'operation_success',
+      action: 'get-version',
+      tool: 'ulysses_get_version',
+      client: 'test-client',
+      success: true
+    });
+    expect(events[1]).toMatchObject({
+      event_type: 'operation_success',
+      action: 'new-sheet',
+      details: { text: '# Idea', access_token: '<redacted>', target_id: created.targetId }
+    });
+    expect(events[0].duration_ms).toBeGreaterThanOrEqual(0);
+    expect(events[0].correlation_id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(events[1].correlation_id).not.toBe(events[0].correlation_id);
+  });
+
+  it('should report how long a call waited in the request queue', async () => {
+    const dispatch = simulator.dispatch.bind(simulator);
+    let started!: () => void;
+    let release!: () => void;
+    const writeStarted = new Promise<void>(resolve => { started = resolve; });
+    const writeReleased = new Promise<void>(resolve => { release = resolve; });
+    simulator.dispatch = async (request, signal) => {
+      if (request.action === 'new-sheet') {
+        started();
+        await writeReleased;
+      }
+      return dispatch(request, signal);
+    };
+
+    const write = client.callTool({ name: 'ulysses_new_sheet', arguments: { text: '# Slow' } });
+    await writeStarted;
+    // Queued behind the slow write
+    const pending = client.callTool({ name: 'ulysses_get_version', arguments: {} });
+    await new Promise(resolve => setTimeout(resolve, 40));
+    release();
+    const [, version] = await Promise.all([write, pending]);
+
+    expect(version._meta?.queueWaitMs).toBeGreaterThanOrEqual(20);
+    const event = auditEvents(auditLogger).find(event => event.action === 'get-version')!;
+    expect(event.queue_wait_ms).toBe(version._meta?.queueWaitMs);
+    expect(event.queue_wait_ms).toBeLessThanOrEqual(event.duration_ms ?? 0);
+  });
+
+  it('should record the outcome of destructive operations', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await call('ulysses_trash', { id: intro.identifier });
+    await expect(call('ulysses_trash', { id: 'missing' })).rejects.toThrow();
+
+    const events = auditEvents(auditLogger).filter(event => event.event_type === 'destructive_operation');
+    expect(events).toEqual([
+      expect.objectContaining({ action: 'trash', success: true, details: { id: intro.identifier } }),
+      expect.objectContaining({ action: 'trash', success: false, error: expect.stringContaining('missing') })
+    ]);
+  });
+
+  it('should record failures of other calls and flag dry runs', async () => {
+    await expect(call('ulysses_read_sheet', { id: 'missing' })).rejects.toThrow();
+    await call('ulysses_new_group', { name: 'Research', dry_run: true });
+
+    expect(auditEvents(auditLogger)).toEqual([
+      expect.objectContaining({ event_type: 'operation_failure', action: 'read-sheet', success: false }),
+      expect.objectContaining({ event_type: 'operation_success', action: 'new-group', dry_run: true })
+    ]);
+  });
+
+  it('should record a rate limit violation instead of a failure', async () => {
+    for (let i = 0; i < 10; i++) {
+      await call('ulysses_trash', { id: 'missing' }).catch(() => undefined);
+    }
+    await expect(call('ulysses_trash', { id: 'missing' })).rejects.toThrow('Rate limit exceeded');
+
+    const events = auditEvents(auditLogger);
+    expect(events).toHaveLength(11);
+    expect(events[10]).toMatchObject({
+      event_type: 'rate_limit_violation',
+      action: 'trash',
+      tool: 'ulysses_trash',
+      details: { id: 'missing', budget: 'destructive', limit: 10, retry_after_ms: expect.any(Number) }
+    });
+  });
+
+  it('should summarize and filter the audit log through ulysses_audit_query', async () => {
+    const intro = findGroup(await rootItems(), 'Novel').sheets[0];
+    await call('ulysses_trash', { id: intro.identifier });
+    await expect(call('ulysses_trash', { id: 'missing' })).rejects.toThrow();
+
+    const summary = await call('ulysses_audit_query');
+    expect(summary).toContain('| trash          | 2      | 1        | 50%          |');
+
+    const events = JSON.parse(await call('ulysses_audit_query', { item_id: intro.identifier, format: 'events' }));
+    expect(events).toEqual([expect.objectContaining({ action: 'trash', success: true, details: { id: intro.identifier } })]);
+
+    await expect(call('ulysses_audit_query', { since: 'yesterday-ish' })).rejects.toThrow('since must be a date and time');
+  });
+
+  it('should say when an audit query listed only the most recent events', async () => {
+    for (const id of ['a', 'b', 'c']) {
+      await expect(call('ulysses_trash', { id })).rejects.toThrow();
+    }
+
+    const listing = await client.callTool({ name: 'ulysses_audit_query', arguments: { action: 'trash', format: 'events', limit: 2 } });
+    const [events, note] = listing.content as Array<{ text: string }>;
+    expect(JSON.parse(events.text).map((event: { details: { id: string } }) => event.details.id)).toEqual(['b', 'c']);
+    expect(note.text).toBe('Listed the 2 most recent matching events; older events match too. Raise limit to list more, or use the summary format to count them all.');
+
+    const summary = await client.callTool({ name: 'ulysses_audit_query', arguments: { action: 'trash', limit: 2 } });
+    expect(summary.content).toEqual([{ type: 'text', text: expect.stringMatching(/^3 events from/) }]);
+  });
+
+  it('should answer other tool calls while an audit query reads the log', async () => {
+    for (let i = 0; i < 2000; i++) {
+      auditLogger.logSuccess('get-item', { id: `sheet-${i}` });
+    }
+    await auditLogger.flush();
+
+    const finished: string[] = [];
+    await Promise.all([
+      call('ulysses_audit_query').then(() => finished.push('ulysses_audit_query')),
+      call('ulysses_get_version').then(() => finished.push('ulysses_get_version'))
+    ]);
+    expect(finished).toEqual(['ulysses_get_version', 'ulysses_audit_query']);
+  });
+
+  it('should refuse audit queries without an audit log', async () => {
+    await connect(SEED, { accessToken: TOKEN });
+    await expect(call('ulysses_audit_query')).rejects.toThrow('The audit log is not enabled on this server');
+  });
+});
@@ -0,0 +1,1542 @@
+/**
+ * Ulysses MCP Server
+ *
+ * Validates tool calls, applies the permission policy, action whitelist and
+ * rate limits, and hands each x-callback-url action to a pluggable backend
+ * (the real Ulysses app on macOS, or the in-memory simulator).
+ */
+
+import { randomUUID } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  CallToolResult,
+  ListResourcesRequestSchema,
+  ListResourcesResult,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  CompleteRequestSchema,
+  CompleteResult,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AuditContext, AuditLogger } from "./audit-logger.js";
+import { AuditQuery, parseAuditQuery, runAuditQuery } from "./audit-query.js";
+import { CallbackResponse, UlyssesBackend, buildUlyssesUrl } from "./backend.js";
+import { ItemLocation, LibraryIndex, completeArgument } from "./completions.js";
+import { ConfirmationGate, ConfirmationModes, describeDestructiveAction } from "./confirmation.js";
+import {
+  accessTokenRequiredError,
+  confirmationDeclinedError,
+  confirmationUnavailableError,
+  policyDeniedError,
+  rateLimitedError,
+  readOnlyModeError,
+  requestCancelledError,
+  UlyssesErrorData,
+  ulyssesError
+} from "./errors.js";
+import { describeEffect } from "./effects.js";
+import { LibraryChanges, LibraryWatcher } from "./library-watcher.js";
+import { CallbackPayloads, Group, PayloadAction, hasPayloadModel, parseCallbackPayload } from "./models.js";
+import { PermissionPolicy, PolicyContext } from "./policy.js";
+import { PROMPTS, PromptContext, getPrompt } from "./prompts.js";
+import { RateLimitCategory, RateLimiter, RateLimits, RemainingQuota } from "./rate-limiter.js";
+import { QueueMetrics, RequestQueue } from "./request-queue.js";
+import { RESOURCE_TEMPLATES, listLibraryResources, parseResourceUri, resourceUri } from "./resources.js";
+import { TokenStore } from "./token-store.js";
+import { DEFAULT_MAX_LENGTHS, DESTRUCTIVE_ACTIONS, MaxLengths, TOOLS } from "./tools.js";
+
+// Actions that require callbacks to receive data
+export const CALLBACK_ACTIONS = new Set([
+  "authorize",
+  "read-sheet",
+  "get-item",
+  "get-root-items",
+  "get-version",
+  "new-sheet",
+  "new-group",
+  "copy"
+]);
+
+// Read-only actions: dispatched ahead of writes, identical in-flight requests are shared
+export const READ_ACTIONS = new Set([
+  "get-version",
+  "read-sheet",
+  "get-item",
+  "get-root-items"
+]);
+
+// Actions whose x-success callback carries the identifier of the item they created
+const CREATE_ACTIONS = new Set([
+  "new-sheet",
+  "new-group",
+  "copy"
+]);
+
+// Whitelist of allowed Ulysses API actions
+export const ALLOWED_ACTIONS = new Set([
+  "new-sheet",
+  "new-group",
+  "insert",
+  "attach-note",
+  "attach-keywords",
+  "attach-image",
+  "open",
+  "open-all",
+  "open-recent",
+  "open-favorites",
+  "get-version",
+  "authorize",
+  "read-sheet",
+  "get-item",
+  "get-root-items",
+  "move",
+  "copy",
+  "trash",
+  "set-group-title",
+  "set-sheet-title",
+  "remove-keywords",
+  "update-note",
+  "remove-note"
+]);
+
+// Actions that change the library: refused by a read-only server
+export const MUTATING_ACTIONS = new Set([
+  "new-sheet",
+  "new-group",
+  "insert",
+  "attach-note",
+  "attach-keywords",
+  "attach-image",
+  "move",
+  "copy",
+  "trash",
+  "set-group-title",
+  "set-sheet-title",
+  "remove-keywords",
+  "update-note",
+  "remove-note"
+]);
+
+// Stands in for the per-request callback identifier in dry-run URLs
+const DRY_RUN_CALLBACK_ID = "dry-run";
+
+const LIBRARY_POLL_INTERVAL_MS = 30000;
+const COMPLETION_CACHE_TTL_MS = 30000;
+// Most recent audit events a query lists unless it sets a limit
+const AUDIT_QUERY_LIMIT = 100;
+
+/**
+ * Validates that a required parameter is present and non-empty
+ */
+export function validateRequired(value: unknown, fieldName: string): string {
+  if (value === undefined || value === null) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${fieldName} is required`
+    );
+  }
+  
+  const strValue = String(value).trim();
+  if (strValue === '') {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${fieldName} cannot be empty`
+    );
+  }
+  
+  return strValue;
+}
+
+/**
+ * Validates that an enum value is one of the allowed values
+ */
+export function validateEnum(value: string | undefined, allowedValues: string[], fieldName: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  
+  if (!allowedValues.includes(value)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${fieldName} must be one of: ${allowedValues.join(', ')}`
+    );
+  }
+  
+  return value;
+}
+
+/**
+ * Validates that a string length is within reasonable bounds
+ */
+export function validateLength(value: string, maxLength: number, fieldName: string): string {
+  if (value.length > maxLength) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${fieldName} exceeds maximum length of ${maxLength} characters`
+    );
+  }
+  return value;
+}
+
+/**
+ * Identifies identical requests so concurrent reads can share one callback
+ */
+function requestKey(action: string, params: Record<string, string>): string {
+  const sorted = Object.keys(params).sort().map(key => [key, params[key]]);
+  return `${action}:${JSON.stringify(sorted)}`;
+}
+
+/**
+ * The Ulysses action a tool runs, e.g. ulysses_set_sheet_title -> set-sheet-title
+ */
+function toolAction(toolName: string): string {
+  return toolName.replace(/^ulysses_/, "").replace(/_/g, "-");
+}
+
+/**
+ * The rate limit budget a tool draws from besides the global and its own
+ */
+function rateLimitCategory(toolName: string): RateLimitCategory {
+  const action = toolAction(toolName);
+  if (DESTRUCTIVE_ACTIONS.has(action)) {
+    return "destructive";
+  }
+  return MUTATING_ACTIONS.has(action) ? "create" : "read";
+}
+
+/**
+ * Hides the access token in URLs shown to the client
+ */
+function redactParams(params: Record<string, string>): Record<string, string> {
+  return "access-token" in params ? { ...params, "access-token": "REDACTED" } : params;
+}
+
+/**
+ * Formats the x-success payload of a create action as
+ * { action, targetId } so callers can address the new item
+ */
+function formatCreatedItem(action: string, data: Record<string, string>): string {
+  const targetId = data.targetId;
+  if (!targetId) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Ulysses did not return an identifier for ${action}`
+    );
+  }
+
+  return JSON.stringify({
+    action,
+    targetId
+  }, null, 2);
+}
+
+/**
+ * Returns a typed payload as structuredContent, with the same JSON as text
+ * for clients that do not read structured tool output
+ */
+function structuredResult(payload: object): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(payload, null, 2) }],
+    structuredContent: { ...payload }
+  };
+}
+
+/**
+ * What a dry run returns instead of running the action
+ */
+interface DryRunPreview {
+  dryRun: true;
+  action: string;
+  effect: string;
+  url: string;
+}
+
+export interface CommandOptions {
+  /** Aborting stops waiting and removes the request from the queue */
+  signal?: AbortSignal;
+  /** Check the action and describe it instead of sending it */
+  dryRun?: boolean;
+  /** The tool call the command belongs to, for the audit log */
+  audit?: ToolCallAudit;
+}
+
+/**
+ * What is known about a tool call while it runs; written as one audit event
+ */
+export interface ToolCallAudit {
+  correlationId: string;
+  tool: string;
+  /** The Ulysses action the call runs, once known */
+  action?: string;
+  params: Record<string, unknown>;
+  client?: string;
+  startedAt: number;
+  dryRun: boolean;
+  /** Identifier of the item the call created */
+  targetId?: string;
+  /** Time the call's requests spent waiting in the request queue */
+  queueWaitMs?: number;
+  /** What is left of the rate limit budgets the call drew from, once it was charged */
+  quota?: RemainingQuota;
+  /** Set once the call's event is written, e.g. by a policy denial */
+  recorded: boolean;
+}
+
+export interface UlyssesServerOptions {
+  backend: UlyssesBackend;
+  /** Maximum number of x-callback-url requests dispatched at once (default 1) */
+  concurrency?: number;
+  /** Access token used when none is stored (ULYSSES_ACCESS_TOKEN) */
+  accessToken?: string;
+  /** Where the token captured by ulysses_authorize is kept; without it tokens are not persisted */
+  tokenStore?: TokenStore;
+  /** How often the library is polled while resources are subscribed (default 30s) */
+  libraryPollIntervalMs?: number;
+  /** Permission policy checked before every tool call; without it every tool may run */
+  policy?: PermissionPolicy;
+  /** Where tool calls, policy denials and rate limit violations are recorded */
+  auditLogger?: AuditLogger;
+  /** Hide and refuse every action that changes the library (ULYSSES_MCP_READ_ONLY) */
+  readOnly?: boolean;
+  /** When destructive actions are confirmed with the user (default: always) */
+  confirmations?: ConfirmationModes;
+  /** Treat every tool call as a dry run (ULYSSES_MCP_DRY_RUN) */
+  dryRun?: boolean;
+  /** Budgets tool calls draw from (default: DEFAULT_RATE_LIMITS) */
+  rateLimits?: RateLimits;
+  /** Maximum argument lengths (default: DEFAULT_MAX_LENGTHS) */
+  maxLengths?: Partial<MaxLengths>;
+}
+
+/**
+ * Options that can change while the server runs
+ */
+export type ReconfigurableOptions = Pick<
+  UlyssesServerOptions,
+  "accessToken" | "policy" | "readOnly" | "confirmations" | "dryRun" | "rateLimits" | "maxLengths"
+>;
+
+export class UlyssesMcpServer {
+  readonly server: Server;
+  private backend: UlyssesBackend;
+  private queue: RequestQueue;
+  private accessToken?: string;
+  private tokenStore?: TokenStore;
+  private libraryWatcher: LibraryWatcher;
+  private libraryIndex: LibraryIndex;
+  private subscriptions = new Set<string>();
+  private policy?: PermissionPolicy;
+  private auditLogger?: AuditLogger;
+  private readOnly: boolean;
+  private confirmationGate: ConfirmationGate;
+  private dryRun: boolean;
+  // Identifiers of items created by tool calls in this session
+  private createdItems = new Set<string>();
+
+  private rateLimiter: RateLimiter;
+  private maxLengths: MaxLengths;
+
+  constructor(options: UlyssesServerOptions) {
+    this.backend = options.backend;
+    this.queue = new RequestQueue({ concurrency: options.concurrency ?? 1 });
+    this.accessToken = options.accessToken;
+    this.tokenStore = options.tokenStore;
+    this.policy = options.policy;
+    this.auditLogger = options.auditLogger;
+    this.readOnly = options.readOnly ?? false;
+    this.confirmationGate = new ConfirmationGate(options.confirmations);
+    this.dryRun = options.dryRun ?? false;
+    this.rateLimiter = new RateLimiter(options.rateLimits);
+    this.maxLengths = { ...DEFAULT_MAX_LENGTHS, ...options.maxLengths };
+    this.libraryWatcher = new LibraryWatcher({
+      intervalMs: options.libraryPollIntervalMs ?? LIBRARY_POLL_INTERVAL_MS,
+      fetch: async (signal) => (await this.readUlysses("get-root-items", {
+        "access-token": this.requireAccessToken("get-root-items"),
+        recursive: "YES"
+      }, { signal })).items,
+      onChange: (changes) => this.notifyLibraryChanges(changes)
+    });
+    this.libraryIndex = new LibraryIndex({
+      ttlMs: COMPLETION_CACHE_TTL_MS,
+      fetch: async () => (await this.readUlysses("get-root-items", {
+        "access-token": this.requireAccessToken("get-root-items"),
+        recursive: "YES"
+      })).items
+    });
+
+    this.server = new Server(
+      {
+        name: "ulysses-mcp",
+        version: "0.1.0",
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: { subscribe: true, listChanged: true },
+          prompts: {},
+          completions: {},
+        },
+      }
+    );
+
+    /**
+     * Handler that lists all available Ulysses tools
+     */
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: this.readOnly
+          ? TOOLS.filter(tool => !MUTATING_ACTIONS.has(toolAction(tool.name)))
+          : TOOLS
+      };
+    });
+
+    /**
+     * Handler for executing Ulysses tool calls
+     */
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const audit = this.startAudit(request);
+      try {
+        await this.enforcePolicy(request, audit);
+        const result = await this.handleToolCall(request, extra.signal, audit);
+        this.recordToolCall(audit);
+        return { ...result, _meta: { ...result._meta, rateLimit: audit.quota, queueWaitMs: audit.queueWaitMs } };
+      } catch (error) {
+        const mcpError = error instanceof McpError
+          ? error
+          : new McpError(
+            ErrorCode.InternalError,
+            `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+          );
+        this.recordToolCall(audit, mcpError);
+        throw mcpError;
+      }
+    });
+
+    /**
+     * Handlers that expose the library as resources, read with the server-side token
+     */
+    this.server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+      return this.listResources(extra.signal);
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: RESOURCE_TEMPLATES };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      return this.readResource(request.params.uri, extra.signal);
+    });
+
+    /**
+     * Handlers for resource subscriptions; the library is polled while any exist
+     */
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const uri = resourceUri(parseResourceUri(request.params.uri));
+      this.requireAccessToken("get-root-items");
+      await this.libraryWatcher.start();
+      this.subscriptions.add(uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(resourceUri(parseResourceUri(request.params.uri)));
+      if (this.subscriptions.size === 0) {
+        this.libraryWatcher.stop();
+      }
+      return {};
+    });
+
+    /**
+     * Handlers for writing workflow prompts, filled in with library context
+     */
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: PROMPTS };
+    });
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      return getPrompt(request.params.name, request.params.arguments ?? {}, this.promptContext(request.params.name, extra.signal));
+    });
+
+    /**
+     * Handler that completes prompt arguments and resource template variables
+     */
+    this.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      return { completion: await this.complete(ref, argument.name, argument.value) };
+    });
+
+    this.server.onclose = () => {
+      this.subscriptions.clear();
+      this.createdItems.clear();
+      this.confirmationGate.reset();
+      this.libraryWatcher.stop();
+    };
+  }
+
+  /**
+   * Connect the server to an MCP transport
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Applies options changed while the server runs, e.g. by a config reload.
+   * Only the options given change; new confirmation modes start the session's
+   * confirmations over, and budgets whose rate limit changed start full while
+   * the others keep their levels.
+   */
+  reconfigure(options: ReconfigurableOptions): void {
+    if ("accessToken" in options) {
+      this.accessToken = options.accessToken;
+    }
+    if ("policy" in options) {
+      this.policy = options.policy;
+    }
+    if ("confirmations" in options) {
+      this.confirmationGate = new ConfirmationGate(options.confirmations);
+    }
+    if ("dryRun" in options) {
+      this.dryRun = options.dryRun ?? false;
+    }
+    if ("rateLimits" in options) {
+      this.rateLimiter.setLimits(options.rateLimits);
+    }
+    if ("maxLengths" in options) {
+      this.maxLengths = { ...DEFAULT_MAX_LENGTHS, ...options.maxLengths };
+    }
+    if ("readOnly" in options && (options.readOnly ?? false) !== this.readOnly) {
+      this.readOnly = options.readOnly ?? false;
+      // Mutating tools appear or disappear
+      if (this.server.transport) {
+        this.server.sendToolListChanged().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Queue depth and per-request queue wait times
+   */
+  getQueueMetrics(): QueueMetrics {
+    return this.queue.getMetrics();
+  }
+
+  /**
+   * Starts the audit record of a tool call
+   */
+  private startAudit(request: CallToolRequest): ToolCallAudit {
+    const { name, arguments: args = {} } = request.params;
+    const action = toolAction(name);
+    return {
+      correlationId: randomUUID(),
+      tool: name,
+      action: ALLOWED_ACTIONS.has(action) ? action : undefined,
+      params: args,
+      client: this.server.getClientVersion()?.name,
+      startedAt: Date.now(),
+      dryRun: this.dryRun || args.dry_run === true,
+      recorded: false
+    };
+  }
+
+  /**
+   * The fields that tie an audit event to its tool call
+   */
+  private auditContext(audit: ToolCallAudit): AuditContext {
+    return {
+      correlation_id: audit.correlationId,
+      tool: audit.tool,
+      client: audit.client,
+      duration_ms: Date.now() - audit.startedAt,
+      queue_wait_ms: audit.queueWaitMs,
+      dry_run: audit.dryRun || undefined
+    };
+  }
+
+  /**
+   * Writes the outcome of a tool call, unless a check already recorded it
+   */
+  private recordToolCall(audit: ToolCallAudit, error?: McpError): void {
+    if (!this.auditLogger || audit.recorded) {
+      return;
+    }
+    audit.recorded = true;
+    const context = this.auditContext(audit);
+    const action = audit.action ?? audit.tool;
+    const details: Record<string, unknown> = audit.targetId ? { ...audit.params, target_id: audit.targetId } : { ...audit.params };
+    // The reason code survives privacy mode, which drops error messages
+    const reason = (error?.data as UlyssesErrorData | undefined)?.reason;
+    if (reason) {
+      details.error_reason = reason;
+    }
+
+    if (audit.tool === "ulysses_authorize") {
+      this.auditLogger.logAuthorization(String(audit.params.appname ?? ""), !error, error?.message, context);
+    } else if (DESTRUCTIVE_ACTIONS.has(action)) {
+      this.auditLogger.logDestructiveOperation(action, !error, details, error?.message, context);
+    } else if (error) {
+      this.auditLogger.logFailure(action, error.message, details, context);
+    } else {
+      this.auditLogger.logSuccess(action, details, context);
+    }
+  }
+
+  /**
+   * Takes a token for a tool call from its rate limit budgets, once its
+   * arguments are valid and before anything is sent or previewed; a call is
+   * charged only once. A violation is the audit event of the tool call it stops.
+   */
+  private chargeToolCall(audit: ToolCallAudit): void {
+    if (audit.quota) {
+      return;
+    }
+    const decision = this.rateLimiter.take(audit.tool, rateLimitCategory(audit.tool));
+    if (decision.allowed) {
+      audit.quota = decision.quota;
+      return;
+    }
+
+    this.auditLogger?.logRateLimitViolation(
+      audit.action ?? audit.tool,
+      { ...audit.params, budget: decision.budget, limit: decision.perMinute, retry_after_ms: decision.retryAfterMs },
+      this.auditContext(audit)
+    );
+    audit.recorded = true;
+    throw rateLimitedError(audit.tool, decision.budget, decision.perMinute, decision.retryAfterMs);
+  }
+
+  /**
+   * Executes a Ulysses x-callback-url command through the configured backend
+   * For callback actions, waits for Ulysses to respond with data
+   * Aborting the signal stops waiting and removes the request from the queue
+   * A read-only server rejects actions that change the library
+   * A dry run returns the URL that would be opened and its effect instead
+   * The action and any created item are noted on the tool call's audit record
+   */
+  async executeUlyssesCommand(
+    action: string,
+    params: Record<string, string> = {},
+    options: CommandOptions = {}
+  ): Promise<string> {
+    if (options.audit) {
+      options.audit.action = action;
+    }
+    if (options.dryRun) {
+      return JSON.stringify(this.previewCommand(action, params, options.audit), null, 2);
+    }
+    const response = await this.dispatch(action, params, options);
+
+    if (!response) {
+      return `Successfully executed ${action}`;
+    }
+    if (CREATE_ACTIONS.has(action)) {
+      const result = formatCreatedItem(action, response.data);
+      this.createdItems.add(response.data.targetId);
+      if (options.audit) {
+        options.audit.targetId = response.data.targetId;
+      }
+      return result;
+    }
+    if (hasPayloadModel(action)) {
+      return JSON.stringify(parseCallbackPayload(action, response.data), null, 2);
+    }
+    // Format the callback response
+    return JSON.stringify(response.data, null, 2);
+  }
+
+  /**
+   * Runs a create action and returns the new item, or the dry-run preview,
+   * as structured content
+   */
+  private async createItem(action: string, params: Record<string, string>, options: CommandOptions): Promise<CallToolResult> {
+    // Both results are JSON objects
+    return structuredResult(JSON.parse(await this.executeUlyssesCommand(action, params, options)));
+  }
+
+  /**
+   * Runs a read tool's action and returns its payload, or the dry-run preview,
+   * as structured content
+   */
+  private async readTool(action: PayloadAction, params: Record<string, string>, options: CommandOptions): Promise<CallToolResult> {
+    if (options.audit) {
+      options.audit.action = action;
+    }
+    if (options.dryRun) {
+      return structuredResult(this.previewCommand(action, params, options.audit));
+    }
+    const payload = await this.readUlysses(action, params, options);
+    if (action === "get-root-items" && params.recursive !== "NO") {
+      // Lets dry runs name the items an agent just looked at
+      this.libraryIndex.update((payload as CallbackPayloads["get-root-items"]).items);
+    }
+    return structuredResult(payload);
+  }
+
+  /**
+   * Runs a read action and returns its validated, typed payload
+   */
+  async readUlysses<A extends PayloadAction>(
+    action: A,
+    params: Record<string, string> = {},
+    options: CommandOptions = {}
+  ): Promise<CallbackPayloads[A]> {
+    const response = await this.dispatch(action, params, options);
+    if (!response) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Ulysses did not return data for ${action}`
+      );
+    }
+    return parseCallbackPayload(action, response.data);
+  }
+
+  /**
+   * The stored access token, falling back to the configured one
+   */
+  private currentAccessToken(): string | undefined {
+    return this.tokenStore?.get() ?? this.accessToken;
+  }
+
+  /**
+   * The access token for an action: an explicit access_token argument wins,
+   * otherwise the stored or configured token is used
+   */
+  private requireAccessToken(action: string, override?: unknown): string {
+    if (override !== undefined && override !== null) {
+      return validateRequired(override, "access_token");
+    }
+    const accessToken = this.currentAccessToken();
+    if (!accessToken) {
+      throw accessTokenRequiredError(action);
+    }
+    return accessToken;
+  }
+
+  /**
+   * Checks a tool call against the permission policy and records denials
+   */
+  private async enforcePolicy(request: CallToolRequest, audit: ToolCallAudit): Promise<void> {
+    if (!this.policy) {
+      return;
+    }
+    const { name, arguments: args = {} } = request.params;
+    const decision = await this.policy.check(name, args, this.policyContext(audit.dryRun));
+    if (!decision.allowed) {
+      this.auditLogger?.logValidationFailure(
+        name,
+        decision.reason,
+        { ...args, policy_rule: decision.rule },
+        this.auditContext(audit)
+      );
+      audit.recorded = true;
+      throw policyDeniedError(name, decision.rule, decision.reason);
+    }
+  }
+
+  /**
+   * Checks library access outside a tool call, by a resource read or a
+   * prompt, against the policy of the tool that reads the same data, and
+   * records denials with where the access came from
+   */
+  private async enforceReadPolicy(
+    tool: string,
+    args: Record<string, unknown>,
+    source: Record<string, string>
+  ): Promise<void> {
+    if (!this.policy) {
+      return;
+    }
+    const startedAt = Date.now();
+    const decision = await this.policy.check(tool, args, this.policyContext(false));
+    if (!decision.allowed) {
+      this.auditLogger?.logValidationFailure(
+        tool,
+        decision.reason,
+        { ...args, ...source, policy_rule: decision.rule },
+        this.libraryReadContext(tool, startedAt)
+      );
+      throw policyDeniedError(tool, decision.rule, decision.reason);
+    }
+  }
+
+  /**
+   * Charges library access outside a tool call to the global and read
+   * budgets, and the budget of the tool that reads the same data
+   */
+  private chargeLibraryRead(tool: string, args: Record<string, unknown>, source: Record<string, string>): void {
+    const decision = this.rateLimiter.take(tool, "read");
+    if (decision.allowed) {
+      return;
+    }
+    this.auditLogger?.logRateLimitViolation(
+      toolAction(tool),
+      { ...args, ...source, budget: decision.budget, limit: decision.perMinute, retry_after_ms: decision.retryAfterMs },
+      this.libraryReadContext(tool, Date.now())
+    );
+    throw rateLimitedError(tool, decision.budget, decision.perMinute, decision.retryAfterMs);
+  }
+
+  /**
+   * The audit fields of library access outside a tool call, under the
+   * name of the tool that reads the same data
+   */
+  private libraryReadContext(tool: string, startedAt: number): AuditContext {
+    return {
+      correlation_id: randomUUID(),
+      tool,
+      client: this.server.getClientVersion()?.name,
+      duration_ms: Date.now() - startedAt
+    };
+  }
+
+  /**
+   * Checks library access outside a tool call against the policy and the
+   * rate limits
+   */
+  private async guardLibraryRead(tool: string, args: Record<string, unknown>, source: Record<string, string>): Promise<void> {
+    await this.enforceReadPolicy(tool, args, source);
+    this.chargeLibraryRead(tool, args, source);
+  }
+
+  /**
+   * Library access for policy checks
+   */
+  private policyContext(dryRun: boolean): PolicyContext {
+    return {
+      // Scope is decided on a fresh listing, never the completion cache,
+      // except in a dry run, which sends nothing to Ulysses
+      library: async () => {
+        if (dryRun) {
+          const cached = this.libraryIndex.peek();
+          if (!cached) {
+            throw new Error("a dry run does not read the library, and no listing is cached");
+          }
+          return cached.items;
+        }
+        if (!this.currentAccessToken()) {
+          throw new Error("no access token is available to list it; run ulysses_authorize or set ULYSSES_ACCESS_TOKEN");
+        }
+        // Refreshes the cache that dry runs and confirmations use
+        this.libraryIndex.invalidate();
+        return (await this.libraryIndex.get()).items;
+      },
+      createdInSession: (id) => this.createdItems.has(id)
+    };
+  }
+
+  /**
+   * Runs the same checks as dispatch and describes the action instead of
+   * sending it. The access token is redacted. Nothing is sent to Ulysses,
+   * so items are only named by title if the library listing is cached.
+   */
+  private previewCommand(action: string, params: Record<string, string>, audit?: ToolCallAudit): DryRunPreview {
+    this.checkAction(action);
+    if (audit) {
+      this.chargeToolCall(audit);
+    }
+    const locations = this.libraryIndex.peek()?.locations;
+    return {
+      dryRun: true,
+      action,
+      effect: `would ${describeEffect(action, params, (id) => locations?.get(id))}`,
+      url: buildUlyssesUrl(action, redactParams(params), CALLBACK_ACTIONS.has(action) ? DRY_RUN_CALLBACK_ID : undefined)
+    };
+  }
+
+  /**
+   * Asks the user to confirm a destructive action through elicitation.
+   * The action is refused when the client cannot ask or the user does not accept.
+   */
+  private async confirmDestructiveAction(
+    action: string,
+    params: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!DESTRUCTIVE_ACTIONS.has(action) || !this.confirmationGate.needsConfirmation(action)) {
+      return;
+    }
+    if (!this.server.getClientCapabilities()?.elicitation?.form) {
+      throw confirmationUnavailableError(action, "the client does not support elicitation");
+    }
+
+    const locate = await this.itemLocator([params.id, params.group, params.sheet, params.targetGroup]);
+    const question = describeDestructiveAction(action, params, locate);
+    let accepted: boolean;
+    try {
+      const result = await this.server.elicitInput({
+        mode: "form",
+        message: question,
+        requestedSchema: { type: "object", properties: {} }
+      }, { signal });
+      accepted = result.action === "accept";
+    } catch (error) {
+      if (signal?.aborted) {
+        throw requestCancelledError(action);
+      }
+      throw confirmationUnavailableError(
+        action,
+        `asking the user failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!accepted) {
+      throw confirmationDeclinedError(action, question);
+    }
+    this.confirmationGate.recordConfirmation(action);
+  }
+
+  /**
+   * Looks up item titles and locations, refreshing the cached listing once
+   * if it does not know one of the given identifiers
+   */
+  private async itemLocator(refs: Array<string | undefined>): Promise<(id: string) => ItemLocation | undefined> {
+    try {
+      let { locations } = await this.libraryIndex.get();
+      if (refs.some(ref => ref && !locations.has(ref))) {
+        this.libraryIndex.invalidate();
+        ({ locations } = await this.libraryIndex.get());
+      }
+      return (id) => locations.get(id);
+    } catch {
+      // Without a listing the question names items by identifier
+      return () => undefined;
+    }
+  }
+
+  /**
+   * Requests authorization from Ulysses and stores the returned token.
+   * Without a token store the token is handed back to the caller instead.
+   */
+  private async authorize(params: Record<string, string>, options: CommandOptions): Promise<string> {
+    const response = await this.dispatch("authorize", params, options);
+    const accessToken = response?.data["access-token"];
+    if (!accessToken) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        "Ulysses did not return an access token"
+      );
+    }
+
+    if (!this.tokenStore) {
+      return `${JSON.stringify(response.data, null, 2)}\n\n⚠️ SECURITY NOTE: Ulysses will ask you to authorize this app. Once authorized, you'll receive an access token that provides access to your Ulysses library. Keep this token secure and do not share it. The token will remain valid until you revoke it in Ulysses preferences.`;
+    }
+
+    this.tokenStore.set(accessToken);
+    this.libraryIndex.invalidate();
+    return "Authorized. The access token was stored encrypted on this machine and is used automatically, so tools no longer need an access_token argument. Use ulysses_clear_token to forget it, and revoke access in Ulysses preferences if needed.";
+  }
+
+  /**
+   * Tells the client the resource list changed and which subscribed resources were updated
+   */
+  private async notifyLibraryChanges(changes: LibraryChanges): Promise<void> {
+    await this.server.sendResourceListChanged();
+    for (const uri of changes.updated) {
+      if (this.subscriptions.has(uri)) {
+        await this.server.sendResourceUpdated({ uri });
+      }
+    }
+  }
+
+  /**
+   * Suggests identifiers and keywords from the cached library listing.
+   * Without an access token there are no suggestions.
+   */
+  private async complete(
+    ref: { type: "ref/prompt"; name: string } | { type: "ref/resource"; uri: string },
+    name: string,
+    value: string
+  ): Promise<CompleteResult["completion"]> {
+    let argumentName = name;
+    if (ref.type === "ref/prompt") {
+      const prompt = PROMPTS.find(candidate => candidate.name === ref.name);
+      if (!prompt) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown prompt: ${ref.name}`
+        );
+      }
+      if (!prompt.arguments?.some(arg => arg.name === name)) {
+        return { values: [] };
+      }
+    } else {
+      const template = RESOURCE_TEMPLATES.find(candidate => candidate.uriTemplate === ref.uri);
+      if (!template) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown resource template: ${ref.uri}`
+        );
+      }
+      if (name !== "id") {
+        return { values: [] };
+      }
+      // {id} in ulysses://group/{id} names a group, in ulysses://sheet/{id} a sheet
+      argumentName = template.name === "ulysses-group" ? "group" : "sheet";
+    }
+
+    if (!this.currentAccessToken()) {
+      return { values: [] };
+    }
+    // Only a completion that lists the library again is charged
+    if (!this.libraryIndex.isFresh()) {
+      this.chargeLibraryRead("ulysses_get_root_items", {}, { completion: argumentName });
+    }
+    return completeArgument(argumentName, value, this.libraryIndex);
+  }
+
+  /**
+   * Library access for prompts, read with the stored or configured token and
+   * checked against the policy and rate limits as the matching read tool
+   */
+  private promptContext(prompt: string, signal?: AbortSignal): PromptContext {
+    return {
+      getGroup: async (id) => {
+        await this.guardLibraryRead("ulysses_get_item", { id }, { prompt });
+        return this.readGroup(id, "YES", signal);
+      },
+      readSheet: async (id) => {
+        await this.guardLibraryRead("ulysses_read_sheet", { id }, { prompt });
+        return (await this.readUlysses("read-sheet", {
+          id,
+          "access-token": this.requireAccessToken("read-sheet"),
+          text: "YES"
+        }, { signal })).sheet;
+      }
+    };
+  }
+
+  /**
+   * Reads a group with get-item, rejecting identifiers of sheets
+   */
+  private async readGroup(id: string, recursive: "YES" | "NO", signal?: AbortSignal): Promise<Group> {
+    const { item } = await this.readUlysses("get-item", {
+      id,
+      "access-token": this.requireAccessToken("get-item"),
+      recursive
+    }, { signal });
+    if (item.type !== "group") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${id} is a sheet, not a group. Read it as ulysses://sheet/${id}`
+      );
+    }
+    return item;
+  }
+
+  /**
+   * Lists the library sections, groups and sheets.
+   * Without an access token only the templates are available.
+   */
+  private async listResources(signal?: AbortSignal): Promise<ListResourcesResult> {
+    const accessToken = this.currentAccessToken();
+    if (!accessToken) {
+      return { resources: [] };
+    }
+    await this.guardLibraryRead("ulysses_get_root_items", {}, { resource: "ulysses://library" });
+    const { items } = await this.readUlysses("get-root-items", {
+      "access-token": accessToken,
+      recursive: "YES"
+    }, { signal });
+    return { resources: listLibraryResources(items) };
+  }
+
+  /**
+   * Reads a ulysses:// resource: groups and the library as JSON, sheets as Markdown.
+   * The policy and rate limits apply as to the tool that reads the same data.
+   */
+  private async readResource(uri: string, signal?: AbortSignal): Promise<ReadResourceResult> {
+    const target = parseResourceUri(uri);
+    const accessToken = this.requireAccessToken(
+      target.kind === "library" ? "get-root-items" : target.kind === "group" ? "get-item" : "read-sheet"
+    );
+    await this.guardLibraryRead(
+      target.kind === "library" ? "ulysses_get_root_items" : target.kind === "group" ? "ulysses_get_item" : "ulysses_read_sheet",
+      target.kind === "library" ? {} : { id: target.id },
+      { resource: uri }
+    );
+
+    switch (target.kind) {
+      case "library": {
+        const { items } = await this.readUlysses("get-root-items", {
+          "access-token": accessToken,
+          recursive: "YES"
+        }, { signal });
+        return {
+          contents: [{ uri, mimeType: "application/json", text: JSON.stringify(items, null, 2) }]
+        };
+      }
+
+      case "group": {
+        const group = await this.readGroup(target.id, "NO", signal);
+        return {
+          contents: [{ uri, mimeType: "application/json", text: JSON.stringify(group, null, 2) }]
+        };
+      }
+
+      case "sheet": {
+        const { sheet } = await this.readUlysses("read-sheet", {
+          id: target.id,
+          "access-token": accessToken,
+          text: "YES"
+        }, { signal });
+        return {
+          contents: [{ uri, mimeType: "text/markdown", text: sheet.text ?? "" }]
+        };
+      }
+    }
+  }
+
+  /**
+   * Checks the whitelist and read-only mode for an action
+   */
+  private checkAction(action: string): void {
+    // Validate action against whitelist
+    if (!ALLOWED_ACTIONS.has(action)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid action: ${action}`
+      );
+    }
+    if (this.readOnly && MUTATING_ACTIONS.has(action)) {
+      throw readOnlyModeError(action);
+    }
+  }
+
+  /**
+   * Checks the action, charges the tool call to its rate limit budgets, has
+   * destructive actions confirmed by the user, then queues the request for
+   * the backend.
+   * Resolves with the x-success payload, or null for actions without a callback.
+   */
+  private async dispatch(
+    action: string,
+    params: Record<string, string>,
+    options: CommandOptions = {}
+  ): Promise<CallbackResponse | null> {
+    const { signal } = options;
+    this.checkAction(action);
+    if (options.audit) {
+      this.chargeToolCall(options.audit);
+    }
+    await this.confirmDestructiveAction(action, params, signal);
+    
+    const needsCallback = CALLBACK_ACTIONS.has(action);
+    
+    try {
+      const isRead = READ_ACTIONS.has(action);
+      const response = await this.queue.run(
+        action,
+        isRead ? "read" : "write",
+        (queueSignal) => this.backend.dispatch({ action, params, needsCallback }, queueSignal),
+        {
+          dedupeKey: isRead ? requestKey(action, params) : undefined,
+          signal,
+          onStart: (waitMs) => {
+            if (options.audit) {
+              options.audit.queueWaitMs = (options.audit.queueWaitMs ?? 0) + waitMs;
+            }
+          }
+        }
+      );
+      
+      // Check if this was an error callback
+      if (response?.isError) {
+        throw ulyssesError(action, response.data);
+      }
+      if (!isRead) {
+        // Identifiers and keywords offered for completion may have changed
+        this.libraryIndex.invalidate();
+      }
+      
+      return needsCallback ? response : null;
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      // Sanitize error messages to avoid exposing sensitive information
+      throw new McpError(
+        ErrorCode.InternalError,
+        `MCP error -32603: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Validates tool arguments and runs the matching Ulysses action
+   */
+  private async handleToolCall(request: CallToolRequest, signal: AbortSignal | undefined, audit: ToolCallAudit): Promise<CallToolResult> {
+    const { name, arguments: args } = request.params;
+    const { dryRun } = audit;
+    const command: CommandOptions = { signal, dryRun, audit };
+
+    switch (name) {
+      case "ulysses_new_sheet": {
+        const text = validateLength(validateRequired(args?.text, "text"), this.maxLengths.text, "text");
+        const params: Record<string, string> = { text };
+        
+        if (args?.group) params.group = String(args.group);
+        if (args?.format) {
+          params.format = validateEnum(String(args.format), ["markdown", "text", "html"], "format") || "markdown";
+        }
+        if (args?.index) params.index = String(args.index);
+        if (args?.material) {
+          params.material = validateEnum(String(args.material), ["YES", "NO"], "material") || "NO";
+        }
+
+        return this.createItem("new-sheet", params, command);
+      }
+
+      case "ulysses_new_group": {
+        const name = validateLength(validateRequired(args?.name, "name"), this.maxLengths.groupTitle, "name");
+        const params: Record<string, string> = { name };
+        
+        if (args?.parent) params.parent = String(args.parent);
+        if (args?.index) params.index = String(args.index);
+
+        return this.createItem("new-group", params, command);
+      }
+
+      case "ulysses_insert": {
+        const id = validateRequired(args?.id, "id");
+        const text = validateLength(validateRequired(args?.text, "text"), this.maxLengths.text, "text");
+        const params: Record<string, string> = { id, text };
+        
+        if (args?.format) {
+          params.format = validateEnum(String(args.format), ["markdown", "text", "html"], "format") || "markdown";
+        }
+        if (args?.position) {
+          params.position = validateEnum(String(args.position), ["begin", "end"], "position") || "end";
+        }
+        if (args?.newline) {
+          params.newline = validateEnum(String(args.newline), ["prepend", "append", "enclose"], "newline") || "";
+        }
+
+        const result = await this.executeUlyssesCommand("insert", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_attach_note": {
+        const id = validateRequired(args?.id, "id");
+        const text = validateLength(validateRequired(args?.text, "text"), this.maxLengths.note, "text");
+        const params: Record<string, string> = { id, text };
+        
+        if (args?.format) {
+          params.format = validateEnum(String(args.format), ["markdown", "text", "html"], "format") || "markdown";
+        }
+
+        const result = await this.executeUlyssesCommand("attach-note", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_attach_keywords": {
+        const id = validateRequired(args?.id, "id");
+        const keywords = validateLength(validateRequired(args?.keywords, "keywords"), this.maxLengths.keywords, "keywords");
+        const params: Record<string, string> = { id, keywords };
+
+        const result = await this.executeUlyssesCommand("attach-keywords", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_attach_image": {
+        const id = validateRequired(args?.id, "id");
+        const image = validateRequired(args?.image, "image");
+        const format = validateRequired(args?.format, "format");
+        const params: Record<string, string> = { id, image, format };
+
+        const result = await this.executeUlyssesCommand("attach-image", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_open": {
+        const id = validateRequired(args?.id, "id");
+        const params: Record<string, string> = { id };
+
+        const result = await this.executeUlyssesCommand("open", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_open_all": {
+        const result = await this.executeUlyssesCommand("open-all", {}, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_open_recent": {
+        const result = await this.executeUlyssesCommand("open-recent", {}, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_open_favorites": {
+        const result = await this.executeUlyssesCommand("open-favorites", {}, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_get_version": {
+        if (dryRun) {
+          return this.readTool("get-version", {}, command);
+        }
+        const version = await this.readUlysses("get-version", {}, command);
+        return structuredResult({ ...version, readOnly: this.readOnly });
+      }
+
+      case "ulysses_authorize": {
+        const appname = validateLength(validateRequired(args?.appname, "appname"), this.maxLengths.appname, "appname");
+        const params: Record<string, string> = { appname };
+
+        const result = dryRun
+          ? await this.executeUlyssesCommand("authorize", params, command)
+          : await this.authorize(params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_clear_token": {
+        this.chargeToolCall(audit);
+        if (dryRun) {
+          return {
+            content: [{ type: "text", text: JSON.stringify({ dryRun: true, effect: "would delete the stored access token" }, null, 2) }]
+          };
+        }
+        const cleared = this.tokenStore?.clear() ?? false;
+        this.libraryIndex.invalidate();
+        return {
+          content: [{
+            type: "text",
+            text: cleared
+              ? "The stored access token was deleted. It stays valid in Ulysses until you revoke it in Ulysses preferences."
+              : "No access token was stored."
+          }]
+        };
+      }
+
+      case "ulysses_audit_query": {
+        if (!this.auditLogger?.isEnabled()) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            "The audit log is not enabled on this server"
+          );
+        }
+        let query: AuditQuery;
+        try {
+          query = parseAuditQuery({ ...args, limit: args?.limit ?? AUDIT_QUERY_LIMIT });
+        } catch (error) {
+          throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+        this.chargeToolCall(audit);
+        const result = await runAuditQuery(this.auditLogger.getLogPath(), query, this.auditLogger.getPrivacyKey());
+        const truncated = result.truncated
+          ? [{
+              type: "text" as const,
+              text: `Listed the ${result.listed} most recent matching events; older events match too. Raise limit to list more, or use the summary format to count them all.`
+            }]
+          : [];
+        return {
+          content: [{ type: "text", text: result.text }, ...truncated]
+        };
+      }
+
+      case "ulysses_read_sheet": {
+        const id = validateRequired(args?.id, "id");
+        const accessToken = this.requireAccessToken("read-sheet", args?.access_token);
+        const params: Record<string, string> = {
+          id,
+          "access-token": accessToken
+        };
+        if (args?.text) {
+          params.text = validateEnum(String(args.text), ["YES", "NO"], "text") || "NO";
+        }
+
+        return this.readTool("read-sheet", params, command);
+      }
+
+      case "ulysses_get_item": {
+        const id = validateRequired(args?.id, "id");
+        const accessToken = this.requireAccessToken("get-item", args?.access_token);
+        const params: Record<string, string> = {
+          id,
+          "access-token": accessToken
+        };
+        if (args?.recursive) {
+          params.recursive = validateEnum(String(args.recursive), ["YES", "NO"], "recursive") || "YES";
+        }
+
+        return this.readTool("get-item", params, command);
+      }
+
+      case "ulysses_get_root_items": {
+        const accessToken = this.requireAccessToken("get-root-items", args?.access_token);
+        const params: Record<string, string> = {
+          "access-token": accessToken
+        };
+        if (args?.recursive) {
+          params.recursive = validateEnum(String(args.recursive), ["YES", "NO"], "recursive") || "YES";
+        }
+
+        return this.readTool("get-root-items", params, command);
+      }
+
+      case "ulysses_move": {
+        const id = validateRequired(args?.id, "id");
+        const accessToken = this.requireAccessToken("move", args?.access_token);
+        const params: Record<string, string> = {
+          id,
+          "access-token": accessToken
+        };
+        if (args?.targetGroup) params.targetGroup = String(args.targetGroup);
+        if (args?.index) params.index = String(args.index);
+
+        const result = await this.executeUlyssesCommand("move", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_copy": {
+        const id = validateRequired(args?.id, "id");
+        const params: Record<string, string> = { id };
+        
+        if (args?.targetGroup) params.targetGroup = String(args.targetGroup);
+        if (args?.index) params.index = String(args.index);
+
+        return this.createItem("copy", params, command);
+      }
+
+      case "ulysses_trash": {
+        const id = validateRequired(args?.id, "id");
+        const accessToken = this.requireAccessToken("trash", args?.access_token);
+        const params: Record<string, string> = {
+          id,
+          "access-token": accessToken
+        };
+
+        const result = await this.executeUlyssesCommand("trash", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_set_group_title": {
+        const group = validateRequired(args?.group, "group");
+        const title = validateLength(validateRequired(args?.title, "title"), this.maxLengths.groupTitle, "title");
+        const accessToken = this.requireAccessToken("set-group-title", args?.access_token);
+        const params: Record<string, string> = {
+          group,
+          title,
+          "access-token": accessToken
+        };
+
+        const result = await this.executeUlyssesCommand("set-group-title", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_set_sheet_title": {
+        const sheet = validateRequired(args?.sheet, "sheet");
+        const title = validateLength(validateRequired(args?.title, "title"), this.maxLengths.sheetTitle, "title");
+        const type = validateEnum(
+          validateRequired(args?.type, "type"),
+          ["heading1", "heading2", "heading3", "heading4", "heading5", "heading6", "comment", "filename"],
+          "type"
+        ) || "heading1";
+        const accessToken = this.requireAccessToken("set-sheet-title", args?.access_token);
+        const params: Record<string, string> = {
+          sheet,
+          title,
+          type,
+          "access-token": accessToken
+        };
+
+        const result = await this.executeUlyssesCommand("set-sheet-title", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_remove_keywords": {
+        const id = validateRequired(args?.id, "id");
+        const keywords = validateLength(validateRequired(args?.keywords, "keywords"), this.maxLengths.keywords, "keywords");
+        const accessToken = this.requireAccessToken("remove-keywords", args?.access_token);
+        const params: Record<string, string> = {
+          id,
+          keywords,
+          "access-token": accessToken
+        };
+
+        const result = await this.executeUlyssesCommand("remove-keywords", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_update_note": {
+        const id = validateRequired(args?.id, "id");
+        const index = validateRequired(args?.index, "index");
+        const text = validateLength(validateRequired(args?.text, "text"), this.maxLengths.note, "text");
+        const accessToken = this.requireAccessToken("update-note", args?.access_token);
+        const params: Record<string, string> = {
+          id,
+          index,
+          text,
+          "access-token": accessToken
+        };
+        if (args?.format) {
+          params.format = validateEnum(String(args.format), ["markdown", "text", "html"], "format") || "markdown";
+        }
+
+        const result = await this.executeUlyssesCommand("update-note", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "ulysses_remove_note": {
+        const id = validateRequired(args?.id, "id");
+        const index = validateRequired(args?.index, "index");
+        const accessToken = this.requireAccessToken("remove-note", args?.access_token);
+        const params: Record<string, string> = {
+          id,
+          index,
+          "access-token": accessToken
+        };
+
+        const result = await this.executeUlyssesCommand("remove-note", params, command);
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      default:
+        throw new McpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+}
@@ -0,0 +1,715 @@
+/**
+ * Ulysses Library Simulator
+ *
+ * In-memory stand-in for the Ulysses app that answers every whitelisted
+ * x-callback-url action the way Ulysses does:
+ * - Models groups, sheets, notes, keywords and images
+ * - Enforces access tokens for actions that require authorization
+ * - Returns x-success payloads (targetId, item, items, sheet, ...) and
+ *   x-error payloads (errorCode, errorMessage) as query-string values
+ *
+ * Used by the test suite and by `ULYSSES_MCP_BACKEND=simulator` on hosts
+ * without Ulysses.
+ */
+
+import { randomBytes } from 'crypto';
+import { CallbackResponse, UlyssesBackend, UlyssesRequest } from './backend.js';
+import { UlyssesErrorCode, requestCancelledError } from './errors.js';
+
+// Actions that only run with a valid access-token
+const TOKEN_ACTIONS = new Set([
+  'read-sheet',
+  'get-item',
+  'get-root-items',
+  'move',
+  'trash',
+  'set-group-title',
+  'set-sheet-title',
+  'remove-keywords',
+  'update-note',
+  'remove-note'
+]);
+
+const TEXT_FORMATS = ['markdown', 'text', 'html'];
+const IMAGE_FORMATS = ['png', 'jpg', 'jpeg', 'gif', 'tiff', 'pdf', 'svg'];
+const TITLE_TYPES = ['heading1', 'heading2', 'heading3', 'heading4', 'heading5', 'heading6', 'comment', 'filename'];
+
+interface SimNote {
+  text: string;
+  format: string;
+}
+
+interface SimImage {
+  filename: string;
+  format: string;
+  size: number;
+}
+
+interface SimSheet {
+  type: 'sheet';
+  identifier: string;
+  parent: string;
+  text: string;
+  format: string;
+  titleType: string;
+  material: boolean;
+  keywords: string[];
+  notes: SimNote[];
+  images: SimImage[];
+}
+
+interface SimGroup {
+  type: 'group';
+  identifier: string;
+  parent?: string;
+  title: string;
+  containers: string[];
+  sheets: string[];
+}
+
+type SimItem = SimSheet | SimGroup;
+
+/**
+ * Seed data for a simulated library.
+ * Groups nest through `containers`; sheets are given by their Markdown text.
+ */
+export interface SimulatorSeedGroup {
+  title: string;
+  containers?: SimulatorSeedGroup[];
+  sheets?: Array<string | { text: string; keywords?: string[]; notes?: string[] }>;
+}
+
+export interface SimulatorOptions {
+  /** Root sections of the library. Defaults to iCloud (with Inbox) and On My Mac. */
+  library?: SimulatorSeedGroup[];
+  /** Tokens accepted without calling authorize first */
+  accessTokens?: string[];
+  /** Simulate the user denying the authorization prompt */
+  denyAuthorization?: boolean;
+  /** Reported by get-version */
+  apiVersion?: string;
+  buildNumber?: string;
+}
+
+const DEFAULT_LIBRARY: SimulatorSeedGroup[] = [
+  { title: 'iCloud', containers: [{ title: 'Inbox' }] },
+  { title: 'On My Mac' }
+];
+
+/**
+ * Error raised inside an action handler and turned into an x-error payload
+ */
+class SimulatorError extends Error {
+  constructor(public readonly errorCode: UlyssesErrorCode, message: string) {
+    super(message);
+  }
+}
+
+export class UlyssesSimulator implements UlyssesBackend {
+  readonly name = 'simulator';
+  private items = new Map<string, SimItem>();
+  private roots: string[] = [];
+  private trash = new Set<string>();
+  private tokens: Set<string>;
+  private options: SimulatorOptions;
+  private lastOpened: string | null = null;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.options = options;
+    this.tokens = new Set(options.accessTokens || []);
+
+    for (const seed of options.library || DEFAULT_LIBRARY) {
+      this.roots.push(this.seedGroup(seed));
+    }
+  }
+
+  /**
+   * Answer a request the way Ulysses would answer the x-callback-url
+   */
+  async dispatch(request: UlyssesRequest, signal?: AbortSignal): Promise<CallbackResponse | null> {
+    const { action, params } = request;
+
+    if (signal?.aborted) {
+      throw requestCancelledError(action);
+    }
+
+    try {
+      if (TOKEN_ACTIONS.has(action)) {
+        this.checkToken(params['access-token']);
+      }
+      return { isError: false, data: this.handle(action, params) };
+    } catch (error) {
+      if (error instanceof SimulatorError) {
+        return {
+          isError: true,
+          data: {
+            errorCode: String(error.errorCode),
+            errorMessage: error.message
+          }
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Identifier of the item most recently shown with open/open-*
+   */
+  getLastOpened(): string | null {
+    return this.lastOpened;
+  }
+
+  private handle(action: string, params: Record<string, string>): Record<string, string> {
+    switch (action) {
+      case 'new-sheet': {
+        const text = this.required(params, 'text');
+        const group = params.group ? this.resolveGroup(params.group) : this.inbox();
+        const sheet = this.createSheet(group, text, this.format(params.format, TEXT_FORMATS));
+        sheet.material = this.yesNo(params.material, 'material', false);
+        this.insertAt(group.sheets, sheet.identifier, params.index);
+        return { targetId: sheet.identifier };
+      }
+
+      case 'new-group': {
+        const name = this.required(params, 'name');
+        const parent = params.parent ? this.resolveGroup(params.parent) : this.topLevel();
+        const group = this.createGroup(parent, name);
+        this.insertAt(parent.containers, group.identifier, params.index);
+        return { targetId: group.identifier };
+      }
+
+      case 'insert': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        const text = this.required(params, 'text');
+        this.format(params.format, TEXT_FORMATS);
+        const position = this.oneOf(params.position, ['begin', 'end'], 'position') || 'end';
+        const newline = this.oneOf(params.newline, ['prepend', 'append', 'enclose'], 'newline');
+
+        let insertion = text;
+        if (newline === 'prepend' || newline === 'enclose') insertion = `\n${insertion}`;
+        if (newline === 'append' || newline === 'enclose') insertion = `${insertion}\n`;
+
+        sheet.text = position === 'begin' ? insertion + sheet.text : sheet.text + insertion;
+        return {};
+      }
+
+      case 'attach-note': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        const text = this.required(params, 'text');
+        sheet.notes.push({ text, format: this.format(params.format, TEXT_FORMATS) });
+        return {};
+      }
+
+      case 'attach-keywords': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        for (const keyword of this.keywordList(this.required(params, 'keywords'))) {
+          if (!sheet.keywords.includes(keyword)) {
+            sheet.keywords.push(keyword);
+          }
+        }
+        return {};
+      }
+
+      case 'attach-image': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        const image = this.required(params, 'image');
+        const format = this.required(params, 'format').toLowerCase();
+        if (!IMAGE_FORMATS.includes(format)) {
+          throw new SimulatorError(UlyssesErrorCode.UNSUPPORTED_FORMAT, `Unsupported image format: ${format}`);
+        }
+        const bytes = Buffer.from(image, 'base64');
+        if (bytes.length === 0) {
+          throw new SimulatorError(UlyssesErrorCode.INVALID_PARAMETER, 'Image data is not valid base64');
+        }
+        sheet.images.push({
+          filename: params.filename || `image-${sheet.images.length + 1}.${format}`,
+          format,
+          size: bytes.length
+        });
+        return {};
+      }
+
+      case 'open': {
+        this.lastOpened = this.resolveItem(this.required(params, 'id')).identifier;
+        return {};
+      }
+
+      case 'open-all':
+      case 'open-recent':
+      case 'open-favorites':
+        this.lastOpened = action;
+        return {};
+
+      case 'get-version':
+        return {
+          apiVersion: this.options.apiVersion || '3',
+          buildNumber: this.options.buildNumber || '34400'
+        };
+
+      case 'authorize': {
+        this.required(params, 'appname');
+        if (this.options.denyAuthorization) {
+          throw new SimulatorError(UlyssesErrorCode.ACCESS_DENIED, 'Access denied by user');
+        }
+        const token = randomBytes(16).toString('hex');
+        this.tokens.add(token);
+        return { 'access-token': token };
+      }
+
+      case 'read-sheet': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        const includeText = this.yesNo(params.text, 'text', false);
+        return { sheet: JSON.stringify(this.serializeSheet(sheet, true, includeText)) };
+      }
+
+      case 'get-item': {
+        const item = this.resolveItem(this.required(params, 'id'));
+        const recursive = this.yesNo(params.recursive, 'recursive', true);
+        return { item: JSON.stringify(this.serialize(item, recursive)) };
+      }
+
+      case 'get-root-items': {
+        const recursive = this.yesNo(params.recursive, 'recursive', true);
+        const items = this.roots.map(id => this.serialize(this.items.get(id)!, recursive));
+        return { items: JSON.stringify(items) };
+      }
+
+      case 'move': {
+        const item = this.resolveItem(this.required(params, 'id'));
+        this.ensureNotRoot(item);
+        const target = params.targetGroup
+          ? this.resolveGroup(params.targetGroup)
+          : this.group(item.parent!);
+
+        if (item.type === 'group' && this.isDescendant(target.identifier, item.identifier)) {
+          throw new SimulatorError(UlyssesErrorCode.NOT_PERMITTED, 'Cannot move a group into itself');
+        }
+
+        this.detach(item);
+        item.parent = target.identifier;
+        this.insertAt(item.type === 'group' ? target.containers : target.sheets, item.identifier, params.index);
+        return {};
+      }
+
+      case 'copy': {
+        const item = this.resolveItem(this.required(params, 'id'));
+        const target = params.targetGroup
+          ? this.resolveGroup(params.targetGroup)
+          : item.parent ? this.group(item.parent) : this.topLevel();
+
+        if (item.type === 'group' && this.isDescendant(target.identifier, item.identifier)) {
+          throw new SimulatorError(UlyssesErrorCode.NOT_PERMITTED, 'Cannot copy a group into itself');
+        }
+
+        const copy = this.cloneItem(item, target.identifier);
+        this.insertAt(copy.type === 'group' ? target.containers : target.sheets, copy.identifier, params.index);
+        return { targetId: copy.identifier };
+      }
+
+      case 'trash': {
+        const item = this.resolveItem(this.required(params, 'id'));
+        this.ensureNotRoot(item);
+        this.detach(item);
+        this.trash.add(item.identifier);
+        return {};
+      }
+
+      case 'set-group-title': {
+        const group = this.resolveGroup(this.required(params, 'group'));
+        group.title = this.required(params, 'title');
+        return {};
+      }
+
+      case 'set-sheet-title': {
+        const sheet = this.resolveSheet(this.required(params, 'sheet'));
+        const title = this.required(params, 'title');
+        const type = this.oneOf(this.required(params, 'type'), TITLE_TYPES, 'type')!;
+        const lines = sheet.text.split('\n');
+        const first = lines.findIndex(line => line.trim() !== '');
+        const paragraph = titleMarkup(type) + title;
+        if (first === -1) {
+          sheet.text = paragraph;
+        } else {
+          lines[first] = paragraph;
+          sheet.text = lines.join('\n');
+        }
+        sheet.titleType = type;
+        return {};
+      }
+
+      case 'remove-keywords': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        const remove = this.keywordList(this.required(params, 'keywords'));
+        sheet.keywords = sheet.keywords.filter(keyword => !remove.includes(keyword));
+        return {};
+      }
+
+      case 'update-note': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        const index = this.noteIndex(sheet, params);
+        sheet.notes[index] = {
+          text: this.required(params, 'text'),
+          format: this.format(params.format, TEXT_FORMATS)
+        };
+        return {};
+      }
+
+      case 'remove-note': {
+        const sheet = this.resolveSheet(this.required(params, 'id'));
+        sheet.notes.splice(this.noteIndex(sheet, params), 1);
+        return {};
+      }
+
+      default:
+        throw new SimulatorError(UlyssesErrorCode.INVALID_ACTION, `Unsupported action: ${action}`);
+    }
+  }
+
+  // Library construction
+
+  private newId(): string {
+    let id: string;
+    do {
+      id = randomBytes(16).toString('base64url').slice(0, 22);
+    } while (this.items.has(id));
+    return id;
+  }
+
+  private seedGroup(seed: SimulatorSeedGroup, parent?: SimGroup): string {
+    const group: SimGroup = {
+      type: 'group',
+      identifier: this.newId(),
+      parent: parent?.identifier,
+      title: seed.title,
+      containers: [],
+      sheets: []
+    };
+    this.items.set(group.identifier, group);
+
+    for (const child of seed.containers || []) {
+      group.containers.push(this.seedGroup(child, group));
+    }
+    for (const entry of seed.sheets || []) {
+      const spec = typeof entry === 'string' ? { text: entry } : entry;
+      const sheet = this.createSheet(group, spec.text, 'markdown');
+      sheet.keywords = [...(spec.keywords || [])];
+      sheet.notes = (spec.notes || []).map(text => ({ text, format: 'markdown' }));
+      group.sheets.push(sheet.identifier);
+    }
+    return group.identifier;
+  }
+
+  private createSheet(group: SimGroup, text: string, format: string): SimSheet {
+    const sheet: SimSheet = {
+      type: 'sheet',
+      identifier: this.newId(),
+      parent: group.identifier,
+      text,
+      format,
+      titleType: 'heading1',
+      material: false,
+      keywords: [],
+      notes: [],
+      images: []
+    };
+    this.items.set(sheet.identifier, sheet);
+    return sheet;
+  }
+
+  private createGroup(parent: SimGroup, title: string): SimGroup {
+    const group: SimGroup = {
+      type: 'group',
+      identifier: this.newId(),
+      parent: parent.identifier,
+      title,
+      containers: [],
+      sheets: []
+    };
+    this.items.set(group.identifier, group);
+    return group;
+  }
+
+  private cloneItem(item: SimItem, parentId: string): SimItem {
+    if (item.type === 'sheet') {
+      const sheet: SimSheet = {
+        ...item,
+        identifier: this.newId(),
+        parent: parentId,
+        keywords: [...item.keywords],
+        notes: item.notes.map(note => ({ ...note })),
+        images: item.images.map(image => ({ ...image }))
+      };
+      this.items.set(sheet.identifier, sheet);
+      return sheet;
+    }
+
+    const group: SimGroup = {
+      type: 'group',
+      identifier: this.newId(),
+      parent: parentId,
+      title: item.title,
+      containers: [],
+      sheets: []
+    };
+    this.items.set(group.identifier, group);
+    group.containers = item.containers.map(id => this.cloneItem(this.items.get(id)!, group.identifier).identifier);
+    group.sheets = item.sheets.map(id => this.cloneItem(this.items.get(id)!, group.identifier).identifier);
+    return group;
+  }
+
+  // Lookup
+
+  private resolveItem(ref: string): SimItem {
+    const item = this.items.get(ref);
+    if (item && !this.isTrashed(item)) {
+      return item;
+    }
+    return this.resolveGroup(ref);
+  }
+
+  private resolveSheet(ref: string): SimSheet {
+    const item = this.items.get(ref);
+    if (!item || this.isTrashed(item)) {
+      throw new SimulatorError(UlyssesErrorCode.NOT_FOUND, `Sheet not found: ${ref}`);
+    }
+    if (item.type !== 'sheet') {
+      throw new SimulatorError(UlyssesErrorCode.INVALID_PARAMETER, `Item is not a sheet: ${ref}`);
+    }
+    return item;
+  }
+
+  /**
+   * Resolve a group by identifier, path (/Group/Subgroup) or name
+   */
+  private resolveGroup(ref: string): SimGroup {
+    const direct = this.items.get(ref);
+    if (direct && !this.isTrashed(direct)) {
+      if (direct.type !== 'group') {
+        throw new SimulatorError(UlyssesErrorCode.INVALID_PARAMETER, `Item is not a group: ${ref}`);
+      }
+      return direct;
+    }
+
+    if (ref.startsWith('/')) {
+      const segments = ref.split('/').filter(Boolean);
+      const fromRoot = this.walk(this.roots, segments);
+      const fromTopLevel = this.walk(this.topLevel().containers, segments);
+      const found = fromRoot || fromTopLevel;
+      if (found) {
+        return found;
+      }
+    } else {
+      const byName = this.liveGroups().find(group => group.title === ref);
+      if (byName) {
+        return byName;
+      }
+    }
+
+    throw new SimulatorError(UlyssesErrorCode.NOT_FOUND, `Group not found: ${ref}`);
+  }
+
+  private walk(level: string[], segments: string[]): SimGroup | null {
+    let candidates = level;
+    let current: SimGroup | null = null;
+    for (const segment of segments) {
+      current = candidates
+        .map(id => this.items.get(id) as SimGroup)
+        .find(group => group.title === segment) || null;
+      if (!current) {
+        return null;
+      }
+      candidates = current.containers;
+    }
+    return current;
+  }
+
+  private liveGroups(): SimGroup[] {
+    const groups: SimGroup[] = [];
+    const visit = (id: string) => {
+      const group = this.items.get(id) as SimGroup;
+      groups.push(group);
+      group.containers.forEach(visit);
+    };
+    this.roots.forEach(visit);
+    return groups;
+  }
+
+  private group(id: string): SimGroup {
+    return this.items.get(id) as SimGroup;
+  }
+
+  private topLevel(): SimGroup {
+    return this.group(this.roots[0]);
+  }
+
+  private inbox(): SimGroup {
+    const top = this.topLevel();
+    const inbox = top.containers
+      .map(id => this.group(id))
+      .find(group => group.title === 'Inbox');
+    return inbox || top;
+  }
+
+  private isTrashed(item: SimItem): boolean {
+    let current: SimItem | undefined = item;
+    while (current) {
+      if (this.trash.has(current.identifier)) {
+        return true;
+      }
+      current = current.parent ? this.items.get(current.parent) : undefined;
+    }
+    return false;
+  }
+
+  private isDescendant(candidateId: string, ancestorId: string): boolean {
+    let current = this.items.get(candidateId);
+    while (current) {
+      if (current.identifier === ancestorId) {
+        return true;
+      }
+      current = current.parent ? this.items.get(current.parent) : undefined;
+    }
+    return false;
+  }
+
+  // Mutation helpers
+
+  private ensureNotRoot(item: SimItem): void {
+    if (this.roots.includes(item.identifier)) {
+      throw new SimulatorError(UlyssesErrorCode.NOT_PERMITTED, 'Library sections cannot be moved or trashed');
+    }
+  }
+
+  private detach(item: SimItem): void {
+    const parent = this.group(item.parent!);
+    const list = item.type === 'group' ? parent.containers : parent.sheets;
+    list.splice(list.indexOf(item.identifier), 1);
+  }
+
+  private insertAt(list: string[], id: string, index?: string): void {
+    if (index === undefined || index === '') {
+      list.push(id);
+      return;
+    }
+    const position = Number(index);
+    if (!Number.isInteger(position) || position < 0) {
+      throw new SimulatorError(UlyssesErrorCode.INVALID_PARAMETER, `Invalid index: ${index}`);
+    }
+    list.splice(Math.min(position, list.length), 0, id);
+  }
+
+  // Parameter helpers
+
+  private checkToken(token: string | undefined): void {
+    if (!token) {
+      throw new SimulatorError(UlyssesErrorCode.MISSING_PARAMETER, 'Missing access-token');
+    }
+    if (!this.tokens.has(token)) {
+      throw new SimulatorError(UlyssesErrorCode.INVALID_TOKEN, 'Invalid access token');
+    }
+  }
+
+  private required(params: Record<string, string>, name: string): string {
+    const value = params[name];
+    if (value === undefined || value === '') {
+      throw new SimulatorError(UlyssesErrorCode.MISSING_PARAMETER, `Missing parameter: ${name}`);
+    }
+    return value;
+  }
+
+  private oneOf(value: string | undefined, allowed: string[], name: string): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!allowed.includes(value)) {
+      throw new SimulatorError(UlyssesErrorCode.INVALID_PARAMETER, `Invalid value for ${name}: ${value}`);
+    }
+    return value;
+  }
+
+  private format(value: string | undefined, allowed: string[]): string {
+    if (value === undefined) {
+      return 'markdown';
+    }
+    if (!allowed.includes(value)) {
+      throw new SimulatorError(UlyssesErrorCode.UNSUPPORTED_FORMAT, `Unsupported format: ${value}`);
+    }
+    return value;
+  }
+
+  private yesNo(value: string | undefined, name: string, fallback: boolean): boolean {
+    const checked = this.oneOf(value, ['YES', 'NO'], name);
+    return checked === undefined ? fallback : checked === 'YES';
+  }
+
+  private keywordList(value: string): string[] {
+    return value.split(',').map(keyword => keyword.trim()).filter(Boolean);
+  }
+
+  private noteIndex(sheet: SimSheet, params: Record<string, string>): number {
+    const index = Number(this.required(params, 'index'));
+    if (!Number.isInteger(index) || index < 0 || index >= sheet.notes.length) {
+      throw new SimulatorError(UlyssesErrorCode.INVALID_PARAMETER, `Invalid note index: ${params.index}`);
+    }
+    return index;
+  }
+
+  // Serialization (shapes follow the Ulysses x-callback-url API)
+
+  private serialize(item: SimItem, recursive: boolean): Record<string, unknown> {
+    return item.type === 'sheet'
+      ? this.serializeSheet(item, false, false)
+      : this.serializeGroup(item, recursive, true);
+  }
+
+  private serializeGroup(group: SimGroup, recursive: boolean, expand: boolean): Record<string, unknown> {
+    const result: Record<string, unknown> = {
+      type: 'group',
+      identifier: group.identifier,
+      title: group.title
+    };
+    if (expand) {
+      result.containers = group.containers.map(id => this.serializeGroup(this.group(id), recursive, recursive));
+      result.sheets = group.sheets.map(id => this.serializeSheet(this.items.get(id) as SimSheet, false, false));
+    }
+    return result;
+  }
+
+  private serializeSheet(sheet: SimSheet, details: boolean, includeText: boolean): Record<string, unknown> {
+    const result: Record<string, unknown> = {
+      type: 'sheet',
+      identifier: sheet.identifier,
+      title: sheetTitle(sheet.text),
+      titleType: sheet.titleType,
+      keywords: sheet.keywords.map(title => ({ title }))
+    };
+    if (details) {
+      result.notes = sheet.notes.map((note, index) => ({ index, format: note.format, text: note.text }));
+      result.attachments = sheet.images.map(image => ({ type: 'image', ...image }));
+      result.material = sheet.material;
+    }
+    if (includeText) {
+      result.text = sheet.text;
+    }
+    return result;
+  }
+}
+
+/**
+ * Markup Ulysses uses for each title paragraph type
+ */
+function titleMarkup(type: string): string {
+  const heading = /^heading([1-6])$/.exec(type);
+  if (heading) {
+    return '#'.repeat(Number(heading[1])) + ' ';
+  }
+  return type === 'comment' ? '%% ' : '';
+}
+
+/**
+ * A sheet's title is its first non-empty paragraph without markup
+ */
+function sheetTitle(text: string): string {
+  const first = text.split('\n').find(line => line.trim() !== '') || '';
+  return first.replace(/^(#{1,6}|%%)\s*/, '').trim();
+}
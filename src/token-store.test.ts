@@ -0,0 +1,98 @@
+/**
+ * Tests for the encrypted access token store
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, statSync, chmodSync, symlinkSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { TokenStore } from './token-store.js';
+
+let sandbox: string;
+let store: TokenStore;
+
+beforeEach(() => {
+  sandbox = mkdtempSync(join(tmpdir(), 'ulysses-mcp-test-'));
+  store = new TokenStore(join(sandbox, 'config'));
+});
+
+afterEach(() => {
+  rmSync(sandbox, { recursive: true, force: true });
+});
+
+describe('TokenStore', () => {
+  it('should return null when no token is stored', () => {
+    expect(store.get()).toBeNull();
+  });
+
+  it('should store the token encrypted and owner only', () => {
+    store.set('secret-token-value');
+
+    expect(store.get()).toBe('secret-token-value');
+    expect(readFileSync(store.getTokenPath(), 'utf8')).not.toContain('secret-token-value');
+    expect(statSync(store.getTokenPath()).mode & 0o777).toBe(0o600);
+    expect(statSync(join(sandbox, 'config', 'token.key')).mode & 0o777).toBe(0o600);
+  });
+
+  it('should replace a previous token', () => {
+    store.set('first');
+    store.set('second');
+    expect(new TokenStore(join(sandbox, 'config')).get()).toBe('second');
+  });
+
+  it('should clear the stored token', () => {
+    store.set('secret');
+    expect(store.clear()).toBe(true);
+    expect(store.get()).toBeNull();
+    expect(store.clear()).toBe(false);
+  });
+
+  it('should reject a tampered token file', () => {
+    store.set('secret');
+    const stored = JSON.parse(readFileSync(store.getTokenPath(), 'utf8'));
+    stored.data = Buffer.from('forged').toString('base64');
+    writeFileSync(store.getTokenPath(), JSON.stringify(stored));
+    expect(store.get()).toBeNull();
+  });
+
+  it('should report an unreadable token once until a new one is stored', () => {
+    const errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      store.set('secret');
+      writeFileSync(store.getTokenPath(), 'not json');
+      expect(store.get()).toBeNull();
+      expect(store.get()).toBeNull();
+      expect(errors).toHaveBeenCalledTimes(1);
+
+      store.set('again');
+      writeFileSync(store.getTokenPath(), 'not json');
+      store.get();
+      expect(errors).toHaveBeenCalledTimes(2);
+    } finally {
+      errors.mockRestore();
+    }
+  });
+
+  it('should refuse files other users can read', () => {
+    store.set('secret');
+    chmodSync(store.getTokenPath(), 0o644);
+    expect(store.get()).toBeNull();
+  });
+
+  it('should refuse a symlinked token file', () => {
+    const target = join(sandbox, 'elsewhere');
+    writeFileSync(target, '{}');
+    symlinkSync(target, store.getTokenPath());
+    expect(() => store.set('secret')).toThrow('symlink');
+    expect(store.get()).toBeNull();
+  });
+
+  it('should create the audit key beside the token key only when asked', () => {
+    expect(store.getAuditKey()).toBeUndefined();
+
+    const key = store.getAuditKey(true);
+    expect(key).toHaveLength(32);
+    expect(new TokenStore(join(sandbox, 'config')).getAuditKey()).toEqual(key);
+    expect(statSync(join(sandbox, 'config', 'audit.key')).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Access Token Store
+ *
+ * Keeps the Ulysses access token out of tool arguments and chat transcripts:
+ * - Captured from the ulysses_authorize callback
+ * - Encrypted with AES-256-GCM under a random key kept in a separate file
+ * - Token and key files are owner only (0600) in an owner only directory (0700)
+ * - Symlinks are rejected like in the secure temp directory
+ *
+ * The key only keeps the token out of backups and casual reads of the token
+ * file: anything that runs as the user can read both files.
+ *
+ * The audit log's privacy mode keys its item identifier hashes with a second
+ * secret kept beside the token key, so a hash cannot be confirmed by hashing
+ * a candidate identifier without it.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { mkdirSync, existsSync, writeFileSync, readFileSync, unlinkSync, lstatSync, chmodSync } from 'fs';
+import { join } from 'path';
+import { BASE_DIRECTORIES } from './paths.js';
+
+const TOKEN_FILE = 'access-token.enc';
+const KEY_FILE = 'token.key';
+const AUDIT_KEY_FILE = 'audit.key';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface EncryptedToken {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export class TokenStore {
+  private configDir: string;
+  // An unreadable token is reported once, not on every tool call
+  private unreadableReported = false;
+
+  constructor(configDir?: string) {
+    this.configDir = configDir || BASE_DIRECTORIES.configDir;
+
+    try {
+      if (!existsSync(this.configDir)) {
+        mkdirSync(this.configDir, { recursive: true, mode: 0o700 }); // Owner only
+      }
+    } catch (error) {
+      throw new Error(`Failed to create config directory: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the path of the encrypted token file
+   */
+  getTokenPath(): string {
+    return join(this.configDir, TOKEN_FILE);
+  }
+
+  /**
+   * The stored access token, or null when none is stored or it cannot be decrypted
+   */
+  get(): string | null {
+    const tokenPath = this.getTokenPath();
+    if (!existsSync(tokenPath)) {
+      return null;
+    }
+
+    try {
+      const stored = JSON.parse(this.readOwnerOnly(tokenPath)) as EncryptedToken;
+      const decipher = createDecipheriv('aes-256-gcm', this.loadKey(false), Buffer.from(stored.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(stored.tag, 'base64'));
+      return Buffer.concat([
+        decipher.update(Buffer.from(stored.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch (error) {
+      if (!this.unreadableReported) {
+        console.error(`Stored access token is unreadable, run ulysses_authorize again: ${error instanceof Error ? error.message : String(error)}`);
+        this.unreadableReported = true;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Encrypt and store an access token, replacing any previous one
+   */
+  set(token: string): void {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.loadKey(true), iv);
+    const data = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+    const stored: EncryptedToken = {
+      version: 1,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    };
+    this.writeOwnerOnly(this.getTokenPath(), JSON.stringify(stored));
+    this.unreadableReported = false;
+  }
+
+  /**
+   * Delete the stored token. Returns whether a token was stored.
+   */
+  clear(): boolean {
+    const tokenPath = this.getTokenPath();
+    if (!existsSync(tokenPath)) {
+      return false;
+    }
+    if (lstatSync(tokenPath).isSymbolicLink()) {
+      throw new Error('Token file is a symlink - potential security issue');
+    }
+    unlinkSync(tokenPath);
+    this.unreadableReported = false;
+    return true;
+  }
+
+  /**
+   * The secret audit log item identifiers are hashed with, created on first
+   * use when allowed; undefined when there is none
+   */
+  getAuditKey(create = false): Buffer | undefined {
+    return existsSync(join(this.configDir, AUDIT_KEY_FILE)) || create
+      ? this.loadKey(create, AUDIT_KEY_FILE)
+      : undefined;
+  }
+
+  /**
+   * Load the encryption key, creating it on first use when allowed
+   */
+  private loadKey(create: boolean, fileName: string = KEY_FILE): Buffer {
+    const keyPath = join(this.configDir, fileName);
+    if (existsSync(keyPath)) {
+      const key = Buffer.from(this.readOwnerOnly(keyPath), 'base64');
+      if (key.length !== KEY_BYTES) {
+        throw new Error(`Key has an invalid length: ${keyPath}`);
+      }
+      return key;
+    }
+    if (!create) {
+      throw new Error('Token key is missing');
+    }
+
+    const key = randomBytes(KEY_BYTES);
+    this.writeOwnerOnly(keyPath, key.toString('base64'));
+    return key;
+  }
+
+  private writeOwnerOnly(filePath: string, data: string): void {
+    if (existsSync(filePath) && lstatSync(filePath).isSymbolicLink()) {
+      throw new Error(`Refusing to write through symlink: ${filePath}`);
+    }
+    writeFileSync(filePath, data, { mode: 0o600 });
+    // mode only applies when the file is created
+    chmodSync(filePath, 0o600);
+  }
+
+  private readOwnerOnly(filePath: string): string {
+    const stats = lstatSync(filePath);
+    if (stats.isSymbolicLink() || !stats.isFile()) {
+      throw new Error(`Not a regular file: ${filePath}`);
+    }
+    if ((stats.mode & 0o077) !== 0) {
+      throw new Error(`File is accessible to other users: ${filePath}`);
+    }
+    return readFileSync(filePath, 'utf8');
+  }
+}
+
+// Singleton instance
+let tokenStoreInstance: TokenStore | null = null;
+
+/**
+ * Get the global access token store instance
+ */
+export function getTokenStore(): TokenStore {
+  if (!tokenStoreInstance) {
+    tokenStoreInstance = new TokenStore();
+  }
+  return tokenStoreInstance;
+}
@@ -0,0 +1,697 @@
+/**
+ * Tool Definitions
+ *
+ * Input schemas for every Ulysses tool advertised through tools/list, and
+ * output schemas for the read tools that return structured content. The
+ * argument length limits and the destructive actions live here too, so the
+ * configuration can validate them without depending on the server.
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Maximum length of tool arguments, in characters
+ */
+export interface MaxLengths {
+  /** Sheet text and inserted text */
+  text: number;
+  note: number;
+  /** Group names and titles */
+  groupTitle: number;
+  sheetTitle: number;
+  keywords: number;
+  appname: number;
+}
+
+export const DEFAULT_MAX_LENGTHS: MaxLengths = {
+  text: 1000000,
+  note: 100000,
+  groupTitle: 255,
+  sheetTitle: 1000,
+  keywords: 1000,
+  appname: 100
+};
+
+// Actions that change or remove existing content: confirmed with the user and rate limited as destructive
+export const DESTRUCTIVE_ACTIONS = new Set([
+  "trash",
+  "move",
+  "set-group-title",
+  "set-sheet-title",
+  "remove-keywords",
+  "remove-note",
+  "update-note"
+]);
+
+// JSON Schema definitions mirroring the models in models.ts
+const MODEL_DEFINITIONS = {
+  keyword: {
+    type: "object",
+    properties: {
+      title: { type: "string" }
+    },
+    required: ["title"]
+  },
+  note: {
+    type: "object",
+    properties: {
+      index: { type: "number", description: "Position of the note, used by update_note and remove_note" },
+      format: { type: "string" },
+      text: { type: "string" }
+    },
+    required: ["text"]
+  },
+  attachment: {
+    type: "object",
+    properties: {
+      type: { type: "string", description: "Attachment kind, e.g. image" },
+      filename: { type: "string" },
+      format: { type: "string" },
+      size: { type: "number" }
+    },
+    required: ["type"]
+  },
+  sheet: {
+    type: "object",
+    properties: {
+      type: { type: "string", const: "sheet" },
+      identifier: { type: "string" },
+      title: { type: "string" },
+      titleType: { type: "string" },
+      keywords: { type: "array", items: { $ref: "#/$defs/keyword" } },
+      notes: { type: "array", items: { $ref: "#/$defs/note" } },
+      attachments: { type: "array", items: { $ref: "#/$defs/attachment" } },
+      material: { type: "boolean" },
+      text: { type: "string", description: "Only present when the text was requested" }
+    },
+    required: ["type", "identifier", "title", "keywords"]
+  },
+  group: {
+    type: "object",
+    properties: {
+      type: { type: "string", const: "group" },
+      identifier: { type: "string" },
+      title: { type: "string" },
+      containers: { type: "array", items: { $ref: "#/$defs/group" } },
+      sheets: { type: "array", items: { $ref: "#/$defs/sheet" } }
+    },
+    required: ["type", "identifier", "title"]
+  }
+};
+
+// Accepted by every tool that calls Ulysses
+const DRY_RUN_PROPERTY = {
+  type: "boolean",
+  description: "Optional. Validate the call and return the x-callback-url it would open and its effect, without sending it to Ulysses"
+};
+
+// What a dry run returns instead of the tool's usual result
+const DRY_RUN_OUTPUT_PROPERTIES = {
+  dryRun: { type: "boolean" },
+  action: { type: "string" },
+  effect: { type: "string" },
+  url: { type: "string" }
+};
+
+/**
+ * Builds an output schema whose properties may reference the model definitions;
+ * a result either has the required properties or is a dry-run preview
+ */
+function outputSchema(properties: Record<string, object>, required: string[]): Tool["outputSchema"] {
+  return {
+    type: "object",
+    properties: { ...DRY_RUN_OUTPUT_PROPERTIES, ...properties },
+    anyOf: [{ required }, { required: ["dryRun", "action", "effect", "url"] }],
+    $defs: MODEL_DEFINITIONS
+  };
+}
+
+// Result of the tools that create an item
+const CREATED_ITEM_OUTPUT = outputSchema({
+  action: { type: "string" },
+  targetId: { type: "string", description: "Identifier of the new item" }
+}, ["action", "targetId"]);
+
+export const TOOLS: Tool[] = [
+  {
+    name: "ulysses_new_sheet",
+    description: "Create a new sheet in Ulysses with the specified text content. Optionally specify a group, format (markdown/text/html), position, and whether it should be a material sheet. Returns the identifier of the new sheet as targetId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "The content to insert into the new sheet"
+        },
+        group: {
+          type: "string",
+          description: "Optional. Group name, path (e.g., /My Group/Subgroup), or identifier where the sheet should be created. Defaults to Inbox."
+        },
+        format: {
+          type: "string",
+          enum: ["markdown", "text", "html"],
+          description: "Optional. Format of the imported text. Defaults to markdown."
+        },
+        index: {
+          type: "string",
+          description: "Optional. Position of the new sheet in its parent group (0 for first position)"
+        },
+        material: {
+          type: "string",
+          enum: ["YES", "NO"],
+          description: "Optional. Whether the sheet should be created as a material sheet. Defaults to NO."
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["text"]
+    },
+    outputSchema: CREATED_ITEM_OUTPUT
+  },
+  {
+    name: "ulysses_new_group",
+    description: "Create a new group in Ulysses. Returns the identifier of the new group as targetId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "The name of the group to be created"
+        },
+        parent: {
+          type: "string",
+          description: "Optional. Parent group name, path, or identifier. Defaults to top level."
+        },
+        index: {
+          type: "string",
+          description: "Optional. Position of the new group in its parent (0 for first position)"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["name"]
+    },
+    outputSchema: CREATED_ITEM_OUTPUT
+  },
+  {
+    name: "ulysses_insert",
+    description: "Insert or append text to an existing sheet in Ulysses",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet to insert text into"
+        },
+        text: {
+          type: "string",
+          description: "The text content to insert"
+        },
+        format: {
+          type: "string",
+          enum: ["markdown", "text", "html"],
+          description: "Optional. Format of the imported text. Defaults to markdown."
+        },
+        position: {
+          type: "string",
+          enum: ["begin", "end"],
+          description: "Optional. Position to insert text (begin or end). Defaults to appending."
+        },
+        newline: {
+          type: "string",
+          enum: ["prepend", "append", "enclose"],
+          description: "Optional. How to handle newlines around inserted text"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id", "text"]
+    }
+  },
+  {
+    name: "ulysses_attach_note",
+    description: "Attach a note to a sheet in Ulysses",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet to attach the note to"
+        },
+        text: {
+          type: "string",
+          description: "The note content"
+        },
+        format: {
+          type: "string",
+          enum: ["markdown", "text", "html"],
+          description: "Optional. Format of the note text. Defaults to markdown."
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id", "text"]
+    }
+  },
+  {
+    name: "ulysses_attach_keywords",
+    description: "Add one or more keywords to a sheet in Ulysses",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet to attach keywords to"
+        },
+        keywords: {
+          type: "string",
+          description: "Comma-separated list of keywords (e.g., 'Draft,Important')"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id", "keywords"]
+    }
+  },
+  {
+    name: "ulysses_attach_image",
+    description: "Attach an image to a sheet in Ulysses using base64-encoded image data",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet to attach the image to"
+        },
+        image: {
+          type: "string",
+          description: "Base64-encoded image data (must also be URL-encoded)"
+        },
+        format: {
+          type: "string",
+          description: "Image format extension (png, jpg, gif, pdf, etc.)"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id", "image", "format"]
+    }
+  },
+  {
+    name: "ulysses_open",
+    description: "Open a specific sheet or group in Ulysses",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Group name, path (e.g., /My Group/Subgroup), or sheet/group identifier to open"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "ulysses_open_all",
+    description: "Open the 'All' section in Ulysses showing all sheets",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY
+      }
+    }
+  },
+  {
+    name: "ulysses_open_recent",
+    description: "Open the 'Last 7 Days' section in Ulysses",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY
+      }
+    }
+  },
+  {
+    name: "ulysses_open_favorites",
+    description: "Open the 'Favorites' section in Ulysses",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY
+      }
+    }
+  },
+  {
+    name: "ulysses_get_version",
+    description: "Get the Ulysses version and API version information, and whether the server is read-only",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY
+      }
+    },
+    outputSchema: outputSchema({
+      apiVersion: { type: "string" },
+      buildNumber: { type: "string" },
+      readOnly: { type: "boolean", description: "Whether the server refuses every action that changes the library" }
+    }, ["apiVersion", "buildNumber", "readOnly"])
+  },
+  {
+    name: "ulysses_authorize",
+    description: "Request authorization to access the Ulysses library. Required for reading content and destructive operations. The access token is stored encrypted on this machine and used by later commands automatically.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appname: {
+          type: "string",
+          description: "Name of the application requesting access (e.g., 'Cline MCP', 'Ollama', 'LM Studio')"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["appname"]
+    }
+  },
+  {
+    name: "ulysses_clear_token",
+    description: "Forget the access token stored by ulysses_authorize. The token stays valid in Ulysses until it is revoked in Ulysses preferences.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY
+      }
+    }
+  },
+  {
+    name: "ulysses_audit_query",
+    description: "Query this server's audit log of tool calls, including rotated files. Returns a table of events, failures and failure rates per action, or the matching events as JSON.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        event_type: {
+          type: "string",
+          enum: ["authorization", "destructive_operation", "rate_limit_violation", "validation_failure", "operation_success", "operation_failure", "server_start", "server_error", "chain_break"],
+          description: "Optional. Only events of this type"
+        },
+        action: {
+          type: "string",
+          description: "Optional. Only events of this Ulysses action (e.g. trash) or tool (e.g. ulysses_trash)"
+        },
+        since: {
+          type: "string",
+          description: "Optional. Only events at or after this time (ISO 8601, e.g. 2026-10-19T09:00:00Z)"
+        },
+        until: {
+          type: "string",
+          description: "Optional. Only events at or before this time (ISO 8601)"
+        },
+        success: {
+          type: "boolean",
+          description: "Optional. Only successful (true) or failed (false) events"
+        },
+        item_id: {
+          type: "string",
+          description: "Optional. Only events about this sheet or group identifier"
+        },
+        format: {
+          type: "string",
+          enum: ["summary", "events"],
+          description: "Optional. summary (default) for counts and failure rates per action, events for the raw events"
+        },
+        limit: {
+          type: "number",
+          description: "Optional. List only the most recent matching events (default 100); the summary counts all of them"
+        }
+      }
+    }
+  },
+  {
+    name: "ulysses_read_sheet",
+    description: "Read the contents of a sheet (requires authorization). Returns title, text content, keywords, and notes.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet to read"
+        },
+        text: {
+          type: "string",
+          enum: ["YES", "NO"],
+          description: "Optional. Whether to include the full text content. Defaults to NO."
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id"]
+    },
+    outputSchema: outputSchema({
+      sheet: { $ref: "#/$defs/sheet" }
+    }, ["sheet"])
+  },
+  {
+    name: "ulysses_get_item",
+    description: "Get information about a sheet or group (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the item (sheet or group) to get information about"
+        },
+        recursive: {
+          type: "string",
+          enum: ["YES", "NO"],
+          description: "Optional. For groups, whether to include all sub-groups recursively. Defaults to YES."
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id"]
+    },
+    outputSchema: outputSchema({
+      item: { oneOf: [{ $ref: "#/$defs/group" }, { $ref: "#/$defs/sheet" }] }
+    }, ["item"])
+  },
+  {
+    name: "ulysses_get_root_items",
+    description: "Get the root sections of the Ulysses library (iCloud, On My Mac, external folders). Can be used to get a full library listing. Requires authorization.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        recursive: {
+          type: "string",
+          enum: ["YES", "NO"],
+          description: "Optional. Whether to get a deep listing of the entire library. Defaults to YES."
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      }
+    },
+    outputSchema: outputSchema({
+      items: { type: "array", items: { $ref: "#/$defs/group" } }
+    }, ["items"])
+  },
+  {
+    name: "ulysses_move",
+    description: "Move a sheet or group to a different location (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the item to move"
+        },
+        targetGroup: {
+          type: "string",
+          description: "Optional. Target group name, path, or identifier"
+        },
+        index: {
+          type: "string",
+          description: "Optional. Position in the target group (0 for first position)"
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "ulysses_copy",
+    description: "Copy a sheet or group to a different location. Returns the identifier of the copy as targetId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the item to copy"
+        },
+        targetGroup: {
+          type: "string",
+          description: "Optional. Target group name, path, or identifier"
+        },
+        index: {
+          type: "string",
+          description: "Optional. Position in the target group (0 for first position)"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id"]
+    },
+    outputSchema: CREATED_ITEM_OUTPUT
+  },
+  {
+    name: "ulysses_trash",
+    description: "Move a sheet or group to the trash (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the item to trash"
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id"]
+    }
+  },
+  {
+    name: "ulysses_set_group_title",
+    description: "Change the title of a group (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        group: {
+          type: "string",
+          description: "Group name, path, or identifier"
+        },
+        title: {
+          type: "string",
+          description: "New title for the group"
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["group", "title"]
+    }
+  },
+  {
+    name: "ulysses_set_sheet_title",
+    description: "Change the first paragraph of a sheet (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        sheet: {
+          type: "string",
+          description: "The identifier of the sheet"
+        },
+        title: {
+          type: "string",
+          description: "New title text"
+        },
+        type: {
+          type: "string",
+          enum: ["heading1", "heading2", "heading3", "heading4", "heading5", "heading6", "comment", "filename"],
+          description: "Type of paragraph to use for the title"
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["sheet", "title", "type"]
+    }
+  },
+  {
+    name: "ulysses_remove_keywords",
+    description: "Remove keywords from a sheet (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet"
+        },
+        keywords: {
+          type: "string",
+          description: "Comma-separated list of keywords to remove"
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id", "keywords"]
+    }
+  },
+  {
+    name: "ulysses_update_note",
+    description: "Change an existing note attachment on a sheet (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet"
+        },
+        index: {
+          type: "string",
+          description: "Position of the note to change (0 for first note, 1 for second, etc.)"
+        },
+        text: {
+          type: "string",
+          description: "New content for the note"
+        },
+        format: {
+          type: "string",
+          enum: ["markdown", "text", "html"],
+          description: "Optional. Format of the note text. Defaults to markdown."
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id", "index", "text"]
+    }
+  },
+  {
+    name: "ulysses_remove_note",
+    description: "Remove a note attachment from a sheet (requires authorization)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "The identifier of the sheet"
+        },
+        index: {
+          type: "string",
+          description: "Position of the note to remove (0 for first note, 1 for second, etc.)"
+        },
+        access_token: {
+          type: "string",
+          description: "Optional. Overrides the access token stored by ulysses_authorize"
+        },
+        dry_run: DRY_RUN_PROPERTY
+      },
+      required: ["id", "index"]
+    }
+  }
+];